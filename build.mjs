@@ -31,4 +31,18 @@ await esbuild.build({
   external: ['three', 'three/*'],
 });
 
+// Bundle the worker-thread pool and its worker script for plain Node
+await esbuild.build({
+  entryPoints: {
+    'parallel': 'dist/parallel.js',
+    'parallel3d-worker': 'dist/solver/parallel3d-worker.js'
+  },
+  bundle: true,
+  outdir: 'dist/node',
+  format: 'esm',
+  platform: 'node',
+  minify: false,
+  sourcemap: true,
+});
+
 console.log('Build complete');
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for ISO 9613-1 air absorption
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { computePathArrivals } from '../acoustics/impulse-response';
+import { Solver, Source, Listener, Wall } from '../beamtrace2d';
+import {
+  airAbsorptionCoefficient,
+  airAbsorptionBands,
+  annotateAirAbsorption
+} from '../acoustics/air-absorption';
+
+describe('airAbsorptionCoefficient', () => {
+  it('matches the ISO 9613-2 table at 20 °C and 70 % RH', () => {
+    // dB/km from ISO 9613-2 Table 2 (tabulated at exact midband frequencies, hence the 2 % tolerance)
+    const expected: [number, number][] = [
+      [125, 0.3], [250, 1.1], [500, 2.8], [1000, 5.0], [2000, 9.0], [4000, 22.9]
+    ];
+    for (const [f, dbPerKm] of expected) {
+      const alpha = airAbsorptionCoefficient(f, { temperature: 20, relativeHumidity: 70 }) * 1000;
+      expect(Math.abs(alpha - dbPerKm)).toBeLessThan(Math.max(0.05, 0.02 * dbPerKm));
+    }
+  });
+
+  it('increases with frequency', () => {
+    const bands = airAbsorptionBands();
+    for (let i = 1; i < bands.length; i++) {
+      expect(bands[i]).toBeGreaterThan(bands[i - 1]);
+    }
+  });
+
+  it('is higher in dry air at high frequencies', () => {
+    const dry = airAbsorptionCoefficient(4000, { relativeHumidity: 20 });
+    const humid = airAbsorptionCoefficient(4000, { relativeHumidity: 80 });
+    expect(dry).toBeGreaterThan(humid);
+  });
+
+  it('rejects invalid conditions', () => {
+    expect(() => airAbsorptionCoefficient(1000, { relativeHumidity: 120 })).toThrow(/humidity/);
+    expect(() => airAbsorptionCoefficient(1000, { pressure: 0 })).toThrow(/pressure/);
+    expect(() => airAbsorptionCoefficient(1000, { temperature: -300 })).toThrow(/temperature/);
+  });
+});
+
+describe('annotateAirAbsorption', () => {
+  it('annotates 2D detailed paths per segment', () => {
+    const walls = [
+      new Wall([0, 0], [100, 0]),
+      new Wall([100, 0], [100, 100]),
+      new Wall([100, 100], [0, 100]),
+      new Wall([0, 100], [0, 0])
+    ];
+    const solver = new Solver(walls, new Source([20, 50]), 1);
+    const perMeter = airAbsorptionBands();
+
+    for (const path of solver.getDetailedPaths(new Listener([60, 50]))) {
+      annotateAirAbsorption(path);
+      for (const segment of path.segments) {
+        expect(segment.airAttenuationDb![5]).toBeCloseTo(perMeter[5] * segment.length, 10);
+      }
+      expect(path.airAttenuationDb![3]).toBeCloseTo(perMeter[3] * path.totalPathLength, 10);
+    }
+  });
+});
+
+describe('Solver integration', () => {
+  const room = createShoeboxRoom(40, 30, 12);
+  const source: [number, number, number] = [10, 15, 2];
+  const listener: [number, number, number] = [30, 10, 1.5];
+
+  it('is off by default', () => {
+    const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 1 });
+    for (const path of solver.getDetailedPaths(listener)) {
+      expect(path.airAttenuationDb).toBeUndefined();
+      expect(path.segments[0].airAttenuationDb).toBeUndefined();
+    }
+  });
+
+  it('annotates every path when enabled', () => {
+    const conditions = { temperature: 15, relativeHumidity: 40 };
+    const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 1, airAbsorption: conditions });
+    const perMeter = airAbsorptionBands(conditions);
+
+    for (const path of solver.getDetailedPaths(listener)) {
+      expect(path.airAttenuationDb![5]).toBeCloseTo(perMeter[5] * path.totalPathLength, 10);
+      const sum = path.segments.reduce((acc, s) => acc + s.airAttenuationDb![0], 0);
+      expect(path.airAttenuationDb![0]).toBeCloseTo(sum, 10);
+    }
+  });
+
+  it('attenuates high-frequency arrivals', () => {
+    const plain = new OptimizedSolver3D(room, source, { maxReflectionOrder: 0 });
+    const withAir = new OptimizedSolver3D(room, source, { maxReflectionOrder: 0, airAbsorption: true });
+
+    const [a] = computePathArrivals(plain.getDetailedPaths(listener));
+    const [b] = computePathArrivals(withAir.getDetailedPaths(listener));
+    expect(b.amplitudes[0]).toBeCloseTo(a.amplitudes[0], 3);
+    expect(b.amplitudes[5]).toBeLessThan(a.amplitudes[5]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for ambisonic encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Orientation3D } from '../core/orientation3d';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { PathArrival, computePathArrivals, renderImpulseResponse } from '../acoustics/impulse-response';
+import {
+  ambisonicChannelCount,
+  ambisonicCoefficients,
+  renderAmbisonicImpulseResponse,
+  buildAmbisonicImpulseResponse
+} from '../acoustics/ambisonics';
+
+const az = 0.7;
+const el = 0.3;
+
+describe('ambisonicCoefficients', () => {
+  it('matches the first-order AmbiX gains (W, Y, Z, X)', () => {
+    const [w, y, z, x] = ambisonicCoefficients(1, { azimuth: az, elevation: el });
+    expect(w).toBeCloseTo(1, 12);
+    expect(y).toBeCloseTo(Math.sin(az) * Math.cos(el), 12);
+    expect(z).toBeCloseTo(Math.sin(el), 12);
+    expect(x).toBeCloseTo(Math.cos(az) * Math.cos(el), 12);
+  });
+
+  it('matches closed-form second and third order SN3D harmonics', () => {
+    const g = ambisonicCoefficients(3, { azimuth: az, elevation: el });
+    const s3 = Math.sqrt(3) / 2;
+    expect(g[4]).toBeCloseTo(s3 * Math.sin(2 * az) * Math.cos(el) ** 2, 12);
+    expect(g[5]).toBeCloseTo(s3 * Math.sin(az) * Math.sin(2 * el), 12);
+    expect(g[6]).toBeCloseTo(0.5 * (3 * Math.sin(el) ** 2 - 1), 12);
+    expect(g[7]).toBeCloseTo(s3 * Math.cos(az) * Math.sin(2 * el), 12);
+    expect(g[8]).toBeCloseTo(s3 * Math.cos(2 * az) * Math.cos(el) ** 2, 12);
+    expect(g[9]).toBeCloseTo(Math.sqrt(5 / 8) * Math.sin(3 * az) * Math.cos(el) ** 3, 12);
+    expect(g[12]).toBeCloseTo(0.5 * Math.sin(el) * (5 * Math.sin(el) ** 2 - 3), 12);
+    expect(g[15]).toBeCloseTo(Math.sqrt(5 / 8) * Math.cos(3 * az) * Math.cos(el) ** 3, 12);
+  });
+
+  it('has unit energy per order with SN3D', () => {
+    const g = ambisonicCoefficients(3, { azimuth: -2.1, elevation: -0.8 });
+    for (let l = 0; l <= 3; l++) {
+      let sum = 0;
+      for (let n = l * l; n < (l + 1) * (l + 1); n++) sum += g[n] * g[n];
+      expect(sum).toBeCloseTo(1, 12);
+    }
+  });
+
+  it('scales by sqrt(2l + 1) with N3D', () => {
+    const sn3d = ambisonicCoefficients(2, { azimuth: az, elevation: el });
+    const n3d = ambisonicCoefficients(2, { azimuth: az, elevation: el }, 'N3D');
+    expect(n3d[2]).toBeCloseTo(sn3d[2] * Math.sqrt(3), 12);
+    expect(n3d[6]).toBeCloseTo(sn3d[6] * Math.sqrt(5), 12);
+  });
+
+  it('rejects unsupported orders', () => {
+    expect(ambisonicChannelCount(3)).toBe(16);
+    expect(() => ambisonicCoefficients(4, { azimuth: 0, elevation: 0 })).toThrow(/order/);
+    expect(() => ambisonicCoefficients(1.5, { azimuth: 0, elevation: 0 })).toThrow(/order/);
+  });
+});
+
+describe('renderAmbisonicImpulseResponse', () => {
+  it('encodes each arrival with its direction', () => {
+    const arrival: PathArrival = {
+      time: 0.01, distance: 3.43, reflectionOrder: 0,
+      amplitudes: [0.5, 0.5, 0.5, 0.5, 0.5, 0.5],
+      direction: { azimuth: Math.PI / 2, elevation: 0 }
+    };
+    const channels = renderAmbisonicImpulseResponse([arrival], { sampleRate: 1000, order: 1 });
+    expect(channels.length).toBe(4);
+    expect(channels[0][10]).toBeCloseTo(0.5, 6);   // W
+    expect(channels[1][10]).toBeCloseTo(0.5, 6);   // Y (left)
+    expect(channels[2][10]).toBeCloseTo(0, 6);     // Z
+    expect(channels[3][10]).toBeCloseTo(0, 6);     // X
+  });
+
+  it('requires directions', () => {
+    const arrival: PathArrival = { time: 0, distance: 0, reflectionOrder: 0, amplitudes: [1, 1, 1, 1, 1, 1] };
+    expect(() => renderAmbisonicImpulseResponse([arrival], { sampleRate: 1000, order: 1 })).toThrow(/direction/);
+  });
+});
+
+describe('buildAmbisonicImpulseResponse', () => {
+  const room = createShoeboxRoom(10, 8, 3);
+  const solver = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 2 });
+
+  it('W equals the omnidirectional impulse response', () => {
+    const paths = solver.getDetailedPaths([2, 3, 1.2]);
+    const bformat = buildAmbisonicImpulseResponse(paths, { sampleRate: 16000, order: 2 });
+    const omni = renderImpulseResponse(computePathArrivals(paths), { sampleRate: 16000 });
+
+    expect(bformat.length).toBe(9);
+    expect(Array.from(bformat[0])).toEqual(Array.from(omni));
+  });
+
+  it('rotates with the listener orientation', () => {
+    // Direct sound from the listener's front, then from its left after a 90° turn to the right
+    const listener: [number, number, number] = [2, 4, 1.5];
+    const direct = (yawDeg: number) => {
+      const paths = solver.getDetailedPaths(listener, Orientation3D.fromDegrees(yawDeg))
+        .filter(p => p.reflectionCount === 0);
+      return buildAmbisonicImpulseResponse(paths, { sampleRate: 16000, order: 1, interpolation: 'nearest' });
+    };
+    const index = Math.round(3 / 343 * 16000);
+
+    const front = direct(0);
+    expect(front[3][index]).toBeCloseTo(front[0][index], 6);
+    expect(front[1][index]).toBeCloseTo(0, 6);
+
+    const turned = direct(-90);
+    expect(turned[1][index]).toBeCloseTo(turned[0][index], 6);
+    expect(turned[3][index]).toBeCloseTo(0, 6);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { Wall, Source, Listener, Solver } from '../beamtrace2d';
+import { Wall, Source, Listener, Solver, isDiffractionPoint } from '../beamtrace2d';
+import { computeArrivals2D, computePathArrivals } from '../acoustics/impulse-response';
 
 describe('BeamTrace2D', () => {
   describe('Wall', () => {
@@ -719,4 +720,72 @@ describe('BeamTrace2D', () => {
       }
     });
   });
+
+  describe('Solver diffraction', () => {
+    // Square room with a partition from the bottom wall up to a free end at (50, 60)
+    const walls: Wall[] = [
+      new Wall([0, 0], [100, 0]),
+      new Wall([100, 0], [100, 100]),
+      new Wall([100, 100], [0, 100]),
+      new Wall([0, 100], [0, 0]),
+      new Wall([50, 0], [50, 60]),
+    ];
+    const source = new Source([25, 30]);
+    const shadowed = new Listener([75, 30]);
+
+    it('is disabled by default', () => {
+      const solver = new Solver(walls, source, 1);
+      const paths = solver.getPaths(shadowed);
+      expect(paths.some(path => path.some(isDiffractionPoint))).toBe(false);
+    });
+
+    it('reaches a listener behind a free wall end', () => {
+      const solver = new Solver(walls, source, 1, { diffraction: true });
+      const paths = solver.getPaths(shadowed).filter(p => p.some(isDiffractionPoint));
+
+      expect(paths).toHaveLength(1);
+      const [path] = paths;
+      expect(path).toHaveLength(3);
+      expect(path[1]).toEqual([50, 60, 4, 'diffraction']);
+      expect(isDiffractionPoint(path[1])).toBe(true);
+      expect(isDiffractionPoint(path[0])).toBe(false);
+    });
+
+    it('only diffracts around endpoints not shared with another wall', () => {
+      const room = walls.slice(0, 4);
+      const plain = new Solver(room, source, 2).getPaths(shadowed);
+      const diffracting = new Solver(room, source, 2, { diffraction: true }).getPaths(shadowed);
+      expect(diffracting).toHaveLength(plain.length);
+    });
+
+    it('reports the diffraction attenuation on detailed paths', () => {
+      const solver = new Solver(walls, source, 1, { diffraction: true });
+      const detailed = solver.getDetailedPaths(shadowed);
+      const diffracted = detailed.filter(path => path.isDiffracted);
+
+      expect(diffracted).toHaveLength(1);
+      const [path] = diffracted;
+      expect(path.reflectionCount).toBe(0);
+      expect(path.diffractionWallIds).toEqual([4]);
+      expect(path.diffractionGain).toHaveLength(6);
+      for (let b = 1; b < 6; b++) {
+        expect(path.diffractionGain![b]).toBeLessThan(path.diffractionGain![b - 1]);
+      }
+
+      for (const specular of detailed.filter(p => !p.isDiffracted)) {
+        expect(specular.diffractionGain).toBeUndefined();
+      }
+
+      const [arrival] = computePathArrivals([path]);
+      expect(arrival.amplitudes[0]).toBeCloseTo(path.diffractionGain![0] / path.totalPathLength, 12);
+      expect(computeArrivals2D([path.simplePath])[0].reflectionOrder).toBe(0);
+    });
+
+    it('halves the field on the shadow boundary', () => {
+      // Listener in line with the source and the wall end
+      const solver = new Solver(walls, source, 1, { diffraction: true });
+      const [path] = solver.getDetailedPaths(new Listener([62.5, 75])).filter(p => p.isDiffracted);
+      expect(path.diffractionGain![5]).toBeCloseTo(0.5, 1);
+    });
+  });
 });
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for coverage maps
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { Wall, Source, Listener, Solver } from '../beamtrace2d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { ListenerGrid3D, listenerGridPoints } from '../solver/grid3d';
+import { computeCoverage2D, computeCoverage3D, coverageImage } from '../solver/coverage';
+import { createPillarRoom } from './fixtures';
+
+const GRID: ListenerGrid3D = { origin: [1, 1, 1.2], columns: 5, rows: 4, spacing: 2 };
+
+describe('computeCoverage3D', () => {
+  it('samples every grid point', () => {
+    const solver = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), [5, 4, 1.5], { maxReflectionOrder: 2 });
+    const maps = computeCoverage3D(solver, GRID);
+
+    expect(maps.spl.width).toBe(5);
+    expect(maps.spl.height).toBe(4);
+    expect([...maps.direct.values]).toEqual(new Array(20).fill(1));
+
+    const point = listenerGridPoints(GRID)[7];
+    const paths = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), [5, 4, 1.5], { maxReflectionOrder: 2 }).getDetailedPaths(point);
+    const energy = paths.reduce((sum, p) => sum + 1 / p.totalPathLength ** 2, 0);
+    expect(maps.reflections.values[7]).toBe(paths.length - 1);
+    expect(maps.spl.values[7]).toBeCloseTo(10 * Math.log10(energy), 4);
+    // Every order-2 arrival is early
+    expect(maps.c80.values[7]).toBe(Infinity);
+  });
+
+  it('maps the shadow of an obstacle', () => {
+    const solver = new OptimizedSolver3D(createPillarRoom(), [2, 4, 1.5], { maxReflectionOrder: 1 });
+    const maps = computeCoverage3D(solver, { origin: [1, 4, 1.2], columns: 9, rows: 1, spacing: 1 });
+
+    // The pillar spans x = 4..6 on the line y = 4
+    expect([...maps.direct.values]).toEqual([1, 1, 1, 0, 0, 0, 0, 0, 0]);
+    expect(maps.spl.values[8]).toBeLessThan(maps.spl.values[0]);
+  });
+});
+
+describe('computeCoverage2D', () => {
+  it('maps the 2D solver', () => {
+    const walls = [
+      new Wall([0, 0], [100, 0]), new Wall([100, 0], [100, 80]),
+      new Wall([100, 80], [0, 80]), new Wall([0, 80], [0, 0])
+    ];
+    const solver = new Solver(walls, new Source([30, 40]), 2);
+    const maps = computeCoverage2D(solver, { origin: [10, 10], columns: 4, rows: 3, spacing: 25 }, { order: 'serpentine' });
+
+    expect([...maps.direct.values]).toEqual(new Array(12).fill(1));
+    const paths = solver.getDetailedPaths(new Listener([35, 35]));
+    expect(maps.reflections.values[5]).toBe(paths.length - 1);
+  });
+});
+
+describe('coverageImage', () => {
+  it('colours values with +y up and leaves missing values transparent', () => {
+    const raster = { width: 2, height: 2, values: new Float32Array([0, 10, NaN, 5]) };
+    const image = coverageImage(raster, { opacity: 200 });
+
+    expect(image.data.length).toBe(16);
+    // Bottom-left pixel is the first grid point (lowest value: first colour)
+    expect([...image.data.subarray(8, 12)]).toEqual([68, 1, 84, 200]);
+    expect([...image.data.subarray(12, 16)]).toEqual([253, 231, 37, 200]);
+    expect(image.data[3]).toBe(0);
+  });
+
+  it('clamps to the given range', () => {
+    const raster = { width: 1, height: 1, values: new Float32Array([-5]) };
+    expect([...coverageImage(raster, { min: 0, max: 1 }).data]).toEqual([68, 1, 84, 255]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the CRAM project importer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { Source3D, Listener3D } from '../core/source-listener3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { parseCram } from '../io/cram';
+
+const SURFACE_NAMES = ['floor', 'ceil', 'front', 'right', 'back', 'left'];
+
+/** CRAM-style project: a 10 x 8 x 3 shoebox saved as two triangles per surface */
+function createCramProject(): Record<string, unknown> {
+  const surfaces = createShoeboxRoom(10, 8, 3).map((polygon, i) => {
+    const [a, b, c, d] = polygon.vertices;
+    return {
+      kind: 'surface',
+      name: SURFACE_NAMES[i],
+      vertices: [...a, ...b, ...c, ...a, ...c, ...d],
+      acousticMaterial: { name: i === 0 ? 'carpet' : 'plaster', absorption: {} }
+    };
+  });
+
+  return {
+    meta: { name: 'shoebox', version: '0.2.1' },
+    containers: [
+      { kind: 'room', name: 'shoebox', uuid: 'r1', surfaces },
+      { kind: 'source', name: 'Source 1', uuid: 's1', position: [5, 4, 1.5], rotation: [0, 0, 0] },
+      { kind: 'receiver', name: 'Receiver 1', uuid: 'l1', position: [3, 3, 1.2] }
+    ]
+  };
+}
+
+describe('parseCram', () => {
+  it('merges each surface into polygons with its name', () => {
+    const project = parseCram(JSON.stringify(createCramProject()));
+
+    expect(project.name).toBe('shoebox');
+    expect(project.polygons.length).toBe(6);
+    expect(project.surfaceNames).toEqual(SURFACE_NAMES);
+    expect(project.polygons.map(p => p.surfaceId)).toEqual([0, 1, 2, 3, 4, 5]);
+    for (const polygon of project.polygons) {
+      expect(polygon.vertices.length).toBe(4);
+    }
+  });
+
+  it('keeps triangles without merging', () => {
+    expect(parseCram(createCramProject(), { mergeCoplanar: false }).polygons.length).toBe(12);
+  });
+
+  it('assigns material ids by acoustic material name', () => {
+    const project = parseCram(createCramProject());
+
+    expect(project.materialIds).toEqual({ carpet: 1, plaster: 2 });
+    expect(project.polygons.map(p => p.materialId)).toEqual([1, 2, 2, 2, 2, 2]);
+  });
+
+  it('creates sources and listeners from CRAM sources and receivers', () => {
+    const project = parseCram(createCramProject());
+
+    expect(project.sources.length).toBe(1);
+    expect(project.sources[0]).toBeInstanceOf(Source3D);
+    expect(project.sources[0].position).toEqual([5, 4, 1.5]);
+    expect(project.sourceNames).toEqual(['Source 1']);
+    expect(project.listeners[0]).toBeInstanceOf(Listener3D);
+    expect(project.listeners[0].position).toEqual([3, 3, 1.2]);
+    expect(project.listenerNames).toEqual(['Receiver 1']);
+  });
+
+  it('accepts containers keyed by uuid and nested triangles', () => {
+    const floor = createShoeboxRoom(10, 8, 3)[0];
+    const [a, b, c, d] = floor.vertices;
+    const project = parseCram({
+      containers: {
+        r1: { kind: 'room', surfaces: [{ name: 'floor', triangles: [[a, b, c], [a, c, d]] }] }
+      }
+    });
+
+    expect(project.polygons.length).toBe(1);
+    expect(Polygon3D.area(project.polygons[0])).toBeCloseTo(80, 10);
+    expect(project.sources).toEqual([]);
+  });
+
+  it('gives the same paths as the equivalent hand-built room', () => {
+    const project = parseCram(createCramProject());
+    const source = project.sources[0].position;
+    const listener = project.listeners[0].position;
+
+    const imported = new OptimizedSolver3D(project.polygons, source, { maxReflectionOrder: 2 }).getPaths(listener);
+    const reference = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), source, { maxReflectionOrder: 2 }).getPaths(listener);
+    expect(imported.length).toBe(reference.length);
+  });
+
+  it('names the malformed field', () => {
+    const bad = createCramProject();
+    (bad.containers as Array<Record<string, unknown>>)[0].surfaces = [{ name: 'floor', vertices: [0, 0, 0, 1, 0] }];
+    expect(() => parseCram(bad)).toThrow(/CRAM: containers\[0\]\.surfaces\[0\]\.vertices: expected numbers, 9 per triangle/);
+
+    expect(() => parseCram({ meta: {} })).toThrow(/no containers/);
+    expect(() => parseCram('not json')).toThrow(/CRAM: invalid JSON/);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Unit tests for edge diffraction: edge detection, UTD coefficients and diffracted paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { findDiffractionEdges, edgeAngle, isInEdgeWedge, pointOnEdge } from '../geometry/edges3d';
+import { transitionFunction, utdCoefficient } from '../acoustics/utd';
+import { OptimizedSolver3D, computePathLength, getPathReflectionOrder } from '../solver/solver3d';
+import { computeDiffractionGain, diffractionPointOnEdge } from '../solver/diffraction3d';
+import { computePathArrivals } from '../acoustics/impulse-response';
+
+/**
+ * L-shaped room: the footprint (0,0)-(10,0)-(10,4)-(4,4)-(4,10)-(0,10), 3 m high,
+ * with a re-entrant vertical corner at (4, 4)
+ */
+function createLRoom(height: number = 3): Polygon3D[] {
+  const footprint: Array<[number, number]> = [[0, 0], [10, 0], [10, 4], [4, 4], [4, 10], [0, 10]];
+  const polygons: Polygon3D[] = [];
+
+  // Floor and ceiling as two convex rectangles each
+  const rects: Array<[number, number, number, number]> = [[0, 0, 10, 4], [0, 4, 4, 10]];
+  for (const [x0, y0, x1, y1] of rects) {
+    polygons.push(Polygon3D.create([[x0, y0, 0], [x1, y0, 0], [x1, y1, 0], [x0, y1, 0]]));
+    polygons.push(Polygon3D.create([[x0, y0, height], [x0, y1, height], [x1, y1, height], [x1, y0, height]]));
+  }
+
+  // Walls facing into the room (footprint is counter-clockwise from above)
+  for (let i = 0; i < footprint.length; i++) {
+    const [ax, ay] = footprint[i];
+    const [bx, by] = footprint[(i + 1) % footprint.length];
+    const vertices: Vector3[] = [[ax, ay, 0], [ax, ay, height], [bx, by, height], [bx, by, 0]];
+    polygons.push(Polygon3D.create(vertices));
+  }
+
+  return polygons;
+}
+
+describe('findDiffractionEdges', () => {
+  it('finds no diffracting edges in a shoebox room', () => {
+    expect(findDiffractionEdges(createShoeboxRoom(10, 8, 3))).toHaveLength(0);
+  });
+
+  it('finds the re-entrant corner of an L-shaped room', () => {
+    const edges = findDiffractionEdges(createLRoom());
+
+    expect(edges).toHaveLength(1);
+    const [edge] = edges;
+    expect(edge.id).toBe(0);
+    expect(edge.polygonIds).toHaveLength(2);
+    expect(edge.length).toBeCloseTo(3, 10);
+    expect(Math.abs(edge.direction[2])).toBeCloseTo(1, 10);
+    expect(edge.start[0]).toBeCloseTo(4, 10);
+    expect(edge.start[1]).toBeCloseTo(4, 10);
+    expect(edge.wedgeAngle).toBeCloseTo(1.5 * Math.PI, 10);
+  });
+
+  it('treats the rim of a single panel as free edges with a 2π wedge', () => {
+    const panel = Polygon3D.create([[0, 0, 0], [2, 0, 0], [2, 0, 1], [0, 0, 1]]);
+    const edges = findDiffractionEdges([panel]);
+
+    expect(edges).toHaveLength(4);
+    for (const edge of edges) {
+      expect(edge.polygonIds).toEqual([0]);
+      expect(edge.wedgeAngle).toBeCloseTo(2 * Math.PI, 10);
+    }
+  });
+
+  it('splits edges at T-junctions and merges coplanar neighbours', () => {
+    // Two coplanar panels side by side under one long panel edge
+    const left = Polygon3D.create([[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]]);
+    const right = Polygon3D.create([[1, 0, 0], [2, 0, 0], [2, 0, 1], [1, 0, 1]]);
+    const edges = findDiffractionEdges([left, right]);
+
+    // The shared edge at x = 1 is flat; the outline remains: 2 + 2 + 2 pieces
+    expect(edges.every(e => Math.abs(e.start[0] - 1) > 1e-9 || Math.abs(e.end[0] - 1) > 1e-9)).toBe(true);
+    const total = edges.reduce((sum, e) => sum + e.length, 0);
+    expect(total).toBeCloseTo(6, 10);
+  });
+
+  it('skips edges resting on another polygon', () => {
+    const floor = Polygon3D.create([[-5, -5, 0], [5, -5, 0], [5, 5, 0], [-5, 5, 0]]);
+    const screen = Polygon3D.create([[0, -1, 0], [0, 1, 0], [0, 1, 2], [0, -1, 2]]);
+    const edges = findDiffractionEdges([floor, screen]);
+
+    // Floor rim (4) and the screen's top and sides (3), but not its bottom
+    expect(edges).toHaveLength(7);
+    expect(edges.filter(e => e.polygonIds[0] === 1).every(e => e.start[2] > 0 || e.end[2] > 0)).toBe(true);
+  });
+});
+
+describe('edgeAngle', () => {
+  it('measures angles from the reference face through the air', () => {
+    const [edge] = findDiffractionEdges(createLRoom());
+    const mid = pointOnEdge(edge, edge.length / 2);
+
+    // Points just off each face are near 0 and near the wedge angle
+    const face0 = Vector3.add(mid, Vector3.add(edge.faceTangent, Vector3.scale(edge.faceNormal, 1e-3)));
+    expect(edgeAngle(edge, face0)).toBeCloseTo(0, 2);
+    expect(isInEdgeWedge(edge, face0)).toBe(true);
+
+    // Inside the wall material (behind the reference face) is outside the wedge
+    const solid = Vector3.add(mid, Vector3.add(edge.faceTangent, Vector3.scale(edge.faceNormal, -0.5)));
+    expect(isInEdgeWedge(edge, solid)).toBe(false);
+  });
+
+  it('places both room legs inside the wedge', () => {
+    const [edge] = findDiffractionEdges(createLRoom());
+    expect(isInEdgeWedge(edge, [8, 2, 1.5])).toBe(true);
+    expect(isInEdgeWedge(edge, [2, 8, 1.5])).toBe(true);
+  });
+});
+
+describe('transitionFunction', () => {
+  it('vanishes at zero and tends to one for large arguments', () => {
+    expect(transitionFunction(0)).toEqual([0, 0]);
+    const [re, im] = transitionFunction(1000);
+    expect(re).toBeCloseTo(1, 3);
+    expect(im).toBeCloseTo(1 / 2000, 4);
+  });
+
+  it('is continuous across the series/asymptotic switch', () => {
+    const below = transitionFunction(20 - 1e-9);
+    const above = transitionFunction(20);
+    expect(below[0]).toBeCloseTo(above[0], 7);
+    expect(below[1]).toBeCloseTo(above[1], 7);
+  });
+
+  it('behaves as √(πX)·e^{jπ/4} for small arguments', () => {
+    const x = 1e-8;
+    const [re, im] = transitionFunction(x);
+    expect(Math.hypot(re, im) / Math.sqrt(Math.PI * x)).toBeCloseTo(1, 3);
+    expect(Math.atan2(im, re)).toBeCloseTo(Math.PI / 4, 3);
+  });
+});
+
+describe('utdCoefficient', () => {
+  const halfPlane = {
+    wedgeAngle: 2 * Math.PI,
+    sourceAngle: Math.PI / 2,
+    receiverAngle: 1.5 * Math.PI,
+    skewAngle: Math.PI / 2,
+    sourceDistance: 5,
+    receiverDistance: 5
+  };
+
+  it('gives half the incident field on the shadow boundary', () => {
+    const d = utdCoefficient(halfPlane, 4000);
+    const gain = d * Math.sqrt(10 / 25);
+    expect(gain).toBeCloseTo(0.5, 1);
+  });
+
+  it('matches Keller\'s half-plane coefficient in the deep shadow', () => {
+    const geometry = { ...halfPlane, receiverAngle: 1.75 * Math.PI, sourceDistance: 50, receiverDistance: 50 };
+    const k = 2 * Math.PI * 4000 / 343;
+    const { sourceAngle, receiverAngle } = geometry;
+    const keller = Math.abs(1 / Math.cos((receiverAngle - sourceAngle) / 2) + 1 / Math.cos((receiverAngle + sourceAngle) / 2)) /
+      (2 * Math.sqrt(2 * Math.PI * k));
+
+    expect(utdCoefficient(geometry, 4000) / keller).toBeCloseTo(1, 2);
+  });
+
+  it('decreases with frequency in the shadow', () => {
+    const geometry = { ...halfPlane, receiverAngle: 1.75 * Math.PI };
+    expect(utdCoefficient(geometry, 4000)).toBeLessThan(utdCoefficient(geometry, 125));
+  });
+
+  it('returns 0 for rays along the edge', () => {
+    expect(utdCoefficient({ ...halfPlane, skewAngle: 0 }, 1000)).toBe(0);
+  });
+});
+
+describe('diffractionPointOnEdge', () => {
+  it('gives equal angles with the edge on both sides', () => {
+    const [edge] = findDiffractionEdges(createLRoom());
+    const from: Vector3 = [8, 2, 0.5];
+    const to: Vector3 = [2, 8, 2.5];
+    const t = diffractionPointOnEdge(edge, from, to) as number;
+    const point = pointOnEdge(edge, t);
+
+    const incoming = Vector3.normalize(Vector3.subtract(point, from));
+    const outgoing = Vector3.normalize(Vector3.subtract(to, point));
+    expect(Vector3.dot(incoming, edge.direction)).toBeCloseTo(Vector3.dot(outgoing, edge.direction), 10);
+  });
+});
+
+describe('OptimizedSolver3D diffraction', () => {
+  const source: Vector3 = [8, 2, 1.5];
+  const shadowed: Vector3 = [2, 8, 1.5];
+
+  it('is disabled by default', () => {
+    const solver = new OptimizedSolver3D(createLRoom(), source, { maxReflectionOrder: 1 });
+    expect(solver.getDiffractionEdges()).toHaveLength(0);
+    expect(solver.getPaths(shadowed).some(path => path.some(p => p.edgeId !== undefined))).toBe(false);
+  });
+
+  it('rejects unsupported diffraction orders', () => {
+    expect(() => new OptimizedSolver3D(createLRoom(), source, { diffractionOrder: 3 })).toThrow(/diffractionOrder/);
+  });
+
+  it('reaches a listener in the shadow of the corner', () => {
+    const solver = new OptimizedSolver3D(createLRoom(), source, { maxReflectionOrder: 0, diffractionOrder: 1 });
+    const paths = solver.getPaths(shadowed);
+
+    expect(paths).toHaveLength(1);
+    const [path] = paths;
+    expect(path).toHaveLength(3);
+    expect(path[1].edgeId).toBe(0);
+    expect(path[1].polygonId).toBeNull();
+    expect(path[1].position[0]).toBeCloseTo(4, 10);
+    expect(path[1].position[1]).toBeCloseTo(4, 10);
+    expect(path[1].position[2]).toBeCloseTo(1.5, 10);
+    expect(getPathReflectionOrder(path)).toBe(0);
+    expect(computePathLength(path)).toBeCloseTo(2 * Math.hypot(4, 2), 10);
+  });
+
+  it('returns diffracted paths alongside the direct path in the lit region', () => {
+    const solver = new OptimizedSolver3D(createLRoom(), source, { maxReflectionOrder: 0, diffractionOrder: 1 });
+    const paths = solver.getPaths([2, 2, 1.5]);
+    const diffracted = paths.filter(path => path.some(p => p.edgeId !== undefined));
+
+    expect(paths.length - diffracted.length).toBe(1);
+    expect(diffracted).toHaveLength(1);
+  });
+
+  it('reports the flag, edge ids and per-band gains on detailed paths', () => {
+    const solver = new OptimizedSolver3D(createLRoom(), source, { maxReflectionOrder: 0, diffractionOrder: 1 });
+    const [path] = solver.getDetailedPaths(shadowed);
+
+    expect(path.isDiffracted).toBe(true);
+    expect(path.diffractionEdgeIds).toEqual([0]);
+    expect(path.reflectionCount).toBe(0);
+    expect(path.diffractionGain).toHaveLength(6);
+    for (let b = 1; b < 6; b++) {
+      expect(path.diffractionGain![b]).toBeLessThan(path.diffractionGain![b - 1]);
+    }
+    expect(path.diffractionGain![0]).toBeLessThan(1);
+
+    const [arrival] = computePathArrivals([path]);
+    expect(arrival.amplitudes[5]).toBeCloseTo(path.diffractionGain![5] / path.totalPathLength, 10);
+  });
+
+  it('marks specular paths as not diffracted', () => {
+    const solver = new OptimizedSolver3D(createLRoom(), source, { maxReflectionOrder: 1, diffractionOrder: 1 });
+    const specular = solver.getDetailedPaths([2, 2, 1.5]).filter(path => !path.isDiffracted);
+
+    expect(specular.length).toBeGreaterThan(1);
+    for (const path of specular) {
+      expect(path.diffractionEdgeIds).toBeUndefined();
+      expect(path.diffractionGain).toBeUndefined();
+    }
+  });
+
+  it('finds second-order paths around two edges', () => {
+    // A thick free-standing barrier between source and listener in a large room
+    const [x0, x1, y0, y1, h] = [9, 11, 5, 15, 4];
+    const barrier = [
+      Polygon3D.create([[x0, y0, 0], [x0, y0, h], [x0, y1, h], [x0, y1, 0]]),
+      Polygon3D.create([[x1, y0, 0], [x1, y1, 0], [x1, y1, h], [x1, y0, h]]),
+      Polygon3D.create([[x0, y0, h], [x1, y0, h], [x1, y1, h], [x0, y1, h]]),
+      Polygon3D.create([[x0, y0, 0], [x1, y0, 0], [x1, y0, h], [x0, y0, h]]),
+      Polygon3D.create([[x0, y1, 0], [x0, y1, h], [x1, y1, h], [x1, y1, 0]])
+    ];
+    const polygons = [...createShoeboxRoom(20, 20, 10), ...barrier];
+
+    const solver = new OptimizedSolver3D(polygons, [5, 10, 2], { maxReflectionOrder: 0, diffractionOrder: 2 });
+    expect(solver.getDiffractionEdges()).toHaveLength(8);
+
+    // Over the top and around both sides, each across two edges
+    const paths = solver.getPaths([15, 10, 2]);
+    expect(paths.map(path => path.filter(p => p.edgeId !== undefined).length)).toEqual([2, 2, 2]);
+
+    for (const path of solver.getDetailedPaths([15, 10, 2])) {
+      expect(path.isDiffracted).toBe(true);
+      expect(path.diffractionEdgeIds).toHaveLength(2);
+      expect(path.diffractionGain!.every(g => g > 0 && g < 1)).toBe(true);
+    }
+  });
+
+  it('diffracts reflected sound at edges hidden from the source', () => {
+    // A panel hides the corner from the source; the back wall still lights it
+    const panel = Polygon3D.create([[6, 2.5, 0], [6, 2.5, 3], [6, 4, 3], [6, 4, 0]]);
+    const polygons = [...createLRoom(), panel];
+
+    const direct = new OptimizedSolver3D(polygons, source, { maxReflectionOrder: 0, diffractionOrder: 1 });
+    expect(direct.getPaths(shadowed)).toHaveLength(0);
+
+    const solver = new OptimizedSolver3D(polygons, source, { maxReflectionOrder: 1, diffractionOrder: 1 });
+    const paths = solver.getPaths(shadowed);
+    expect(paths.length).toBeGreaterThan(0);
+    expect(paths.every(path => path.some(p => p.edgeId === 0) && getPathReflectionOrder(path) === 1)).toBe(true);
+
+    // Off the back wall (y = 0): the virtual source at (8, -2) lines up with the corner
+    const backWall = paths.find(path => path[2].polygonId === 4)!;
+    expect(backWall).toHaveLength(4);
+    expect(backWall[1].position[2]).toBeCloseTo(1.5, 10);
+    expect(backWall[2].position[0]).toBeCloseTo(20 / 3, 10);
+    expect(computePathLength(backWall)).toBeCloseTo(Math.hypot(4, 6) + Math.hypot(2, 4), 10);
+
+    // Reflections unfold: the gain is that of a source at the virtual source
+    const edges = solver.getDiffractionEdges();
+    const unfolded = [backWall[0], backWall[1], { position: [8, -2, 1.5] as Vector3, polygonId: null }];
+    const gain = computeDiffractionGain(backWall, edges);
+    computeDiffractionGain(unfolded, edges).forEach((g, b) => expect(gain[b]).toBeCloseTo(g, 10));
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for source directivity
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Orientation3D } from '../core/orientation3d';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { computePathArrivals } from '../acoustics/impulse-response';
+import { Solver, Source, Listener, Wall } from '../beamtrace2d';
+import { Source3D, Solver3D } from '../beamtrace3d';
+import {
+  DirectivityPattern,
+  firstOrderDirectivity,
+  createBalloonDirectivity,
+  directivityGain
+} from '../acoustics/directivity';
+
+const FRONT = { azimuth: 0, elevation: 0 };
+const SIDE = { azimuth: Math.PI / 2, elevation: 0 };
+const BACK = { azimuth: Math.PI, elevation: 0 };
+
+/** Balloon with 0 dB at the front and -12 dB at the back, the same in every band */
+function frontBackBalloon() {
+  const row = [0, -6, -12, -6];
+  return createBalloonDirectivity([0, 90, 180, 270], [-90, 0, 90], Array.from({ length: 6 }, () => [row, row, row]));
+}
+
+describe('directivityGain', () => {
+  it('is 1 everywhere for omni', () => {
+    expect(directivityGain({ type: 'omni' }, BACK)).toEqual([1, 1, 1, 1, 1, 1]);
+  });
+
+  it('follows the cardioid law', () => {
+    const cardioid: DirectivityPattern = { type: 'cardioid' };
+    expect(directivityGain(cardioid, FRONT)[0]).toBeCloseTo(1, 10);
+    expect(directivityGain(cardioid, SIDE)[0]).toBeCloseTo(0.5, 10);
+    expect(directivityGain(cardioid, BACK)[0]).toBeCloseTo(0, 10);
+    expect(directivityGain(cardioid, { azimuth: 0, elevation: Math.PI / 2 })[0]).toBeCloseTo(0.5, 10);
+  });
+
+  it('returns magnitudes for patterns with a rear lobe', () => {
+    expect(directivityGain({ type: 'hypercardioid' }, BACK)[0]).toBeCloseTo(0.5, 10);
+    expect(directivityGain({ type: 'figure8' }, BACK)[0]).toBeCloseTo(1, 10);
+  });
+
+  it('validates first-order alpha', () => {
+    expect(directivityGain(firstOrderDirectivity(0.75), BACK)[0]).toBeCloseTo(0.5, 10);
+    expect(() => firstOrderDirectivity(1.5)).toThrow(/alpha/);
+  });
+
+  it('interpolates balloon tables and wraps azimuth', () => {
+    const balloon = frontBackBalloon();
+    expect(directivityGain(balloon, FRONT)[2]).toBeCloseTo(1, 10);
+    expect(directivityGain(balloon, BACK)[2]).toBeCloseTo(Math.pow(10, -12 / 20), 10);
+    expect(directivityGain(balloon, { azimuth: Math.PI / 4, elevation: 0 })[2]).toBeCloseTo(Math.pow(10, -3 / 20), 10);
+    // -45° lies between 270° and 360° (= 0°)
+    expect(directivityGain(balloon, { azimuth: -Math.PI / 4, elevation: 0 })[2]).toBeCloseTo(Math.pow(10, -3 / 20), 10);
+  });
+
+  it('rejects malformed balloon tables', () => {
+    expect(() => createBalloonDirectivity([0, 90], [0], [[[0, 0]]])).toThrow(/bands/);
+    expect(() => createBalloonDirectivity([90, 0], [0], [])).toThrow(/ascending/);
+    expect(() => createBalloonDirectivity([0, 360], [0], [])).toThrow(/360/);
+    const short = Array.from({ length: 6 }, () => [[0]]);
+    expect(() => createBalloonDirectivity([0, 90], [0], short)).toThrow(/azimuths per band/);
+  });
+});
+
+describe('3D solver integration', () => {
+  const room = createShoeboxRoom(10, 8, 3);
+  const source: Vector3 = [5, 4, 1.5];
+
+  it('omits the gain without a directivity', () => {
+    const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 1 });
+    for (const path of solver.getDetailedPaths([2, 4, 1.5])) {
+      expect(path.sourceDirectivityGain).toBeUndefined();
+    }
+  });
+
+  it('uses the departure direction of the last segment', () => {
+    // Cardioid facing +X: listener straight ahead gets full gain, behind gets none
+    const solver = new OptimizedSolver3D(room, source, {
+      maxReflectionOrder: 1,
+      sourceDirectivity: { type: 'cardioid' }
+    });
+
+    const front = solver.getDetailedPaths([8, 4, 1.5]).find(p => p.reflectionCount === 0)!;
+    const back = solver.getDetailedPaths([2, 4, 1.5]).find(p => p.reflectionCount === 0)!;
+    expect(front.sourceDirectivityGain![0]).toBeCloseTo(1, 10);
+    expect(back.sourceDirectivityGain![0]).toBeCloseTo(0, 10);
+
+    // Reflection off the +X wall (x = 10) departs forward even for a listener behind
+    const wallBounce = solver.getDetailedPaths([2, 4, 1.5]).find(p =>
+      p.reflectionCount === 1 && Math.abs(p.reflections[0].hitPoint[0] - 10) < 1e-9
+    )!;
+    expect(wallBounce.sourceDirectivityGain![0]).toBeCloseTo(1, 10);
+  });
+
+  it('respects the source orientation', () => {
+    const solver = new OptimizedSolver3D(room, source, {
+      maxReflectionOrder: 0,
+      sourceDirectivity: { type: 'cardioid' },
+      sourceOrientation: Orientation3D.fromDegrees(90)
+    });
+    const [path] = solver.getDetailedPaths([5, 7, 1.5]);
+    expect(path.sourceDirectivityGain![0]).toBeCloseTo(1, 10);
+  });
+
+  it('passes Source3D orientation and directivity through Solver3D', () => {
+    const solver = new Solver3D(room, new Source3D(source, {
+      orientation: Orientation3D.fromDegrees(180),
+      directivity: { type: 'cardioid' }
+    }), { maxReflectionOrder: 0 });
+
+    const [path] = solver.getDetailedPaths([2, 4, 1.5]);
+    expect(path.sourceDirectivityGain![0]).toBeCloseTo(1, 10);
+  });
+
+  it('scales arrival amplitudes', () => {
+    const solver = new OptimizedSolver3D(room, source, {
+      maxReflectionOrder: 0,
+      sourceDirectivity: { type: 'cardioid' }
+    });
+    const [arrival] = computePathArrivals(solver.getDetailedPaths([5, 7, 1.5]));
+    expect(arrival.amplitudes[0]).toBeCloseTo(0.5 / 3, 10);
+  });
+});
+
+describe('2D solver integration', () => {
+  const walls = [
+    new Wall([0, 0], [10, 0]),
+    new Wall([10, 0], [10, 10]),
+    new Wall([10, 10], [0, 10]),
+    new Wall([0, 10], [0, 0])
+  ];
+
+  it('reports the gain toward the departure direction', () => {
+    const source = new Source([5, 5], Math.PI / 2, { type: 'cardioid' });
+    const solver = new Solver(walls, source, 1);
+
+    const paths = solver.getDetailedPaths(new Listener([5, 8]));
+    const direct = paths.find(p => p.reflectionCount === 0)!;
+    expect(direct.sourceDirectivityGain![0]).toBeCloseTo(1, 10);
+
+    const side = solver.getDetailedPaths(new Listener([8, 5])).find(p => p.reflectionCount === 0)!;
+    expect(side.sourceDirectivityGain![0]).toBeCloseTo(0.5, 10);
+  });
+
+  it('omits the gain for omnidirectional sources', () => {
+    const solver = new Solver(walls, new Source([5, 5]), 1);
+    for (const path of solver.getDetailedPaths(new Listener([2, 2]))) {
+      expect(path.sourceDirectivityGain).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Shared fixtures for the 3D solver tests
+ */
+
+import { Vector3 } from '../core/vector3';
+import { ReflectionPath3D } from '../core/types';
+import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { computePathLength } from '../solver/solver3d';
+
+/**
+ * 10 x 8 x 3 room with a 2 x 2 m floor-to-ceiling pillar at its centre
+ *
+ * The materials apply to the room shell, as in createShoeboxRoom.
+ */
+export function createPillarRoom(floorMaterial?: number, ceilingMaterial?: number, wallMaterial?: number): Polygon3D[] {
+  const pillar = createShoeboxRoom(2, 2, 3)
+    .slice(2)
+    .map(wall => Polygon3D.flip(Polygon3D.create(wall.vertices.map(([x, y, z]): Vector3 => [x + 4, y + 3, z]))));
+  return [...createShoeboxRoom(10, 8, 3, floorMaterial, ceilingMaterial, wallMaterial), ...pillar];
+}
+
+/** Sorted path lengths, for comparing path sets */
+export function pathLengths(paths: ReflectionPath3D[]): number[] {
+  return paths.map(p => Math.round(computePathLength(p) * 1e6) / 1e6).sort((a, b) => a - b);
+}
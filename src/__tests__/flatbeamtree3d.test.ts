@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the flat beam tree
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import {
+  BeamNode3D,
+  buildBeamTree3D,
+  computeReflectionCandidates,
+  iterateNodes,
+  serializeBeamTree3D
+} from '../structures/beamtree3d';
+import {
+  buildFlatBeamTree3D,
+  createFlatBeamTree3D,
+  expandFlatBeamTree3D,
+  flattenBeamTree3D,
+  getFlatBeamNode,
+  getFlatFailPlane,
+  insertFlatBeamTreePolygon,
+  removeFlatBeamTreePolygon,
+  serializeFlatBeamTree3D,
+  setFlatFailPlane
+} from '../structures/flatbeamtree3d';
+import { detectFailPlane, detectFlatFailPlane } from '../optimization/failplane3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { createPillarRoom } from './fixtures';
+
+const SOURCE: Vector3 = [2, 2, 1.5];
+
+describe('buildFlatBeamTree3D', () => {
+  const room = createPillarRoom();
+  const candidates = computeReflectionCandidates(room);
+  const tree = buildBeamTree3D(SOURCE, room, 3, candidates);
+  const flat = buildFlatBeamTree3D(SOURCE, room, 3, candidates);
+
+  it('holds the nodes of buildBeamTree3D in depth-first order', () => {
+    expect(serializeFlatBeamTree3D(flat)).toEqual(serializeBeamTree3D(tree));
+    expect(flattenBeamTree3D(tree).polygonIds).toEqual(flat.polygonIds);
+
+    const nodes = [...iterateNodes(tree)];
+    expect(Array.from(flat.leafNodes)).toEqual(tree.leafNodes.map(node => nodes.indexOf(node)));
+  });
+
+  it('lists the other reflection nodes after their descendants', () => {
+    const nodes = [...iterateNodes(tree)];
+    const expected: number[] = [];
+    const visit = (node: BeamNode3D): void => {
+      node.children.filter(child => child.children.length > 0).forEach(visit);
+      if (node.parent) expected.push(nodes.indexOf(node));
+    };
+    visit(tree.root);
+
+    expect(Array.from(flat.internalNodes)).toEqual(expected);
+    expect(expected.length + flat.leafNodes.length + 1).toBe(flat.polygonIds.length);
+  });
+
+  it('gives nodes back as objects', () => {
+    const node = getFlatBeamNode(flat, flat.leafNodes[7]);
+    const original = tree.leafNodes[7];
+
+    expect(node.id).toBe(original.id);
+    expect(node.aperture?.vertices).toEqual(original.aperture?.vertices);
+    expect(node.parent?.virtualSource).toEqual(original.parent?.virtualSource);
+    expect(() => createFlatBeamTree3D(serializeFlatBeamTree3D(flat), room.slice(0, 4))).toThrow(/reflects off polygon/);
+  });
+});
+
+describe('flat fail planes', () => {
+  const room = createShoeboxRoom(10, 8, 3);
+  const flat = buildFlatBeamTree3D(SOURCE, room, 2);
+  const listener: Vector3 = [9, 7, 1];
+
+  it('detects the same fail planes as the object tree', () => {
+    const expanded = expandFlatBeamTree3D(flat);
+    const nodes = [...iterateNodes(expanded)];
+    for (const leaf of flat.leafNodes) {
+      expect(detectFlatFailPlane(listener, flat, leaf, room)).toEqual(detectFailPlane(listener, nodes[leaf], room));
+    }
+  });
+
+  it('keeps fail planes through expanding, flattening and edits', () => {
+    const copy = createFlatBeamTree3D(serializeFlatBeamTree3D(flat), room);
+    const leaf = copy.leafNodes[copy.leafNodes.length - 1];
+    setFlatFailPlane(copy, leaf, { a: 0, b: 0, c: 1, d: -2 }, 'edge');
+
+    const roundTrip = flattenBeamTree3D(expandFlatBeamTree3D(copy));
+    expect(getFlatFailPlane(roundTrip, leaf)).toEqual({ plane: { a: 0, b: 0, c: 1, d: -2 }, type: 'edge' });
+    expect(getFlatFailPlane(roundTrip, leaf - 1)).toBeNull();
+
+    const { tree, nodeMap } = removeFlatBeamTreePolygon(copy, 0, true);
+    expect(getFlatFailPlane(tree, nodeMap[leaf])?.type).toBe('edge');
+  });
+});
+
+describe('flat beam tree edits', () => {
+  const room = createPillarRoom();
+
+  it('adds polygons as a fresh build would', () => {
+    let flat = buildFlatBeamTree3D(SOURCE, room.slice(0, 6), 3, computeReflectionCandidates(room.slice(0, 6)));
+    for (let id = 6; id < room.length; id++) {
+      const polygons = room.slice(0, id + 1);
+      const edit = insertFlatBeamTreePolygon({ ...flat, polygons }, id, computeReflectionCandidates(polygons));
+      expect(edit.nodeMap.length).toBe(flat.polygonIds.length);
+      expect(Array.from(edit.nodeMap.map(node => edit.tree.polygonIds[node]))).toEqual(Array.from(flat.polygonIds));
+      flat = edit.tree;
+    }
+    expect(serializeFlatBeamTree3D(flat)).toEqual(serializeFlatBeamTree3D(buildFlatBeamTree3D(SOURCE, room, 3)));
+  });
+
+  it('removes polygons and renumbers the rest', () => {
+    const flat = buildFlatBeamTree3D(SOURCE, room, 3);
+    const polygons = room.filter((_, i) => i !== 2);
+    const { tree, nodeMap } = removeFlatBeamTreePolygon({ ...flat, polygons }, 2, true);
+
+    expect(serializeFlatBeamTree3D(tree)).toEqual(serializeFlatBeamTree3D(buildFlatBeamTree3D(SOURCE, polygons, 3)));
+    for (let i = 1; i < flat.polygonIds.length; i++) {
+      const removed = flat.polygonIds[i] === 2 || nodeMap[flat.parents[i]] === -1;
+      expect(nodeMap[i] === -1).toBe(removed);
+    }
+  });
+});
+
+describe('OptimizedSolver3D beam tree', () => {
+  it('expands its flat tree for inspection', () => {
+    const room = createPillarRoom();
+    const solver = new OptimizedSolver3D(room, SOURCE, { maxReflectionOrder: 3 });
+    solver.getPaths([8.3, 6.1, 1.2]);
+
+    const tree = solver.getBeamTree();
+    expect(tree.leafNodes.length).toBe(solver.getLeafNodeCount());
+    expect(tree.leafNodes.some(node => node.failPlane)).toBe(true);
+    expect([...iterateNodes(tree)].length).toBe([...iterateNodes(buildBeamTree3D(SOURCE, room, 3))].length);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for listener grid evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { ListenerGrid3D, gridVisitOrder, listenerGridPoints } from '../solver/grid3d';
+
+const GRID: ListenerGrid3D = { origin: [1, 1, 1.2], columns: 8, rows: 8, spacing: 0.5 };
+
+/** Largest distance between consecutively visited points */
+function largestStep(points: Vector3[], order: number[]): number {
+  let largest = 0;
+  for (let i = 1; i < order.length; i++) {
+    largest = Math.max(largest, Vector3.distance(points[order[i - 1]], points[order[i]]));
+  }
+  return largest;
+}
+
+describe('listenerGridPoints', () => {
+  it('lists points row by row', () => {
+    const points = listenerGridPoints({ origin: [0, 0, 1], columns: 3, rows: 2, spacing: 2 });
+    expect(points).toEqual([[0, 0, 1], [2, 0, 1], [4, 0, 1], [0, 2, 1], [2, 2, 1], [4, 2, 1]]);
+    expect(() => listenerGridPoints({ ...GRID, rows: 0 })).toThrow(/positive integers/);
+  });
+});
+
+describe('gridVisitOrder', () => {
+  it('walks rows in alternating directions', () => {
+    expect(gridVisitOrder({ origin: [0, 0, 1], columns: 3, rows: 2, spacing: 1 }, 'serpentine')).toEqual([0, 1, 2, 5, 4, 3]);
+  });
+
+  it('follows a Hilbert curve in unit steps', () => {
+    const order = gridVisitOrder(GRID);
+    expect([...order].sort((a, b) => a - b)).toEqual(listenerGridPoints(GRID).map((_, i) => i));
+    expect(largestStep(listenerGridPoints(GRID), order)).toBeCloseTo(GRID.spacing, 10);
+    expect(gridVisitOrder({ ...GRID, columns: 2, rows: 2 })).toEqual([0, 2, 3, 1]);
+  });
+
+  it('orders listed positions', () => {
+    const points = listenerGridPoints(GRID);
+    const shuffled = points.map((_, i) => points[(i * 37) % points.length]);
+
+    expect(largestStep(shuffled, gridVisitOrder(shuffled))).toBeCloseTo(GRID.spacing, 10);
+    expect(gridVisitOrder(shuffled, 'input')).toEqual(shuffled.map((_, i) => i));
+  });
+});
+
+describe('getPathsForGrid', () => {
+  const room = createShoeboxRoom(10, 8, 3);
+
+  it('gives the same paths as getPaths at every point', () => {
+    const result = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 2 }).getPathsForGrid(GRID);
+    const points = listenerGridPoints(GRID);
+
+    expect(result.points.map(p => p.index)).toEqual(points.map((_, i) => i));
+    for (const [i, position] of points.entries()) {
+      const expected = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 2 }).getPaths(position);
+      expect(result.points[i].position).toEqual(position);
+      expect(result.points[i].paths.length).toBe(expected.length);
+    }
+  });
+
+  it('sums the metrics of all points', () => {
+    const result = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 3 }).getPathsForGrid(GRID, { order: 'serpentine' });
+    const sum = (key: 'validPathCount' | 'failPlaneCacheHits') =>
+      result.points.reduce((total, p) => total + p.metrics[key], 0);
+
+    expect(result.metrics.validPathCount).toBe(sum('validPathCount'));
+    expect(result.metrics.validPathCount).toBe(result.points.reduce((total, p) => total + p.paths.length, 0));
+    expect(result.metrics.failPlaneCacheHits).toBe(sum('failPlaneCacheHits'));
+    expect(result.metrics.failPlaneCacheHits).toBeGreaterThan(0);
+    expect(result.visitOrder.slice(0, 9)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 15]);
+  });
+});
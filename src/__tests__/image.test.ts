@@ -0,0 +1,98 @@
+/**
+ * Unit tests for PNG and PPM encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RgbaImage, encodePng, encodePpm } from '../io/image';
+
+/** 3 x 2 test image: red, green, blue / white, black, half-transparent grey */
+function createImage(): RgbaImage {
+  return {
+    width: 3,
+    height: 2,
+    data: new Uint8ClampedArray([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+      255, 255, 255, 255, 0, 0, 0, 255, 128, 128, 128, 128
+    ])
+  };
+}
+
+/** Read the chunks of a PNG file */
+function readChunks(png: Uint8Array): Array<{ type: string; data: Uint8Array }> {
+  const view = new DataView(png.buffer, png.byteOffset);
+  const chunks: Array<{ type: string; data: Uint8Array }> = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/** Unpack a zlib stream made of stored deflate blocks */
+function inflateStored(stream: Uint8Array): Uint8Array {
+  const parts: number[] = [];
+  let offset = 2;
+  for (;;) {
+    const final = stream[offset] & 1;
+    expect(stream[offset] & 6).toBe(0);
+    const length = stream[offset + 1] | (stream[offset + 2] << 8);
+    parts.push(...stream.subarray(offset + 5, offset + 5 + length));
+    offset += 5 + length;
+    if (final) break;
+  }
+  return new Uint8Array(parts);
+}
+
+describe('encodePng', () => {
+  it('writes a valid PNG structure', () => {
+    const png = encodePng(createImage());
+
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = readChunks(png);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+
+    const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+    expect(header.getUint32(0)).toBe(3);
+    expect(header.getUint32(4)).toBe(2);
+    expect([...chunks[0].data.subarray(8)]).toEqual([8, 6, 0, 0, 0]);
+
+    // The IEND CRC is a fixed value
+    expect([...png.subarray(png.length - 4)]).toEqual([0xae, 0x42, 0x60, 0x82]);
+  });
+
+  it('stores the pixels as unfiltered scanlines', () => {
+    const image = createImage();
+    const raw = inflateStored(readChunks(encodePng(image))[1].data);
+
+    expect(raw.length).toBe(2 * (1 + 12));
+    expect(raw[0]).toBe(0);
+    expect([...raw.subarray(1, 13)]).toEqual([...image.data.subarray(0, 12)]);
+    expect([...raw.subarray(14)]).toEqual([...image.data.subarray(12)]);
+  });
+
+  it('splits large images into several blocks', () => {
+    const image: RgbaImage = { width: 200, height: 100, data: new Uint8Array(200 * 100 * 4).fill(7) };
+    const raw = inflateStored(readChunks(encodePng(image))[1].data);
+    expect(raw.length).toBe(100 * 801);
+  });
+
+  it('rejects data of the wrong size', () => {
+    expect(() => encodePng({ width: 2, height: 2, data: new Uint8Array(12) })).toThrow(/PNG: expected 16 bytes/);
+    expect(() => encodePpm({ width: 0, height: 2, data: new Uint8Array(0) })).toThrow(/PPM: width and height/);
+  });
+});
+
+describe('encodePpm', () => {
+  it('writes a binary PPM without alpha', () => {
+    const ppm = encodePpm(createImage());
+    const header = 'P6\n3 2\n255\n';
+
+    expect(new TextDecoder().decode(ppm.subarray(0, header.length))).toBe(header);
+    expect([...ppm.subarray(header.length)]).toEqual([
+      255, 0, 0, 0, 255, 0, 0, 0, 255,
+      255, 255, 255, 0, 0, 0, 128, 128, 128
+    ]);
+  });
+});
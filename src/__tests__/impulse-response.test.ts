@@ -0,0 +1,181 @@
+/**
+ * Unit tests for impulse response synthesis
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D, convertToDetailedPath3D } from '../solver/solver3d';
+import { MaterialDatabase } from '../acoustics/materials';
+import {
+  computePathArrivals,
+  arrivalAmplitude,
+  addFractionalImpulse,
+  renderImpulseResponse,
+  renderMultichannelImpulseResponse,
+  renderEchogram,
+  buildImpulseResponse,
+  PathArrival
+} from '../acoustics/impulse-response';
+
+function arrival(time: number, amplitude: number): PathArrival {
+  return { time, distance: time * 343, reflectionOrder: 0, amplitudes: [amplitude, amplitude, amplitude, amplitude, amplitude, amplitude] };
+}
+
+describe('computePathArrivals', () => {
+  it('applies 1/r spreading and arrival time', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const path = convertToDetailedPath3D([
+      { position: [1, 1, 1] as Vector3, polygonId: null },
+      { position: [4.43, 1, 1] as Vector3, polygonId: null }
+    ], room);
+
+    const [a] = computePathArrivals([path]);
+    expect(a.distance).toBeCloseTo(3.43, 10);
+    expect(a.time).toBeCloseTo(0.01, 10);
+    expect(a.amplitudes[0]).toBeCloseTo(1 / 3.43, 10);
+  });
+
+  it('respects speed of sound and reference distance', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const path = convertToDetailedPath3D([
+      { position: [1, 1, 1] as Vector3, polygonId: null },
+      { position: [3, 1, 1] as Vector3, polygonId: null }
+    ], room);
+
+    const [a] = computePathArrivals([path], { speedOfSound: 340, referenceDistance: 2 });
+    expect(a.time).toBeCloseTo(2 / 340, 10);
+    expect(a.amplitudes[3]).toBeCloseTo(1, 10);
+  });
+
+  it('applies material losses per band', () => {
+    const room = createShoeboxRoom(10, 8, 3, 2, 1, 1);
+    const materials = new MaterialDatabase().registerPreset(1, 'concrete').registerPreset(2, 'carpet');
+    const solver = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 1, materials });
+    const paths = solver.getDetailedPaths([3, 3, 1.2]);
+
+    const floor = paths.find(p => p.reflectionCount === 1 && p.reflections[0].polygonId === 0)!;
+    const [a] = computePathArrivals([floor]);
+
+    // Carpet absorbs much more at 4 kHz than at 125 Hz
+    expect(a.amplitudes[5]).toBeLessThan(a.amplitudes[0]);
+    const expected = (1 / floor.totalPathLength) * Math.pow(10, -floor.reflectionLossDb![5] / 20);
+    expect(a.amplitudes[5]).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('arrival directions', () => {
+  it('copies the listener-local direction of 3D paths', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const path = convertToDetailedPath3D([
+      { position: [1, 1, 1] as Vector3, polygonId: null },
+      { position: [1, 4, 1] as Vector3, polygonId: null }
+    ], room);
+
+    const [a] = computePathArrivals([path]);
+    expect(a.direction!.azimuth).toBeCloseTo(Math.PI / 2, 10);
+    expect(a.direction!.elevation).toBeCloseTo(0, 10);
+  });
+});
+
+describe('arrivalAmplitude', () => {
+  it('returns the band amplitude or RMS over bands', () => {
+    const a: PathArrival = { time: 0, distance: 0, reflectionOrder: 0, amplitudes: [1, 1, 1, 0, 0, 0] };
+    expect(arrivalAmplitude(a, 0)).toBe(1);
+    expect(arrivalAmplitude(a)).toBeCloseTo(Math.sqrt(0.5), 10);
+  });
+});
+
+describe('addFractionalImpulse', () => {
+  it('places integer positions exactly with sinc interpolation', () => {
+    const buffer = new Float32Array(32);
+    addFractionalImpulse(buffer, 10, 0.5);
+    expect(buffer[10]).toBeCloseTo(0.5, 6);
+    expect(buffer[9]).toBeCloseTo(0, 6);
+    expect(buffer[11]).toBeCloseTo(0, 6);
+  });
+
+  it('splits fractional positions linearly', () => {
+    const buffer = new Float32Array(8);
+    addFractionalImpulse(buffer, 2.25, 1, 'linear');
+    expect(buffer[2]).toBeCloseTo(0.75, 6);
+    expect(buffer[3]).toBeCloseTo(0.25, 6);
+  });
+
+  it('spreads fractional sinc impulses symmetrically around the midpoint', () => {
+    const buffer = new Float32Array(32);
+    addFractionalImpulse(buffer, 10.5, 1);
+    expect(buffer[10]).toBeCloseTo(buffer[11], 6);
+    expect(buffer[10]).toBeGreaterThan(0.5);
+  });
+
+  it('rounds with nearest interpolation and ignores out-of-range positions', () => {
+    const buffer = new Float32Array(4);
+    addFractionalImpulse(buffer, 1.6, 1, 'nearest');
+    addFractionalImpulse(buffer, 100, 1, 'nearest');
+    expect(Array.from(buffer)).toEqual([0, 0, 1, 0]);
+  });
+});
+
+describe('renderImpulseResponse', () => {
+  it('places each arrival at its delay', () => {
+    const ir = renderImpulseResponse([arrival(0.01, 0.5), arrival(0.02, 0.25)], { sampleRate: 1000 });
+    expect(ir[10]).toBeCloseTo(0.5, 6);
+    expect(ir[20]).toBeCloseTo(0.25, 6);
+    expect(ir.length).toBeGreaterThan(20);
+  });
+
+  it('honours an explicit duration', () => {
+    const ir = renderImpulseResponse([arrival(0.01, 1)], { sampleRate: 1000, duration: 0.5 });
+    expect(ir.length).toBe(500);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => renderImpulseResponse([], { sampleRate: 0 })).toThrow();
+    expect(() => renderImpulseResponse([], { sampleRate: 1000, band: 6 })).toThrow();
+    expect(() => renderImpulseResponse([], { sampleRate: 1000, sincHalfWidth: 0 })).toThrow(/sincHalfWidth must be a positive integer/);
+    expect(() => renderImpulseResponse([], { sampleRate: 1000, sincHalfWidth: 2.5 })).toThrow(/sincHalfWidth/);
+  });
+});
+
+describe('renderMultichannelImpulseResponse', () => {
+  it('scales each channel by its gain', () => {
+    const [left, right] = renderMultichannelImpulseResponse(
+      [arrival(0.01, 1)], 2, () => [0.25, -0.5], { sampleRate: 1000 }
+    );
+    expect(left[10]).toBeCloseTo(0.25, 6);
+    expect(right[10]).toBeCloseTo(-0.5, 6);
+    expect(left.length).toBe(right.length);
+  });
+});
+
+describe('renderEchogram', () => {
+  it('accumulates arrival energy per bin', () => {
+    const echogram = renderEchogram([arrival(0.0101, 0.5), arrival(0.0104, 0.5), arrival(0.02, 0.1)], { sampleRate: 1000 });
+    expect(echogram[10]).toBeCloseTo(0.5, 6);
+    expect(echogram[20]).toBeCloseTo(0.01, 6);
+    expect(echogram.length).toBe(21);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => renderEchogram([], { sampleRate: -1 })).toThrow(/Echogram/);
+  });
+});
+
+describe('buildImpulseResponse', () => {
+  it('produces a non-silent response from solver paths', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const solver = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 2 });
+    const paths = solver.getDetailedPaths([3, 3, 1.2]);
+
+    const ir = buildImpulseResponse(paths, { sampleRate: 48000 });
+    const direct = Math.min(...paths.map(p => p.totalPathLength));
+    const directIndex = Math.round(direct / 343 * 48000);
+
+    // Nothing before the direct sound (beyond the sinc pre-ringing)
+    for (let i = 0; i < directIndex - 8; i++) {
+      expect(ir[i]).toBe(0);
+    }
+    expect(Math.max(...Array.from(ir).map(Math.abs))).toBeGreaterThan(0);
+  });
+});
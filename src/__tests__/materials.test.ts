@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the acoustic material database
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D, convertToDetailedPath3D } from '../solver/solver3d';
+import { NUM_OCTAVE_BANDS } from '../acoustics/bands';
+import {
+  MaterialDatabase,
+  MATERIAL_PRESETS,
+  createMaterial,
+  reflectionLossDb,
+  isTransmissive
+} from '../acoustics/materials';
+
+describe('createMaterial', () => {
+  it('creates a material with default zero scattering', () => {
+    const mat = createMaterial('test', [0.1, 0.2, 0.3, 0.4, 0.5, 0.6]);
+    expect(mat.name).toBe('test');
+    expect(mat.scattering).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it('rejects wrong band count', () => {
+    expect(() => createMaterial('bad', [0.1, 0.2])).toThrow(/6 values/);
+  });
+
+  it('rejects coefficients outside [0, 1]', () => {
+    expect(() => createMaterial('bad', [0.1, 0.2, 1.5, 0.4, 0.5, 0.6])).toThrow(/\[0, 1\]/);
+  });
+
+  it('is opaque unless given a transmission loss', () => {
+    const zeros = [0, 0, 0, 0, 0, 0];
+    expect(isTransmissive(createMaterial('wall', zeros))).toBe(false);
+    expect(isTransmissive(createMaterial('door', zeros, zeros, [10, 12, 14, 16, 18, 20]))).toBe(true);
+  });
+
+  it('rejects negative transmission loss', () => {
+    const zeros = [0, 0, 0, 0, 0, 0];
+    expect(() => createMaterial('bad', zeros, zeros, [10, -1, 14, 16, 18, 20])).toThrow(/transmissionLoss/);
+  });
+});
+
+describe('MATERIAL_PRESETS', () => {
+  it('every preset has one value per band', () => {
+    for (const preset of Object.values(MATERIAL_PRESETS)) {
+      expect(preset.absorption.length).toBe(NUM_OCTAVE_BANDS);
+      expect(preset.scattering.length).toBe(NUM_OCTAVE_BANDS);
+    }
+  });
+
+  it('carpet absorbs more at high frequencies than concrete', () => {
+    expect(MATERIAL_PRESETS.carpet.absorption[5]).toBeGreaterThan(MATERIAL_PRESETS.concrete.absorption[5]);
+  });
+});
+
+describe('MaterialDatabase', () => {
+  it('registers and resolves presets', () => {
+    const db = new MaterialDatabase().registerPreset(1, 'glass');
+    expect(db.has(1)).toBe(true);
+    expect(db.resolve(1).name).toBe('glass');
+    expect(db.size).toBe(1);
+  });
+
+  it('keeps the transmission loss of registered materials', () => {
+    const db = new MaterialDatabase().registerPreset(1, 'door');
+    expect(db.resolve(1).transmissionLoss).toEqual(MATERIAL_PRESETS.door.transmissionLoss);
+  });
+
+  it('falls back to the default material', () => {
+    const db = new MaterialDatabase(MATERIAL_PRESETS.concrete);
+    expect(db.resolve(undefined).name).toBe('concrete');
+    expect(db.resolve(42).name).toBe('concrete');
+  });
+
+  it('throws on unknown preset names', () => {
+    expect(() => new MaterialDatabase().registerPreset(1, 'unobtainium')).toThrow(/unknown preset/);
+  });
+
+  it('throws on non-integer ids', () => {
+    expect(() => new MaterialDatabase().register(1.5, MATERIAL_PRESETS.wood)).toThrow();
+  });
+
+  it('lists ids in ascending order and supports removal', () => {
+    const db = new MaterialDatabase()
+      .registerPreset(3, 'wood')
+      .registerPreset(1, 'brick');
+    expect(db.ids()).toEqual([1, 3]);
+    expect(db.remove(3)).toBe(true);
+    expect(db.ids()).toEqual([1]);
+  });
+});
+
+describe('reflectionLossDb', () => {
+  it('is zero for a rigid surface', () => {
+    expect(reflectionLossDb(MATERIAL_PRESETS.rigid)).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it('is 3 dB for half absorption', () => {
+    const mat = createMaterial('half', [0.5, 0.5, 0.5, 0.5, 0.5, 0.5]);
+    for (const loss of reflectionLossDb(mat)) {
+      expect(loss).toBeCloseTo(3.0103, 3);
+    }
+  });
+});
+
+describe('Solver integration', () => {
+  const source: Vector3 = [5, 4, 1.5];
+  const listener: Vector3 = [3, 3, 1.2];
+
+  it('omits reflection losses without a material database', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 1 });
+
+    for (const path of solver.getDetailedPaths(listener)) {
+      expect(path.reflectionLossDb).toBeUndefined();
+    }
+  });
+
+  it('reports cumulative per-band reflection loss', () => {
+    // floor = carpet (2), ceiling and walls = concrete (1)
+    const room = createShoeboxRoom(10, 8, 3, 2, 1, 1);
+    const materials = new MaterialDatabase()
+      .registerPreset(1, 'concrete')
+      .registerPreset(2, 'carpet');
+    const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 2, materials });
+
+    const paths = solver.getDetailedPaths(listener);
+    const direct = paths.find(p => p.reflectionCount === 0)!;
+    expect(direct.reflectionLossDb).toEqual([0, 0, 0, 0, 0, 0]);
+
+    for (const path of paths) {
+      expect(path.reflectionLossDb!.length).toBe(NUM_OCTAVE_BANDS);
+
+      // Total loss is the sum of the per-reflection losses
+      for (let band = 0; band < NUM_OCTAVE_BANDS; band++) {
+        const sum = path.reflections.reduce((acc, r) => acc + r.reflectionLossDb![band], 0);
+        expect(path.reflectionLossDb![band]).toBeCloseTo(sum, 10);
+      }
+    }
+
+    // Floor bounce (polygon 0) should carry the carpet loss
+    const floorPath = paths.find(p => p.reflectionCount === 1 && p.reflections[0].polygonId === 0)!;
+    expect(floorPath.reflections[0].material!.name).toBe('carpet');
+    expect(floorPath.reflectionLossDb).toEqual(reflectionLossDb(MATERIAL_PRESETS.carpet));
+  });
+
+  it('convertToDetailedPath3D accepts a material database', () => {
+    const room = createShoeboxRoom(10, 8, 3, 2, 1, 1);
+    const materials = new MaterialDatabase().registerPreset(1, 'glass');
+    const path = [
+      { position: [1, 1, 1] as Vector3, polygonId: null },
+      { position: [1, 0, 1] as Vector3, polygonId: 2 },
+      { position: [5, 4, 1.5] as Vector3, polygonId: null }
+    ];
+
+    const detailed = convertToDetailedPath3D(path, room, { materials });
+    expect(detailed.reflections[0].material!.name).toBe('glass');
+  });
+});
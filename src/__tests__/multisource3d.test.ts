@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the multi-source solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Orientation3D } from '../core/orientation3d';
+import { Source3D, Listener3D } from '../core/source-listener3d';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D, createSolverGeometry3D } from '../solver/solver3d';
+import { MultiSourceSolver3D } from '../solver/multisource3d';
+import { MaterialDatabase } from '../acoustics/materials';
+import { pathLengths } from './fixtures';
+
+const LISTENER: Vector3 = [7, 5, 1.2];
+
+describe('MultiSourceSolver3D', () => {
+  const room = createShoeboxRoom(10, 8, 3);
+  const sources = [new Source3D([2, 2, 1.5]), new Source3D([8, 2, 1.5]), new Source3D([5, 6, 2])];
+
+  it('finds the same paths as one solver per source', () => {
+    const solver = new MultiSourceSolver3D(room, sources, { maxReflectionOrder: 2 });
+    const paths = solver.getPaths(LISTENER);
+
+    sources.forEach((source, sourceId) => {
+      const single = new OptimizedSolver3D(room, source.position, { maxReflectionOrder: 2 }).getPaths(LISTENER);
+      const tagged = paths.filter(p => p.sourceId === sourceId).map(p => p.path);
+      expect(pathLengths(tagged)).toEqual(pathLengths(single));
+    });
+    expect(paths.map(p => p.sourceId)).toEqual([...paths.map(p => p.sourceId)].sort());
+  });
+
+  it('tags detailed paths and applies each source\'s directivity', () => {
+    const directional = new Source3D([8, 2, 1.5], {
+      directivity: { type: 'cardioid' },
+      orientation: Orientation3D.fromDegrees(180)
+    });
+    const solver = new MultiSourceSolver3D(room, [sources[0], directional], { maxReflectionOrder: 1 });
+    const paths = solver.getDetailedPaths(new Listener3D(LISTENER));
+
+    const first = paths.filter(p => p.sourceId === 0);
+    const second = paths.filter(p => p.sourceId === 1);
+    expect(first[0].sourcePosition).toEqual([2, 2, 1.5]);
+    expect(first.every(p => p.sourceDirectivityGain === undefined)).toBe(true);
+    expect(second[0].sourcePosition).toEqual([8, 2, 1.5]);
+    expect(second.every(p => p.sourceDirectivityGain !== undefined)).toBe(true);
+  });
+
+  it('adds, moves and removes sources', () => {
+    const solver = new MultiSourceSolver3D(room, [sources[0]], { maxReflectionOrder: 2 });
+    expect(solver.addSource(sources[1])).toBe(1);
+
+    solver.setSourcePosition(1, [5, 6, 2]);
+    expect(solver.sources[1].position).toEqual([5, 6, 2]);
+    const moved = solver.getPaths(LISTENER).filter(p => p.sourceId === 1).map(p => p.path);
+    const fresh = new OptimizedSolver3D(room, [5, 6, 2], { maxReflectionOrder: 2 }).getPaths(LISTENER);
+    expect(pathLengths(moved)).toEqual(pathLengths(fresh));
+
+    solver.removeSource(0);
+    expect(solver.sources.length).toBe(1);
+    expect(solver.getPaths(LISTENER).every(p => p.sourceId === 0)).toBe(true);
+    expect(() => solver.getMetrics(1)).toThrow(/no source with id 1/);
+  });
+});
+
+describe('createSolverGeometry3D', () => {
+  it('is shared by solvers and cannot be edited through them', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const geometry = createSolverGeometry3D(room);
+    const solver = new OptimizedSolver3D(room, [2, 2, 1.5], { maxReflectionOrder: 2, geometry });
+
+    expect(solver.getPaths(LISTENER).length)
+      .toBe(new OptimizedSolver3D(room, [2, 2, 1.5], { maxReflectionOrder: 2 }).getPaths(LISTENER).length);
+    expect(() => solver.removePolygon(0)).toThrow(/shared geometry cannot be edited/);
+    expect(() => new OptimizedSolver3D(room.slice(1), [2, 2, 1.5], { geometry }))
+      .toThrow(/built for different polygons/);
+  });
+
+  it('must match the solver\'s diffraction and transmission settings', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const geometry = createSolverGeometry3D(room, { diffractionOrder: 1 });
+
+    expect(() => new OptimizedSolver3D(room, [2, 2, 1.5], { diffractionOrder: 1, geometry })).not.toThrow();
+    expect(() => new OptimizedSolver3D(room, [2, 2, 1.5], { geometry }))
+      .toThrow(/built with different diffractionOrder or transmission settings/);
+    expect(() => new OptimizedSolver3D(room, [2, 2, 1.5], {
+      diffractionOrder: 1,
+      transmission: true,
+      materials: new MaterialDatabase(),
+      geometry
+    })).toThrow(/built with different diffractionOrder or transmission settings/);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for Wavefront OBJ import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Polygon3D } from '../geometry/polygon3d';
+import { isConvexLoop } from '../geometry/polygon-merge';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { parseObj } from '../io/obj-loader';
+
+/** 10 x 8 x 3 room, two triangles per face, faces pointing inward */
+const ROOM_OBJ = `
+# shoebox
+v 0 0 0
+v 10 0 0
+v 10 8 0
+v 0 8 0
+v 0 0 3
+v 10 0 3
+v 10 8 3
+v 0 8 3
+g floor
+usemtl Carpet
+f 1 2 3
+f 1 3 4
+g ceiling
+usemtl Plaster
+f 5 7 6
+f 5 8 7
+g walls
+f 1 5 6
+f 1 6 2
+f 2 6 7
+f 2 7 3
+f 3 7 8
+f 3 8 4
+f 4 8 5
+f 4 5 1
+`;
+
+function totalArea(polygons: Polygon3D[]): number {
+  return polygons.reduce((sum, p) => sum + Polygon3D.area(p), 0);
+}
+
+describe('parseObj', () => {
+  it('merges triangulated faces into one polygon per surface', () => {
+    const { polygons, skippedFaces } = parseObj(ROOM_OBJ);
+
+    expect(polygons.length).toBe(6);
+    expect(skippedFaces).toBe(0);
+    for (const polygon of polygons) {
+      expect(polygon.vertices.length).toBe(4);
+    }
+    expect(totalArea(polygons)).toBeCloseTo(2 * (80 + 30 + 24), 10);
+  });
+
+  it('reports groups and assigns material ids', () => {
+    const { polygons, groups, materialIds } = parseObj(ROOM_OBJ, { materialIds: { Plaster: 7 } });
+
+    expect(groups).toEqual(['floor', 'ceiling', 'walls', 'walls', 'walls', 'walls']);
+    expect(materialIds).toEqual({ Carpet: 8, Plaster: 7 });
+    expect(polygons[0].materialId).toBe(8);
+
+    // usemtl stays in effect across groups
+    expect(polygons.slice(1).every(p => p.materialId === 7)).toBe(true);
+  });
+
+  it('keeps triangles separate without merging', () => {
+    expect(parseObj(ROOM_OBJ, { mergeCoplanar: false }).polygons.length).toBe(12);
+  });
+
+  it('faces the polygons the way the file does', () => {
+    const floor = parseObj(ROOM_OBJ).polygons[0];
+    expect(Polygon3D.normal(floor)[2]).toBeCloseTo(1, 10);
+
+    const flipped = parseObj(ROOM_OBJ, { flipNormals: true }).polygons[0];
+    expect(Polygon3D.normal(flipped)[2]).toBeCloseTo(-1, 10);
+  });
+
+  it('converts Y-up files and scales coordinates', () => {
+    const obj = 'v 0 0 0\nv 1 0 0\nv 1 2 0\nf 1 2 3\n';
+    const [polygon] = parseObj(obj, { yUp: true, scale: 0.5 }).polygons;
+
+    // Y (up) becomes Z; Z becomes -Y
+    expect(polygon.vertices[2].map(c => c + 0)).toEqual([0.5, 0, 1]);
+  });
+
+  it('accepts texture/normal references and negative indices', () => {
+    const obj = 'v 0 0 0\nv 1 0 0\nv 1 1 0\nv 0 1 0\nvt 0 0\nvn 0 0 1\nf 1/1/1 2/1/1 -2//1 -1//1\n';
+    const { polygons } = parseObj(obj);
+
+    expect(polygons.length).toBe(1);
+    expect(Polygon3D.area(polygons[0])).toBeCloseTo(1, 10);
+  });
+
+  it('splits concave faces into convex polygons', () => {
+    // L-shaped hexagon of area 3
+    const obj = 'v 0 0 0\nv 2 0 0\nv 2 1 0\nv 1 1 0\nv 1 2 0\nv 0 2 0\nf 1 2 3 4 5 6\n';
+    const { polygons } = parseObj(obj);
+
+    expect(polygons.length).toBe(2);
+    expect(totalArea(polygons)).toBeCloseTo(3, 10);
+    for (const polygon of polygons) {
+      expect(isConvexLoop(polygon.vertices)).toBe(true);
+    }
+  });
+
+  it('welds coincident vertices before merging', () => {
+    const obj = 'v 0 0 0\nv 1 0 0\nv 1 1 0\nv 0 0 0\nv 1 1.0000000001 0\nv 0 1 0\nf 1 2 3\nf 4 5 6\n';
+    expect(parseObj(obj).polygons.length).toBe(1);
+  });
+
+  it('skips degenerate faces', () => {
+    const obj = 'v 0 0 0\nv 1 0 0\nv 2 0 0\nv 0 1 0\nf 1 2 3\nf 1 2 4\n';
+    const result = parseObj(obj);
+
+    expect(result.polygons.length).toBe(1);
+    expect(result.skippedFaces).toBe(1);
+  });
+
+  it('rejects references to undefined vertices', () => {
+    expect(() => parseObj('v 0 0 0\nv 1 0 0\nf 1 2 3\n')).toThrow(/line 3: vertex 3 is out of range/);
+    expect(() => parseObj('v 0 0\n')).toThrow(/line 1/);
+  });
+
+  it('produces rooms the solver can trace', () => {
+    const { polygons } = parseObj(ROOM_OBJ);
+    const source: Vector3 = [5, 4, 1.5];
+    const solver = new OptimizedSolver3D(polygons, source, { maxReflectionOrder: 1 });
+
+    // Direct path plus one reflection off each surface
+    expect(solver.getPaths([3, 3, 1.2]).length).toBe(7);
+  });
+});
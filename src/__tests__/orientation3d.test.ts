@@ -0,0 +1,69 @@
+/**
+ * Unit tests for Orientation3D
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Orientation3D, directionToSpherical, sphericalToDirection } from '../core/orientation3d';
+
+function expectVec(actual: Vector3, expected: Vector3): void {
+  for (let i = 0; i < 3; i++) {
+    expect(actual[i]).toBeCloseTo(expected[i], 10);
+  }
+}
+
+describe('Orientation3D', () => {
+  it('faces +X with +Y left and +Z up by default', () => {
+    const [f, l, u] = Orientation3D.axes(Orientation3D.create());
+    expectVec(f, [1, 0, 0]);
+    expectVec(l, [0, 1, 0]);
+    expectVec(u, [0, 0, 1]);
+  });
+
+  it('yaw turns counter-clockwise seen from above', () => {
+    expectVec(Orientation3D.forward(Orientation3D.fromDegrees(90)), [0, 1, 0]);
+  });
+
+  it('pitch tilts the forward axis up', () => {
+    expectVec(Orientation3D.forward(Orientation3D.fromDegrees(0, 90)), [0, 0, 1]);
+  });
+
+  it('roll lifts the left side', () => {
+    const [, left] = Orientation3D.axes(Orientation3D.fromDegrees(0, 0, 90));
+    expectVec(left, [0, 0, 1]);
+  });
+
+  it('produces orthonormal axes for any orientation', () => {
+    const [f, l, u] = Orientation3D.axes(Orientation3D.create(0.3, -0.7, 1.9));
+    expect(Vector3.length(f)).toBeCloseTo(1, 10);
+    expect(Vector3.dot(f, l)).toBeCloseTo(0, 10);
+    expectVec(Vector3.cross(f, l), u);
+  });
+
+  it('toLocal and toWorld are inverses', () => {
+    const o = Orientation3D.create(1.1, 0.4, -0.6);
+    const v: Vector3 = [0.3, -2, 1.5];
+    expectVec(Orientation3D.toWorld(o, Orientation3D.toLocal(o, v)), v);
+  });
+
+  it('lookAlong points the forward axis at a direction', () => {
+    const dir = Vector3.normalize([1, 1, 1]);
+    expectVec(Orientation3D.forward(Orientation3D.lookAlong(dir)), dir);
+  });
+
+  it('localDirection reports azimuth toward the left and elevation upward', () => {
+    const o = Orientation3D.fromDegrees(90);
+    const d = Orientation3D.localDirection(o, [-1, 0, 1]);
+    expect(d.azimuth).toBeCloseTo(Math.PI / 2, 10);
+    expect(d.elevation).toBeCloseTo(Math.PI / 4, 10);
+  });
+});
+
+describe('spherical conversions', () => {
+  it('round-trips directions', () => {
+    const v = sphericalToDirection(-2.5, 0.6);
+    const d = directionToSpherical(v);
+    expect(d.azimuth).toBeCloseTo(-2.5, 10);
+    expect(d.elevation).toBeCloseTo(0.6, 10);
+  });
+});
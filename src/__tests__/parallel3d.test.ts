@@ -0,0 +1,168 @@
+/**
+ * Unit tests for beam tree serialization and the worker-thread solver
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import * as esbuild from 'esbuild';
+import { Vector3 } from '../core/vector3';
+import { Listener3D } from '../core/source-listener3d';
+import { Orientation3D } from '../core/orientation3d';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { MaterialDatabase } from '../acoustics/materials';
+import {
+  buildBeamTree3D,
+  computeReflectionCandidates,
+  countBeamNodes,
+  deserializeBeamTree3D,
+  iterateNodes,
+  serializeBeamTree3D
+} from '../structures/beamtree3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { listenerGridPoints } from '../solver/grid3d';
+import { ParallelSolver3D } from '../solver/parallel3d';
+import { pathLengths } from './fixtures';
+
+const SOURCE: Vector3 = [5, 4, 1.5];
+
+// Off the lattice of the source, so no listener lies on a beam boundary
+const LISTENERS = listenerGridPoints({ origin: [0.37, 0.41, 1.2], columns: 6, rows: 5, spacing: 1.5 });
+
+describe('serializeBeamTree3D', () => {
+  const room = createShoeboxRoom(10, 8, 3);
+  const tree = buildBeamTree3D(SOURCE, room, 3, computeReflectionCandidates(room));
+
+  it('round-trips every node', () => {
+    const data = serializeBeamTree3D(tree);
+    expect(data.polygonIds.length).toBe(countBeamNodes(tree));
+    expect(data.parents[0]).toBe(-1);
+
+    const restored = deserializeBeamTree3D(data, room);
+    const original = [...iterateNodes(tree)];
+    const copy = [...iterateNodes(restored)];
+
+    expect(copy.length).toBe(original.length);
+    expect(restored.leafNodes.length).toBe(tree.leafNodes.length);
+    copy.forEach((node, i) => {
+      expect(node.id).toBe(original[i].id);
+      expect(node.virtualSource).toEqual(original[i].virtualSource);
+      expect(node.aperture?.vertices).toEqual(original[i].aperture?.vertices);
+      expect(node.aperture?.plane).toEqual(original[i].aperture?.plane);
+      expect(node.boundaryPlanes).toEqual(original[i].boundaryPlanes);
+      expect(node.parent ? original.indexOf(original[i].parent!) : -1).toBe(node.parent ? copy.indexOf(node.parent) : -1);
+    });
+  });
+
+  it('rejects trees for rooms with fewer polygons', () => {
+    expect(() => deserializeBeamTree3D(serializeBeamTree3D(tree), room.slice(0, 3)))
+      .toThrow(/reflects off polygon/);
+  });
+
+  it('gives a solver the same paths as building the tree itself', () => {
+    const beamTree = deserializeBeamTree3D(serializeBeamTree3D(tree), room);
+    const restored = new OptimizedSolver3D(room, SOURCE, { beamTree });
+    const fresh = new OptimizedSolver3D(room, SOURCE, { maxReflectionOrder: 3 });
+
+    expect(restored.getMaxReflectionOrder()).toBe(3);
+    for (const listener of LISTENERS) {
+      expect(pathLengths(restored.getPaths(listener))).toEqual(pathLengths(fresh.getPaths(listener)));
+    }
+    expect(() => new OptimizedSolver3D(room, [1, 1, 1], { beamTree }))
+      .toThrow(/different room, source or reflection order/);
+  });
+});
+
+describe('ParallelSolver3D', () => {
+  const room = createShoeboxRoom(10, 8, 3, 1, 2, 1);
+  const materials = new MaterialDatabase().registerPreset(1, 'concrete').registerPreset(2, 'carpet');
+  const config = { maxReflectionOrder: 2, materials };
+
+  it('returns the paths of each listener in input order', async () => {
+    const solver = new ParallelSolver3D(room, SOURCE, config, { workers: 0, batchSize: 4 });
+    const serial = new OptimizedSolver3D(room, SOURCE, config);
+    const paths = await solver.getPaths(LISTENERS);
+
+    expect(solver.workerCount).toBe(0);
+    expect(solver.getLeafNodeCount()).toBe(serial.getLeafNodeCount());
+    expect(paths.length).toBe(LISTENERS.length);
+    LISTENERS.forEach((listener, i) => {
+      expect(pathLengths(paths[i])).toEqual(pathLengths(serial.getPaths(listener)));
+    });
+  });
+
+  it('applies materials and listener orientations to detailed paths', async () => {
+    const solver = new ParallelSolver3D(room, SOURCE, config, { workers: 0 });
+    const serial = new OptimizedSolver3D(room, SOURCE, config);
+    const orientation = Orientation3D.fromDegrees(90);
+    const [paths] = await solver.getDetailedPaths([new Listener3D(LISTENERS[3], orientation)]);
+    const expected = serial.getDetailedPaths(LISTENERS[3], orientation);
+
+    const byLength = (a: { totalPathLength: number }, b: { totalPathLength: number }) => a.totalPathLength - b.totalPathLength;
+    paths.sort(byLength);
+    expected.sort(byLength);
+    expect(paths.some(p => p.reflectionLossDb!.some(db => db > 0))).toBe(true);
+    expect(paths.map(p => p.reflectionLossDb)).toEqual(expected.map(p => p.reflectionLossDb));
+    expect(paths.map(p => p.arrivalDirection)).toEqual(expected.map(p => p.arrivalDirection));
+  });
+
+  it('validates the pool options', () => {
+    expect(() => new ParallelSolver3D(room, SOURCE, config, { workers: -1 })).toThrow(/workers must be/);
+    expect(() => new ParallelSolver3D(room, SOURCE, config, { workers: 0, batchSize: 0 })).toThrow(/batchSize must be/);
+  });
+
+  it('validates the solver settings before starting workers', () => {
+    expect(() => new ParallelSolver3D(room, SOURCE, { diffractionOrder: 3 }, { workers: 1 })).toThrow(/diffractionOrder must be/);
+    expect(() => new ParallelSolver3D(room, SOURCE, { transmission: true }, { workers: 1 })).toThrow(/requires a material database/);
+  });
+
+  it('rejects calls after terminate', async () => {
+    const solver = new ParallelSolver3D(room, SOURCE, config, { workers: 0 });
+    await solver.terminate();
+    await expect(solver.getPaths(LISTENERS)).rejects.toThrow(/terminated/);
+  });
+
+  describe('with worker threads', () => {
+    // Workers run plain JavaScript, so bundle the worker script as build.mjs does
+    let outdir: string;
+    let workerUrl: URL;
+
+    beforeAll(async () => {
+      outdir = mkdtempSync(join(tmpdir(), 'beam-trace-worker-'));
+      const outfile = join(outdir, 'parallel3d-worker.mjs');
+      await esbuild.build({
+        entryPoints: [fileURLToPath(new URL('../solver/parallel3d-worker.ts', import.meta.url))],
+        bundle: true,
+        outfile,
+        format: 'esm',
+        platform: 'node',
+        logLevel: 'silent'
+      });
+      workerUrl = pathToFileURL(outfile);
+    });
+
+    afterAll(() => {
+      rmSync(outdir, { recursive: true, force: true });
+    });
+
+    it('returns the serial solver\'s paths from worker threads', async () => {
+      const solver = new ParallelSolver3D(room, SOURCE, config, { workers: 2, batchSize: 4, workerUrl });
+      const serial = new OptimizedSolver3D(room, SOURCE, config);
+      try {
+        const paths = await solver.getPaths(LISTENERS);
+        const [detailed] = await solver.getDetailedPaths([LISTENERS[3]]);
+
+        expect(solver.workerCount).toBe(2);
+        LISTENERS.forEach((listener, i) => {
+          expect(pathLengths(paths[i])).toEqual(pathLengths(serial.getPaths(listener)));
+        });
+        expect(detailed.map(p => p.totalPathLength).sort((a, b) => a - b))
+          .toEqual(serial.getDetailedPaths(LISTENERS[3]).map(p => p.totalPathLength).sort((a, b) => a - b));
+      } finally {
+        await solver.terminate();
+      }
+    });
+  });
+});
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import { Vector3 } from '../core/vector3';
 import { Plane3D } from '../core/plane3d';
+import { Orientation3D } from '../core/orientation3d';
 import { Polygon3D, createShoeboxRoom, createQuad } from '../geometry/polygon3d';
 
 describe('Polygon3D', () => {
@@ -31,6 +32,75 @@ describe('Polygon3D', () => {
       const poly = Polygon3D.create(verts, 42);
       expect(poly.materialId).toBe(42);
     });
+
+    it('fits the plane when the first vertices are collinear', () => {
+      const poly = Polygon3D.create([[0, 0, 0], [1, 0, 0], [2, 0, 0], [2, 1, 0], [0, 1, 0]]);
+      expect(Polygon3D.normal(poly)).toEqual([0, 0, 1]);
+      expect(poly.plane.d).toBeCloseTo(0, 10);
+    });
+
+    it('fits a best-fit plane to a warped quad', () => {
+      const poly = Polygon3D.create([[0, 0, 0], [1, 0, 0.01], [1, 1, 0], [0, 1, 0.01]]);
+      const distances = poly.vertices.map(v => Math.abs(Plane3D.signedDistance(v, poly.plane)));
+
+      expect(Polygon3D.normal(poly)[2]).toBeGreaterThan(0.999);
+      for (const d of distances) {
+        expect(d).toBeCloseTo(distances[0], 10);
+      }
+    });
+  });
+
+  describe('createSurface', () => {
+    const lShape: Vector3[] = [[0, 0, 0], [2, 0, 0], [2, 1, 0], [1, 1, 0], [1, 2, 0], [0, 2, 0]];
+
+    it('keeps a convex surface in one piece', () => {
+      const pieces = Polygon3D.createSurface([[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0]], 3, 7);
+
+      expect(pieces.length).toBe(1);
+      expect(pieces[0].materialId).toBe(3);
+      expect(pieces[0].surfaceId).toBe(7);
+    });
+
+    it('decomposes a concave surface into convex pieces', () => {
+      const pieces = Polygon3D.createSurface(lShape, 3, 7);
+
+      expect(pieces.length).toBe(2);
+      expect(pieces.reduce((sum, p) => sum + Polygon3D.area(p), 0)).toBeCloseTo(3, 10);
+      for (const piece of pieces) {
+        expect(piece.surfaceId).toBe(7);
+        expect(piece.materialId).toBe(3);
+        expect(Polygon3D.normal(piece)).toEqual([0, 0, 1]);
+        for (const v of piece.vertices) {
+          expect(Polygon3D.containsPoint(piece, v)).toBe(true);
+        }
+      }
+    });
+
+    it('flattens slightly warped surfaces onto their plane', () => {
+      const pieces = Polygon3D.createSurface([[0, 0, 0], [1, 0, 0.0005], [1, 1, 0], [0, 1, 0.0005]]);
+
+      expect(pieces.length).toBe(1);
+      for (const v of pieces[0].vertices) {
+        expect(Plane3D.signedDistance(v, pieces[0].plane)).toBeCloseTo(0, 12);
+      }
+    });
+
+    it('triangulates strongly warped surfaces', () => {
+      const pieces = Polygon3D.createSurface([[0, 0, 0], [1, 0, 0], [1, 1, 0.5], [0, 1, 0]], undefined, 1);
+
+      expect(pieces.length).toBe(2);
+      for (const piece of pieces) {
+        expect(piece.vertices.length).toBe(3);
+        expect(piece.surfaceId).toBe(1);
+        for (const v of piece.vertices) {
+          expect(Plane3D.signedDistance(v, piece.plane)).toBeCloseTo(0, 12);
+        }
+      }
+    });
+
+    it('throws for collinear vertices', () => {
+      expect(() => Polygon3D.createSurface([[0, 0, 0], [1, 0, 0], [2, 0, 0]])).toThrow(/non-collinear/);
+    });
   });
 
   describe('centroid', () => {
@@ -264,6 +334,42 @@ describe('Polygon3D', () => {
       expect(n1[2]).toBeCloseTo(1, 10);
       expect(n2[2]).toBeCloseTo(-1, 10);
     });
+
+    it('keeps material and surface ids', () => {
+      const [piece] = Polygon3D.createSurface([[0, 0, 0], [1, 0, 0], [0, 1, 0]], 2, 5);
+      const flipped = Polygon3D.flip(piece);
+
+      expect(flipped.materialId).toBe(2);
+      expect(flipped.surfaceId).toBe(5);
+      expect(Polygon3D.clone(flipped).surfaceId).toBe(5);
+    });
+  });
+
+  describe('transform', () => {
+    it('rotates about the centroid, then translates', () => {
+      const [wall] = Polygon3D.createSurface([[0, 0, 0], [2, 0, 0], [2, 0, 2], [0, 0, 2]], 3, 4);
+      const moved = Polygon3D.transform(wall, {
+        rotation: Orientation3D.fromDegrees(90),
+        translation: [0, 5, 0]
+      });
+
+      const centroid = Polygon3D.centroid(moved);
+      expect(centroid[0]).toBeCloseTo(1, 10);
+      expect(centroid[1]).toBeCloseTo(5, 10);
+      expect(centroid[2]).toBeCloseTo(1, 10);
+      expect(Polygon3D.normal(moved)[0]).toBeCloseTo(1, 10);
+      expect(Polygon3D.area(moved)).toBeCloseTo(4, 10);
+      expect(moved.materialId).toBe(3);
+      expect(moved.surfaceId).toBe(4);
+    });
+
+    it('rotates about a given pivot', () => {
+      const wall = Polygon3D.create([[1, 0, 0], [1, 1, 0], [1, 1, 1], [1, 0, 1]]);
+      const moved = Polygon3D.transform(wall, { rotation: Orientation3D.fromDegrees(180), pivot: [0, 0, 0] });
+
+      expect(moved.vertices[0][0]).toBeCloseTo(-1, 10);
+      expect(moved.vertices[1][1]).toBeCloseTo(-1, 10);
+    });
   });
 });
 
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for room-acoustic parameters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { MaterialDatabase } from '../acoustics/materials';
+import { PathArrival, computePathArrivals } from '../acoustics/impulse-response';
+import { Solver, Source, Listener, Wall } from '../beamtrace2d';
+import {
+  schroederDecay,
+  decayTime,
+  computeRoomParameters
+} from '../acoustics/room-parameters';
+
+/** Decay constant for a 60 dB decay over 1 s */
+const K = Math.log(1e6);
+
+/** Dense exponentially decaying arrivals with T60 = 1 s, starting at 10 ms */
+function exponentialDecay(step = 5e-4, duration = 2): PathArrival[] {
+  const arrivals: PathArrival[] = [];
+  for (let t = 0; t < duration; t += step) {
+    const a = Math.sqrt(Math.exp(-K * t));
+    arrivals.push({ time: 0.01 + t, distance: 0, reflectionOrder: 0, amplitudes: [a, a, a, a, a, a] });
+  }
+  return arrivals;
+}
+
+describe('schroederDecay', () => {
+  it('integrates backwards and normalizes to 0 dB', () => {
+    const curve = schroederDecay([1, 0, 0.5, 0.5]);
+    expect(curve[0]).toBeCloseTo(0, 10);
+    expect(curve[1]).toBeCloseTo(-3.0103, 3);
+    expect(curve[3]).toBeCloseTo(10 * Math.log10(0.25), 10);
+  });
+
+  it('returns -Infinity once all energy has arrived', () => {
+    const curve = schroederDecay([1, 0]);
+    expect(curve[1]).toBe(-Infinity);
+  });
+});
+
+describe('decayTime', () => {
+  it('fits a straight decay exactly', () => {
+    // -60 dB/s sampled every 10 ms
+    const curve = Array.from({ length: 100 }, (_, i) => -60 * i * 0.01);
+    expect(decayTime(curve, 0.01, -5, -35)).toBeCloseTo(1, 10);
+  });
+
+  it('returns NaN when the range is not reached', () => {
+    const curve = [0, -5, -10, -15];
+    expect(decayTime(curve, 0.01, -5, -35)).toBeNaN();
+  });
+});
+
+describe('computeRoomParameters', () => {
+  it('recovers the reverberation time of an exponential decay', () => {
+    const { broadband, bands } = computeRoomParameters(exponentialDecay());
+
+    expect(broadband.t30).toBeCloseTo(1, 2);
+    expect(broadband.t20).toBeCloseTo(1, 2);
+    expect(broadband.edt).toBeCloseTo(1, 2);
+    expect(bands.length).toBe(6);
+    expect(bands[2].t30).toBeCloseTo(broadband.t30, 10);
+  });
+
+  it('matches analytic energy ratios and centre time', () => {
+    const { broadband } = computeRoomParameters(exponentialDecay(1e-5));
+
+    const c80 = 10 * Math.log10((1 - Math.exp(-K * 0.08)) / Math.exp(-K * 0.08));
+    const d50 = 1 - Math.exp(-K * 0.05);
+    expect(broadband.c80).toBeCloseTo(c80, 2);
+    expect(broadband.d50).toBeCloseTo(d50, 3);
+    expect(broadband.c50).toBeCloseTo(10 * Math.log10(d50 / (1 - d50)), 2);
+    expect(broadband.ts).toBeCloseTo(1 / K, 3);
+  });
+
+  it('returns NaN decay times when the decay range is not covered', () => {
+    const a = (time: number, amp: number): PathArrival =>
+      ({ time, distance: 0, reflectionOrder: 0, amplitudes: [amp, amp, amp, amp, amp, amp] });
+    const { broadband } = computeRoomParameters([a(0.01, 1), a(0.02, 0.5), a(0.03, 0.25)]);
+    expect(broadband.t30).toBeNaN();
+    expect(broadband.c50).toBe(Infinity);
+    expect(broadband.d50).toBe(1);
+  });
+
+  it('returns NaN for no arrivals and rejects a bad resolution', () => {
+    expect(computeRoomParameters([]).broadband.c50).toBeNaN();
+    expect(() => computeRoomParameters([], { resolution: 0 })).toThrow(/resolution/);
+  });
+
+  it('reflects material absorption per band for 3D paths', () => {
+    // Carpet absorbs far more at 4 kHz than at 125 Hz
+    const room = createShoeboxRoom(10, 8, 3, 1, 1, 1);
+    const materials = new MaterialDatabase().registerPreset(1, 'carpet');
+    const solver = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 3, materials });
+
+    const { bands } = computeRoomParameters(computePathArrivals(solver.getDetailedPaths([3, 3, 1.2])));
+    expect(bands[5].d50).toBeGreaterThan(bands[0].d50);
+    expect(bands[5].ts).toBeLessThan(bands[0].ts);
+  });
+
+  it('accepts arrivals from 2D detailed paths', () => {
+    const walls = [
+      new Wall([0, 0], [10, 0]),
+      new Wall([10, 0], [10, 10]),
+      new Wall([10, 10], [0, 10]),
+      new Wall([0, 10], [0, 0])
+    ];
+    const solver = new Solver(walls, new Source([2, 5]), 3);
+    const arrivals = computePathArrivals(solver.getDetailedPaths(new Listener([6, 5])));
+
+    const { broadband } = computeRoomParameters(arrivals);
+    expect(broadband.d50).toBeGreaterThan(0);
+    expect(broadband.d50).toBeLessThan(1);
+    expect(Number.isFinite(broadband.c80)).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for room geometry validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { RoomIssueType, orientNormalsInward, validateRoom } from '../geometry/room-validation';
+import { createPillarRoom } from './fixtures';
+
+/** Issue types in a report, sorted */
+function issueTypes(polygons: Polygon3D[]): RoomIssueType[] {
+  return validateRoom(polygons).issues.map(issue => issue.type).sort();
+}
+
+describe('validateRoom', () => {
+  it('accepts a closed room with inward normals', () => {
+    const report = validateRoom(createShoeboxRoom(10, 8, 3));
+
+    expect(report.valid).toBe(true);
+    expect(report.watertight).toBe(true);
+    expect(report.consistentWinding).toBe(true);
+    expect(report.normalsInward).toBe(true);
+    expect(report.volume).toBeCloseTo(240, 6);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('finds a reversed wall', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    room[3] = Polygon3D.flip(room[3]);
+    const report = validateRoom(room);
+
+    expect(report.consistentWinding).toBe(false);
+    expect(report.normalsInward).toBe(false);
+    expect(report.issues.filter(i => i.type === 'inconsistent-winding').length).toBe(4);
+    expect(report.issues.filter(i => i.type === 'outward-normal').map(i => i.polygonIds)).toEqual([[3]]);
+  });
+
+  it('reports a room turned inside out', () => {
+    const report = validateRoom(createShoeboxRoom(10, 8, 3).map(p => Polygon3D.flip(p)));
+
+    expect(report.consistentWinding).toBe(true);
+    expect(report.normalsInward).toBe(false);
+    expect(report.volume).toBeCloseTo(-240, 6);
+  });
+
+  it('finds the gaps of an open room', () => {
+    const room = createShoeboxRoom(10, 8, 3).filter((_, i) => i !== 1);
+    const report = validateRoom(room);
+
+    expect(report.watertight).toBe(false);
+    expect(report.normalsInward).toBe(true);
+    const gaps = report.issues.filter(i => i.type === 'open-edge');
+    expect(gaps.length).toBe(4);
+    for (const gap of gaps) {
+      expect(gap.location![2]).toBeCloseTo(3, 10);
+    }
+  });
+
+  it('finds T-junctions where a wall is split', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    room[2] = Polygon3D.create([[0, 0, 0], [0, 0, 3], [5, 0, 3], [5, 0, 0]]);
+    room.push(Polygon3D.create([[5, 0, 0], [5, 0, 3], [10, 0, 3], [10, 0, 0]]));
+    const report = validateRoom(room);
+
+    expect(report.watertight).toBe(true);
+    expect(report.normalsInward).toBe(true);
+    const junctions = report.issues.filter(i => i.type === 't-junction');
+    expect(junctions.map(i => i.location).sort((a, b) => a![2] - b![2])).toEqual([[5, 0, 0], [5, 0, 3]]);
+  });
+
+  it('treats a partition standing in the room as closed', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    room.push(Polygon3D.create([[5, 0, 0], [5, 8, 0], [5, 8, 3], [5, 0, 3]]));
+
+    expect(validateRoom(room).valid).toBe(true);
+  });
+
+  it('accepts a pillar whose faces point out into the room', () => {
+    expect(validateRoom(createPillarRoom()).issues).toEqual([]);
+
+    const room = createPillarRoom().map((p, i) => i >= 6 ? Polygon3D.flip(p) : p);
+    expect(validateRoom(room).issues.filter(issue => issue.type === 'outward-normal').map(issue => issue.polygonIds))
+      .toEqual([[6], [7], [8], [9]]);
+  });
+
+  it('finds degenerate, non-planar, duplicate and overlapping polygons', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    room.push(Polygon3D.create([[1, 1, 1], [2, 2, 2], [3, 3, 3]]));
+    room.push(Polygon3D.clone(room[0]));
+    const rug = Polygon3D.create([[2, 2, 0], [4, 2, 0], [4, 4, 0], [2, 4, 0]]);
+    room.push(rug);
+
+    expect(issueTypes(room)).toEqual(['degenerate', 'duplicate', 'overlap']);
+
+    const bent = createShoeboxRoom(10, 8, 3);
+    const corners: Vector3[] = bent[0].vertices.map(v => [...v]);
+    corners[2][2] = 0.5;
+    bent[0] = Polygon3D.create(corners);
+    expect(issueTypes(bent)).toContain('non-planar');
+  });
+});
+
+describe('orientNormalsInward', () => {
+  it('flips reversed walls back', () => {
+    const reference = createShoeboxRoom(10, 8, 3);
+    const room = reference.map((p, i) => i === 3 || i === 4 ? Polygon3D.flip(p) : p);
+    const fixed = orientNormalsInward(room);
+
+    expect(validateRoom(fixed).valid).toBe(true);
+    expect(fixed.map(p => Polygon3D.normal(p))).toEqual(reference.map(p => Polygon3D.normal(p)));
+    expect(fixed[0]).toBe(room[0]);
+  });
+
+  it('turns an inside-out room around', () => {
+    const room = createShoeboxRoom(10, 8, 3).map(p => Polygon3D.flip(p));
+    expect(validateRoom(orientNormalsInward(room)).normalsInward).toBe(true);
+  });
+
+  it('leaves a correct pillar room alone and turns a reversed pillar around', () => {
+    const reference = createPillarRoom();
+    expect(orientNormalsInward(reference).every((p, i) => p === reference[i])).toBe(true);
+
+    const room = reference.map((p, i) => i >= 6 ? Polygon3D.flip(p) : p);
+    expect(orientNormalsInward(room).map(p => Polygon3D.normal(p))).toEqual(reference.map(p => Polygon3D.normal(p)));
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for JSON scene files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { MATERIAL_PRESETS } from '../acoustics/materials';
+import { SceneJson, createSceneSolver, loadScene, saveScene, validateScene } from '../io/scene';
+
+const SURFACE_NAMES = ['floor', 'ceiling', 'front', 'right', 'back', 'left'];
+
+/** 10 x 8 x 3 shoebox with a carpet floor and custom wall panels */
+function createSceneJson(): SceneJson {
+  return {
+    version: 1,
+    name: 'Shoebox',
+    materials: {
+      carpet: { preset: 'carpet' },
+      panel: { absorption: [0.3, 0.4, 0.5, 0.5, 0.4, 0.3], scattering: [0.1, 0.1, 0.1, 0.1, 0.1, 0.1] }
+    },
+    polygons: createShoeboxRoom(10, 8, 3).map((polygon, i) => ({
+      name: SURFACE_NAMES[i],
+      vertices: polygon.vertices,
+      material: i === 0 ? 'carpet' : 'panel'
+    })),
+    sources: [{ name: 'talker', position: [5, 4, 1.5], directivity: { type: 'cardioid' } }],
+    listeners: [{ position: [3, 3, 1.2], orientation: { yaw: Math.PI, pitch: 0, roll: 0 } }],
+    solver: { maxReflectionOrder: 2, airAbsorption: { temperature: 18 } }
+  };
+}
+
+/** Copy of the scene with one field replaced (or removed, for undefined) */
+function corrupt(path: Array<string | number>, value: unknown): unknown {
+  const json = JSON.parse(JSON.stringify(createSceneJson()));
+  let target = json;
+  for (const key of path.slice(0, -1)) {
+    target = target[key];
+  }
+  const last = path[path.length - 1];
+  if (value === undefined) {
+    delete target[last];
+  } else {
+    target[last] = value;
+  }
+  return json;
+}
+
+describe('loadScene', () => {
+  it('builds polygons, materials, sources and listeners', () => {
+    const scene = loadScene(JSON.stringify(createSceneJson()));
+
+    expect(scene.name).toBe('Shoebox');
+    expect(scene.polygons.length).toBe(6);
+    expect(scene.polygonNames).toEqual(SURFACE_NAMES);
+    expect(scene.materialIds).toEqual({ carpet: 1, panel: 2 });
+    expect(scene.materials.resolve(scene.polygons[0].materialId).absorption).toEqual(MATERIAL_PRESETS.carpet.absorption);
+    expect(scene.sources[0].directivity).toEqual({ type: 'cardioid' });
+    expect(scene.sources[0].orientation).toEqual({ yaw: 0, pitch: 0, roll: 0 });
+    expect(scene.listeners[0].orientation.yaw).toBe(Math.PI);
+  });
+
+  it('creates a solver matching one configured in code', () => {
+    const scene = loadScene(createSceneJson());
+    const listener: Vector3 = [3, 3, 1.2];
+
+    const fromScene = createSceneSolver(scene).getDetailedPaths(listener);
+    const inCode = new OptimizedSolver3D(scene.polygons, [5, 4, 1.5], {
+      maxReflectionOrder: 2,
+      materials: scene.materials,
+      airAbsorption: { temperature: 18 },
+      sourceDirectivity: { type: 'cardioid' }
+    }).getDetailedPaths(listener);
+
+    expect(fromScene.length).toBe(inCode.length);
+    expect(fromScene.map(p => p.reflectionLossDb)).toEqual(inCode.map(p => p.reflectionLossDb));
+    expect(fromScene.map(p => p.sourceDirectivityGain)).toEqual(inCode.map(p => p.sourceDirectivityGain));
+    expect(() => createSceneSolver(scene, 1)).toThrow(/no source at index 1/);
+  });
+
+  it('round-trips through saveScene', () => {
+    const scene = loadScene(createSceneJson());
+    const reloaded = loadScene(saveScene(scene));
+
+    expect(reloaded.name).toBe(scene.name);
+    expect(reloaded.polygons).toEqual(scene.polygons);
+    expect(reloaded.polygonNames).toEqual(scene.polygonNames);
+    expect(reloaded.materialIds).toEqual(scene.materialIds);
+    expect(reloaded.materials.get(1)!.absorption).toEqual(scene.materials.get(1)!.absorption);
+    expect(reloaded.sources).toEqual(scene.sources);
+    expect(reloaded.listeners).toEqual(scene.listeners);
+    expect(reloaded.solver).toEqual(scene.solver);
+  });
+
+  it('reports malformed JSON', () => {
+    expect(() => loadScene('{ "version": 1,')).toThrow(/Scene: invalid JSON/);
+  });
+});
+
+describe('validateScene', () => {
+  it('accepts a valid scene', () => {
+    expect(() => validateScene(createSceneJson())).not.toThrow();
+  });
+
+  it('names the offending field', () => {
+    const cases: Array<[Array<string | number>, unknown, RegExp]> = [
+      [['version'], 2, /^Scene: version: unsupported version 2/],
+      [['polygons'], undefined, /^Scene: polygons: expected an array/],
+      [['polygons', 3, 'vertices', 1], [1, 2], /^Scene: polygons\[3\]\.vertices\[1\]: expected \[x, y, z\]/],
+      [['polygons', 2, 'material'], 'marble', /^Scene: polygons\[2\]\.material: unknown material "marble"/],
+      [['polygons', 0, 'colour'], 'red', /^Scene: polygons\[0\]\.colour: unknown field/],
+      [['materials', 'panel', 'absorption', 2], 1.5, /^Scene: materials\.panel: .*\[0, 1\]/],
+      [['materials', 'carpet', 'preset'], 'shag', /^Scene: materials\.carpet\.preset: unknown preset "shag"/],
+      [['sources', 0, 'directivity'], { type: 'shotgun' }, /^Scene: sources\[0\]\.directivity\.type: unknown directivity type/],
+      [['listeners', 0, 'orientation', 'pitch'], 'up', /^Scene: listeners\[0\]\.orientation\.pitch: expected a finite number/],
+      [['solver', 'diffractionOrder'], 3, /^Scene: solver\.diffractionOrder: must be 0, 1 or 2/],
+      [['solver', 'airAbsorption', 'humidity'], 40, /^Scene: solver\.airAbsorption\.humidity: unknown field/],
+      [['solver', 'airAbsorption', 'temperature'], -300, /^Scene: solver\.airAbsorption\.temperature: must be above absolute zero/],
+      [['solver', 'airAbsorption', 'relativeHumidity'], 120, /^Scene: solver\.airAbsorption\.relativeHumidity: must be in \[0, 100\]/],
+      [['solver', 'airAbsorption', 'pressure'], 0, /^Scene: solver\.airAbsorption\.pressure: must be positive/]
+    ];
+
+    for (const [path, value, message] of cases) {
+      expect(() => validateScene(corrupt(path, value))).toThrow(message);
+    }
+  });
+
+  it('rejects polygons the solver cannot use', () => {
+    const vertices = ['polygons', 0, 'vertices'];
+    const concave = corrupt(vertices, [[0, 0, 0], [2, 0, 0], [2, 1, 0], [1, 1, 0], [1, 2, 0], [0, 2, 0]]);
+    const bent = corrupt(vertices, [[0, 0, 0], [1, 0, 0], [1, 1, 0.5], [0, 1, 0]]);
+    const flat = corrupt(vertices, [[0, 0, 0], [1, 0, 0], [2, 0, 0]]);
+
+    expect(() => validateScene(concave)).toThrow(/polygons\[0\]\.vertices: polygon is not convex/);
+    expect(() => validateScene(bent)).toThrow(/polygons\[0\]\.vertices: polygon is not planar/);
+    expect(() => validateScene(flat)).toThrow(/polygons\[0\]\.vertices: polygon has zero area/);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for BSP serialization and binary solver caches
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { buildBSP, countNodes, deserializeBSP, rayTraceBSP, serializeBSP, BSPNode3D } from '../structures/bsp3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { decodeSolverCache3D, hashSolverInput3D } from '../io/solver-cache';
+import { createPillarRoom, pathLengths } from './fixtures';
+
+const SOURCE: Vector3 = [2, 2, 1.5];
+const LISTENERS: Vector3[] = [[8.3, 6.1, 1.2], [2.7, 6.6, 1.7], [8.6, 1.4, 2.1]];
+
+/** Shoebox room with two crossing partitions: whichever the BSP splits along cuts the other */
+function createCrossRoom(): Polygon3D[] {
+  return [
+    ...createShoeboxRoom(10, 8, 3),
+    Polygon3D.create([[5, 1, 0], [5, 7, 0], [5, 7, 2], [5, 1, 2]]),
+    Polygon3D.create([[2, 4, 0], [2, 4, 2], [8, 4, 2], [8, 4, 0]])
+  ];
+}
+
+/** Nodes of a BSP tree in depth-first order */
+function bspNodes(node: BSPNode3D | null): BSPNode3D[] {
+  return node ? [node, ...bspNodes(node.front), ...bspNodes(node.back)] : [];
+}
+
+describe('serializeBSP', () => {
+  it('restores split polygons and the tree structure', () => {
+    const room = createCrossRoom();
+    const root = buildBSP(room);
+    const data = serializeBSP(root, room);
+    const restored = deserializeBSP(data, room);
+
+    const original = bspNodes(root);
+    const copy = bspNodes(restored);
+    expect(countNodes(restored)).toBe(countNodes(root));
+    expect(original.length).toBeGreaterThan(room.length);
+    copy.forEach((node, i) => {
+      expect(node.polygonId).toBe(original[i].polygonId);
+      expect(node.polygon.vertices).toEqual(original[i].polygon.vertices);
+      expect(node.plane).toBe(room[node.polygonId].plane);
+    });
+
+    for (const direction of [[1, 0.8, 0.1], [1, 0.2, 0], [-0.3, 1, 0.2]] as Vector3[]) {
+      expect(rayTraceBSP([6, 6, 1], direction, restored)).toEqual(rayTraceBSP([6, 6, 1], direction, root));
+    }
+  });
+
+  it('stores only the vertices of fragments', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const data = serializeBSP(buildBSP(room), room);
+    expect(data.vertices.length).toBe(0);
+    expect(deserializeBSP(data, room)?.polygon).toBe(room[data.polygonIds[0]]);
+    expect(deserializeBSP(serializeBSP(null, []), [])).toBeNull();
+  });
+});
+
+describe('solver caches', () => {
+  const room = createPillarRoom(1, 2, 3);
+  const solver = new OptimizedSolver3D(room, SOURCE, { maxReflectionOrder: 3 });
+  const cache = solver.serialize();
+
+  it('restores a solver that finds the same paths', () => {
+    const restored = new OptimizedSolver3D(room, SOURCE, { cache });
+
+    expect(restored.getMaxReflectionOrder()).toBe(3);
+    expect(restored.getLeafNodeCount()).toBe(solver.getLeafNodeCount());
+    for (const listener of LISTENERS) {
+      expect(pathLengths(restored.getPaths(listener))).toEqual(pathLengths(solver.getPaths(listener)));
+    }
+  });
+
+  it('rejects caches for other input', () => {
+    const moved = room.map(p => p);
+    moved[0] = Polygon3D.create(room[0].vertices, 2);
+
+    expect(() => new OptimizedSolver3D(room, [2, 2, 1.6], { cache })).toThrow(/different room, source or reflection order/);
+    expect(() => new OptimizedSolver3D(room, SOURCE, { cache, maxReflectionOrder: 2 })).toThrow(/different room/);
+    expect(() => new OptimizedSolver3D(moved, SOURCE, { cache })).toThrow(/different room/);
+    expect(hashSolverInput3D(moved, SOURCE, 3)).not.toBe(hashSolverInput3D(room, SOURCE, 3));
+    expect(decodeSolverCache3D(cache).hash).toBe(hashSolverInput3D(room, SOURCE, 3));
+  });
+
+  it('rejects damaged data', () => {
+    const bytes = new Uint8Array(cache.slice(0));
+    bytes[0] = 0;
+    expect(() => decodeSolverCache3D(bytes.buffer)).toThrow(/not a BeamTrace3D solver cache/);
+    expect(() => decodeSolverCache3D(cache.slice(0, cache.byteLength - 3))).toThrow(/unexpected end of data/);
+
+    const version = new Uint8Array(cache.slice(0));
+    version[4] = 9;
+    expect(() => decodeSolverCache3D(version.buffer)).toThrow(/unsupported version 9/);
+  });
+
+  it('saves the tree after polygon edits', () => {
+    const edited = new OptimizedSolver3D(room, SOURCE, { maxReflectionOrder: 2 });
+    edited.removePolygon(7);
+    const restored = new OptimizedSolver3D(edited.getPolygons(), SOURCE, { cache: edited.serialize() });
+
+    expect(pathLengths(restored.getPaths(LISTENERS[0]))).toEqual(pathLengths(edited.getPaths(LISTENERS[0])));
+  });
+});
@@ -4,7 +4,9 @@
 
 import { describe, it, expect } from 'vitest';
 import { Vector3 } from '../core/vector3';
+import { Orientation3D } from '../core/orientation3d';
 import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { Listener3D, Solver3D, Source3D } from '../beamtrace3d';
 import {
   OptimizedSolver3D,
   computePathLength,
@@ -12,6 +14,8 @@ import {
   getPathReflectionOrder,
   convertToDetailedPath3D
 } from '../solver/solver3d';
+import { buildBeamTree3D, computeReflectionCandidates, countBeamNodes, editReflectionCandidates } from '../structures/beamtree3d';
+import { createPillarRoom, pathLengths } from './fixtures';
 
 describe('OptimizedSolver3D', () => {
   describe('constructor', () => {
@@ -284,6 +288,145 @@ describe('OptimizedSolver3D', () => {
       // First call after clear has no fail plane cache to hit
       expect(metrics.failPlaneCacheHits).toBe(0);
     });
+
+    it('cached fail planes do not hide paths at other listener positions', () => {
+      const solver = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), [2, 2, 1.5], { maxReflectionOrder: 3 });
+      const first = pathLengths(solver.getPaths([8, 6, 1.2]));
+
+      solver.getPaths([3, 2, 1]);
+      solver.getPaths([8.5, 1.5, 2]);
+      expect(pathLengths(solver.getPaths([8, 6, 1.2]))).toEqual(first);
+    });
+  });
+
+  describe('setSourcePosition', () => {
+    it('finds the same paths as a solver built at the new position', () => {
+      const room = createPillarRoom();
+      const listener: Vector3 = [8, 6, 1.2];
+      const solver = new OptimizedSolver3D(room, [2, 2, 1.5], { maxReflectionOrder: 3 });
+      solver.getPaths(listener);
+
+      for (const position of [[2, 6, 1.5], [8.5, 1.5, 2], [5, 1, 1]] as Vector3[]) {
+        solver.setSourcePosition(position);
+        const fresh = new OptimizedSolver3D(room, position, { maxReflectionOrder: 3 });
+
+        expect(solver.getSourcePosition()).toEqual(position);
+        expect(solver.getLeafNodeCount()).toBe(fresh.getLeafNodeCount());
+        expect(pathLengths(solver.getPaths(listener))).toEqual(pathLengths(fresh.getPaths(listener)));
+        expect(pathLengths(solver.getPaths([3, 2, 1]))).toEqual(pathLengths(fresh.getPaths([3, 2, 1])));
+      }
+    });
+
+    it('resets the metrics for the new beam tree', () => {
+      const solver = new OptimizedSolver3D(createPillarRoom(), [2, 2, 1.5], { maxReflectionOrder: 2 });
+      solver.getPaths([8, 6, 1.2]);
+      solver.setSourcePosition([8, 6, 2]);
+
+      expect(solver.getMetrics().validPathCount).toBe(0);
+      expect(solver.getMetrics().totalLeafNodes).toBe(solver.getLeafNodeCount());
+    });
+
+    it('keeps the source directivity in Solver3D', () => {
+      const source = new Source3D([2, 2, 1.5], { directivity: { type: 'cardioid' } });
+      const solver = new Solver3D(createShoeboxRoom(10, 8, 3), source, { maxReflectionOrder: 1 });
+      solver.setSourcePosition([7, 5, 1.5]);
+
+      expect(solver.source.position).toEqual([7, 5, 1.5]);
+      expect(solver.source.directivity).toEqual({ type: 'cardioid' });
+      expect(solver.getDetailedPaths([3, 3, 1.2])[0].sourceDirectivityGain).toBeDefined();
+    });
+
+    it('builds the same beam tree with reflection candidates', () => {
+      const room = createPillarRoom();
+      const candidates = computeReflectionCandidates(room);
+
+      // A pillar face cannot be reached from the wall behind it
+      expect(candidates[6]).not.toContain(3);
+      expect(countBeamNodes(buildBeamTree3D([2, 2, 1.5], room, 3, candidates)))
+        .toBe(countBeamNodes(buildBeamTree3D([2, 2, 1.5], room, 3)));
+    });
+  });
+
+  describe('polygon editing', () => {
+    const source: Vector3 = [2, 2, 1.5];
+    const listeners: Vector3[] = [[8, 6, 1.2], [3, 2, 1], [8.5, 1.5, 2]];
+
+    /** Check an edited solver against one built from scratch on the same polygons */
+    function expectSameAsFresh(solver: OptimizedSolver3D, room: Polygon3D[]): void {
+      const fresh = new OptimizedSolver3D(room, source, { maxReflectionOrder: 3 });
+      expect(solver.getLeafNodeCount()).toBe(fresh.getLeafNodeCount());
+      expect(solver.getMetrics().totalLeafNodes).toBe(fresh.getLeafNodeCount());
+      for (const listener of listeners) {
+        expect(pathLengths(solver.getPaths(listener))).toEqual(pathLengths(fresh.getPaths(listener)));
+      }
+    }
+
+    it('adds polygons', () => {
+      const room = createPillarRoom();
+      const solver = new OptimizedSolver3D(room.slice(0, 6), source, { maxReflectionOrder: 3 });
+      listeners.forEach(listener => solver.getPaths(listener));
+
+      for (const polygon of room.slice(6)) {
+        expect(solver.addPolygon(polygon)).toBe(solver.getPolygons().length - 1);
+      }
+      expectSameAsFresh(solver, room);
+    });
+
+    it('removes polygons and renumbers the rest', () => {
+      const room = createPillarRoom();
+      const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 3 });
+      listeners.forEach(listener => solver.getPaths(listener));
+
+      solver.removePolygon(7);
+      expectSameAsFresh(solver, room.filter((_, i) => i !== 7));
+      solver.removePolygon(0);
+      expectSameAsFresh(solver, room.filter((_, i) => i !== 7 && i !== 0));
+    });
+
+    it('moves a polygon', () => {
+      const room = createShoeboxRoom(10, 8, 3);
+      const baffle = Polygon3D.create([[6, 2, 0.5], [6, 6, 0.5], [6, 6, 2.5], [6, 2, 2.5]]);
+      const solver = new OptimizedSolver3D([...room, baffle], source, { maxReflectionOrder: 3 });
+      listeners.forEach(listener => solver.getPaths(listener));
+
+      const transform = { translation: [-1, 0, 0] as Vector3, rotation: Orientation3D.fromDegrees(20) };
+      solver.transformPolygon(6, transform);
+      expectSameAsFresh(solver, [...room, Polygon3D.transform(baffle, transform)]);
+    });
+
+    it('updates reflection candidates for the edited polygon only', () => {
+      const room = createPillarRoom();
+      const candidates = computeReflectionCandidates(room);
+      const baffle = Polygon3D.create([[6, 2, 0.5], [6, 6, 0.5], [6, 6, 2.5], [6, 2, 2.5]]);
+
+      const inserted = [...room.slice(0, 4), baffle, ...room.slice(4)];
+      expect(editReflectionCandidates(candidates, inserted, 4, 'insert')).toEqual(computeReflectionCandidates(inserted));
+      const removed = room.filter((_, i) => i !== 7);
+      expect(editReflectionCandidates(candidates, removed, 7, 'remove')).toEqual(computeReflectionCandidates(removed));
+      const replaced = room.map((polygon, i) => i === 8 ? Polygon3D.flip(polygon) : polygon);
+      expect(editReflectionCandidates(candidates, replaced, 8, 'update')).toEqual(computeReflectionCandidates(replaced));
+    });
+
+    it('leaves the caller\'s polygons alone', () => {
+      const room = createPillarRoom();
+      const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 1 });
+      solver.removePolygon(6);
+
+      expect(room.length).toBe(10);
+      expect(solver.getPolygons().length).toBe(9);
+      expect(() => solver.removePolygon(9)).toThrow(/no polygon with id 9/);
+      expect(() => solver.updatePolygon(-1, room[0])).toThrow(/no polygon with id -1/);
+    });
+
+    it('edits polygons through Solver3D', () => {
+      const solver = new Solver3D(createShoeboxRoom(10, 8, 3), new Source3D(source), { maxReflectionOrder: 1 });
+      const before = solver.getPaths([8, 6, 1.2]).length;
+
+      const id = solver.addPolygon(Polygon3D.create([[6, 2, 0.5], [6, 6, 0.5], [6, 6, 2.5], [6, 2, 2.5]]));
+      expect(solver.getPaths([8, 6, 1.2]).length).toBeLessThan(before);
+      solver.removePolygon(id);
+      expect(solver.getPaths([8, 6, 1.2]).length).toBe(before);
+    });
   });
 });
 
@@ -693,6 +836,48 @@ describe('getDetailedPaths (3D)', () => {
       }
     });
   });
+
+  describe('arrival direction', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const source: Vector3 = [5, 4, 1.5];
+
+    it('points from the listener toward the first path point', () => {
+      const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 1 });
+      const paths = solver.getDetailedPaths([2, 4, 1.5]);
+
+      const direct = paths.find(p => p.reflectionCount === 0)!;
+      expect(direct.arrivalDirection.direction).toEqual([1, 0, 0]);
+      expect(direct.arrivalDirection.azimuth).toBeCloseTo(0, 10);
+      expect(direct.arrivalDirection.elevation).toBeCloseTo(0, 10);
+
+      // Ceiling reflection arrives from above
+      const ceiling = paths.find(p => p.reflectionCount === 1 && Math.abs(p.reflections[0].hitPoint[2] - 3) < 1e-9)!;
+      expect(ceiling.arrivalDirection.elevation).toBeGreaterThan(0);
+
+      for (const path of paths) {
+        const expected = Vector3.normalize(Vector3.subtract(path.simplePath[1].position, path.listenerPosition));
+        expect(Vector3.equals(path.arrivalDirection.direction, expected)).toBe(true);
+      }
+    });
+
+    it('is expressed in the listener frame', () => {
+      const solver = new OptimizedSolver3D(room, source, { maxReflectionOrder: 0 });
+
+      // Listener facing +Y: the source at +X is on the right
+      const [path] = solver.getDetailedPaths([2, 4, 1.5], Orientation3D.fromDegrees(90));
+      expect(path.arrivalDirection.azimuth).toBeCloseTo(-Math.PI / 2, 10);
+      expect(path.arrivalDirection.direction).toEqual([1, 0, 0]);
+    });
+
+    it('uses the Listener3D orientation in Solver3D', () => {
+      const solver = new Solver3D(room, new Source3D(source), { maxReflectionOrder: 0 });
+      const listener = new Listener3D([2, 4, 1.5], Orientation3D.fromDegrees(180));
+      expect(Math.abs(solver.getDetailedPaths(listener)[0].arrivalDirection.azimuth)).toBeCloseTo(Math.PI, 10);
+
+      listener.setOrientation(Orientation3D.fromDegrees(0, -45));
+      expect(solver.getDetailedPaths(listener)[0].arrivalDirection.elevation).toBeCloseTo(Math.PI / 4, 10);
+    });
+  });
 });
 
 describe('convertToDetailedPath3D', () => {
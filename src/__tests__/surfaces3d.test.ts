@@ -0,0 +1,112 @@
+/**
+ * Unit tests for surface grouping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Polygon3D, createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D, getPathReflectionOrder } from '../solver/solver3d';
+import { computeSurfaceStatistics, getSurfaceId, groupSurfaces } from '../solver/surfaces3d';
+
+const SOURCE: Vector3 = [5, 4, 1.5];
+const LISTENER: Vector3 = [5, 2, 1.2];
+
+/** 10 x 8 x 3 shoebox whose floor (surface 0) is split in two at x = 5 */
+function createSplitFloorRoom(): Polygon3D[] {
+  const [, ...walls] = createShoeboxRoom(10, 8, 3);
+  return [
+    ...Polygon3D.createSurface([[0, 0, 0], [5, 0, 0], [5, 8, 0], [0, 8, 0]], 1, 0),
+    ...Polygon3D.createSurface([[5, 0, 0], [10, 0, 0], [10, 8, 0], [5, 8, 0]], 1, 0),
+    ...walls
+  ];
+}
+
+/** 10 x 8 x 3 shoebox whose last wall is rebuilt with surfaceId 0 */
+function createMixedRoom(): Polygon3D[] {
+  const room = createShoeboxRoom(10, 8, 3);
+  const wall = room.pop()!;
+  return [...room, ...Polygon3D.createSurface(wall.vertices, wall.materialId, 0)];
+}
+
+describe('groupSurfaces', () => {
+  it('groups pieces by surfaceId and keeps other polygons apart', () => {
+    const room = createSplitFloorRoom();
+    const surfaces = groupSurfaces(room);
+
+    expect(surfaces.length).toBe(6);
+    expect(surfaces[0]).toEqual({ surfaceId: 0, polygonIds: [0, 1], area: 80, materialId: 1 });
+    expect(surfaces.slice(1).map(s => s.polygonIds)).toEqual([[2], [3], [4], [5], [6]]);
+    expect(getSurfaceId(room, 1)).toBe(0);
+    expect(getSurfaceId(room, 4)).toBe(-5);
+  });
+
+  it('keeps explicit surface ids apart from ungrouped polygons', () => {
+    const room = createMixedRoom();
+    const surfaces = groupSurfaces(room);
+
+    expect(surfaces.length).toBe(6);
+    expect(surfaces.every(s => s.polygonIds.length === 1)).toBe(true);
+    expect(getSurfaceId(room, 0)).toBe(-1);
+    expect(getSurfaceId(room, 5)).toBe(0);
+  });
+
+  it('rejects negative surface ids', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    expect(() => Polygon3D.createSurface(room[2].vertices, 1, -1)).toThrow(/non-negative integer/);
+    expect(() => groupSurfaces([{ ...room[0], surfaceId: -1 }])).toThrow(/non-negative integer/);
+  });
+});
+
+describe('surface paths', () => {
+  it('reports a reflection on the seam between pieces once', () => {
+    const split = new OptimizedSolver3D(createSplitFloorRoom(), SOURCE, { maxReflectionOrder: 1 }).getPaths(LISTENER);
+    const whole = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), SOURCE, { maxReflectionOrder: 1 }).getPaths(LISTENER);
+
+    expect(split.length).toBe(whole.length);
+    const floorPaths = split.filter(path => path.some(p => p.position[2] === 0 && p.polygonId !== null));
+    expect(floorPaths.length).toBe(1);
+  });
+
+  it('gives the same paths as the unsplit room at higher orders', () => {
+    const split = new OptimizedSolver3D(createSplitFloorRoom(), SOURCE, { maxReflectionOrder: 3 }).getPaths(LISTENER);
+    const whole = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), SOURCE, { maxReflectionOrder: 3 }).getPaths(LISTENER);
+
+    const orders = (paths: typeof split) => paths.map(getPathReflectionOrder).sort();
+    expect(orders(split)).toEqual(orders(whole));
+  });
+
+  it('labels reflections with their surface', () => {
+    const room = createSplitFloorRoom();
+    const paths = new OptimizedSolver3D(room, SOURCE, { maxReflectionOrder: 1 }).getDetailedPaths(LISTENER);
+    const floor = paths.find(p => p.reflections[0]?.hitPoint[2] === 0)!;
+
+    expect(floor.reflections[0].surfaceId).toBe(0);
+    expect([0, 1]).toContain(floor.reflections[0].polygonId);
+  });
+
+  it('does not merge an ungrouped floor with a surface that has id 0', () => {
+    const mixed = new OptimizedSolver3D(createMixedRoom(), SOURCE, { maxReflectionOrder: 1 }).getDetailedPaths(LISTENER);
+    const whole = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3), SOURCE, { maxReflectionOrder: 1 }).getDetailedPaths(LISTENER);
+
+    expect(mixed.length).toBe(whole.length);
+    const surfaceIds = mixed.filter(p => p.reflectionCount === 1).map(p => p.reflections[0].surfaceId);
+    expect(new Set(surfaceIds).size).toBe(6);
+  });
+});
+
+describe('computeSurfaceStatistics', () => {
+  it('counts reflections per surface', () => {
+    const room = createSplitFloorRoom();
+    const paths = new OptimizedSolver3D(room, SOURCE, { maxReflectionOrder: 2 }).getDetailedPaths(LISTENER);
+    const statistics = computeSurfaceStatistics(paths, room);
+
+    const total = statistics.reduce((sum, s) => sum + s.reflectionCount, 0);
+    expect(total).toBe(paths.reduce((sum, p) => sum + p.reflectionCount, 0));
+
+    const floor = statistics[0];
+    expect(floor.polygonIds).toEqual([0, 1]);
+    expect(floor.pathCount).toBe(paths.filter(p => p.reflections.some(r => r.surfaceId === 0)).length);
+    expect(floor.pathCount).toBeGreaterThan(0);
+    expect(floor.transmissionCount).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for sound transmission through partitions in the 3D solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from '../core/vector3';
+import { Polygon3D, createShoeboxRoom, createQuad } from '../geometry/polygon3d';
+import { OptimizedSolver3D, getPathReflectionOrder } from '../solver/solver3d';
+import { MaterialDatabase, MATERIAL_PRESETS } from '../acoustics/materials';
+import { computePathArrivals } from '../acoustics/impulse-response';
+
+/** Material ids: 1 = room shell, 2 = partition */
+function createTwoRooms(): Polygon3D[] {
+  return [
+    ...createShoeboxRoom(10, 8, 3, 1, 1, 1),
+    createQuad([5, 0, 0], [5, 8, 0], [5, 8, 3], [5, 0, 3], 2)
+  ];
+}
+
+const PARTITION_ID = 6;
+const source: Vector3 = [2, 4, 1.5];
+const listener: Vector3 = [8, 3, 1.2];
+
+function materialsWithPartition(preset: string): MaterialDatabase {
+  return new MaterialDatabase()
+    .registerPreset(1, 'concrete')
+    .registerPreset(2, preset);
+}
+
+describe('Transmission', () => {
+  it('treats every polygon as opaque by default', () => {
+    const solver = new OptimizedSolver3D(createTwoRooms(), source, {
+      maxReflectionOrder: 1,
+      materials: materialsWithPartition('gypsumPartition')
+    });
+
+    expect(solver.getPaths(listener)).toEqual([]);
+  });
+
+  it('requires a material database', () => {
+    expect(() => new OptimizedSolver3D(createTwoRooms(), source, { transmission: true })).toThrow(/material/);
+  });
+
+  it('passes the direct path through a transmissive partition', () => {
+    const solver = new OptimizedSolver3D(createTwoRooms(), source, {
+      maxReflectionOrder: 0,
+      materials: materialsWithPartition('gypsumPartition'),
+      transmission: true
+    });
+
+    const direct = solver.getPaths(listener).find(p => getPathReflectionOrder(p) === 0)!;
+    expect(direct).toBeDefined();
+    expect(direct.length).toBe(3);
+    expect(direct[1].polygonId).toBeNull();
+    expect(direct[1].transmittedPolygonId).toBe(PARTITION_ID);
+    expect(direct[1].position[0]).toBeCloseTo(5, 10);
+  });
+
+  it('still blocks paths at opaque polygons', () => {
+    const solver = new OptimizedSolver3D(createTwoRooms(), source, {
+      maxReflectionOrder: 1,
+      materials: materialsWithPartition('concrete'),
+      transmission: true
+    });
+
+    expect(solver.getPaths(listener)).toEqual([]);
+  });
+
+  it('orders crossings from listener to source along reflected paths', () => {
+    const solver = new OptimizedSolver3D(createTwoRooms(), source, {
+      maxReflectionOrder: 1,
+      materials: materialsWithPartition('gypsumPartition'),
+      transmission: true
+    });
+
+    // Floor bounce at x ≈ 5.3: the crossing lies on the source side of the reflection
+    const floorPath = solver.getPaths(listener).find(p => p.some(point => point.polygonId === 0))!;
+    expect(floorPath.map(p => p.polygonId)).toEqual([null, 0, null, null]);
+    expect(floorPath[2].transmittedPolygonId).toBe(PARTITION_ID);
+    expect(floorPath[2].position[0]).toBeCloseTo(5, 10);
+  });
+
+  it('reports per-crossing and total transmission loss', () => {
+    const solver = new OptimizedSolver3D(createTwoRooms(), source, {
+      maxReflectionOrder: 1,
+      materials: materialsWithPartition('gypsumPartition'),
+      transmission: true
+    });
+
+    const paths = solver.getDetailedPaths(listener);
+    const direct = paths.find(p => p.reflectionCount === 0)!;
+    const partitionLoss = MATERIAL_PRESETS.gypsumPartition.transmissionLoss!;
+
+    expect(direct.transmissions!.length).toBe(1);
+    expect(direct.transmissions![0].polygonId).toBe(PARTITION_ID);
+    expect(direct.transmissions![0].material!.name).toBe('gypsumPartition');
+    expect(direct.transmissionLossDb).toEqual(partitionLoss);
+    expect(direct.segments.length).toBe(2);
+    expect(direct.totalPathLength).toBeCloseTo(Vector3.distance(source, listener), 10);
+
+    // Every path between the two rooms crosses the partition exactly once
+    for (const path of paths) {
+      expect(path.transmissions!.length).toBe(1);
+    }
+  });
+
+  it('attenuates arrivals by the transmission loss', () => {
+    const solver = new OptimizedSolver3D(createTwoRooms(), source, {
+      maxReflectionOrder: 0,
+      materials: materialsWithPartition('gypsumPartition'),
+      transmission: true
+    });
+
+    const direct = solver.getDetailedPaths(listener)[0];
+    const [transmitted] = computePathArrivals([direct]);
+    const [open] = computePathArrivals([{ ...direct, transmissionLossDb: undefined }]);
+    const partitionLoss = MATERIAL_PRESETS.gypsumPartition.transmissionLoss!;
+
+    partitionLoss.forEach((loss, band) => {
+      expect(transmitted.amplitudes[band]).toBeCloseTo(open.amplitudes[band] * Math.pow(10, -loss / 20), 12);
+    });
+  });
+
+  it('keeps transmissive flags in step with polygon edits', () => {
+    const [partition] = createTwoRooms().slice(PARTITION_ID);
+    const solver = new OptimizedSolver3D(createShoeboxRoom(10, 8, 3, 1, 1, 1), source, {
+      maxReflectionOrder: 0,
+      materials: materialsWithPartition('gypsumPartition'),
+      transmission: true
+    });
+    const crossings = (): Array<number | undefined> =>
+      solver.getPaths(listener).flatMap(path => path.map(p => p.transmittedPolygonId).filter(id => id !== undefined));
+
+    solver.addPolygon(partition);
+    expect(crossings()).toEqual([PARTITION_ID]);
+
+    // The partition's flag moves down with its id
+    solver.removePolygon(0);
+    expect(crossings()).toEqual([PARTITION_ID - 1]);
+
+    solver.updatePolygon(PARTITION_ID - 1, { ...partition, materialId: 1 });
+    expect(solver.getPaths(listener)).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for WAV encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeWav, decodeWav } from '../io/wav';
+import { Solver, Source, Listener, Wall } from '../beamtrace2d';
+import { createShoeboxRoom } from '../geometry/polygon3d';
+import { OptimizedSolver3D } from '../solver/solver3d';
+import { computeArrivals2D, computeArrivals3D, renderImpulseResponse } from '../acoustics/impulse-response';
+
+function tag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+describe('encodeWav', () => {
+  const signal = new Float32Array([0, 0.5, -0.5, 1, -1]);
+
+  it('writes a valid mono 16-bit header', () => {
+    const bytes = encodeWav(signal, { sampleRate: 44100, bitDepth: 16 });
+    const view = new DataView(bytes.buffer);
+
+    expect(tag(bytes, 0)).toBe('RIFF');
+    expect(tag(bytes, 8)).toBe('WAVE');
+    expect(tag(bytes, 12)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1);          // PCM
+    expect(view.getUint16(22, true)).toBe(1);          // Channels
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(tag(bytes, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(signal.length * 2);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(view.getInt16(44 + 3 * 2, true)).toBe(32767);
+  });
+
+  it('round-trips every bit depth', () => {
+    for (const bitDepth of [16, 24, 32] as const) {
+      const wav = decodeWav(encodeWav(signal, { sampleRate: 48000, bitDepth }));
+      expect(wav.sampleRate).toBe(48000);
+      expect(wav.bitDepth).toBe(bitDepth);
+      const tolerance = bitDepth === 16 ? 1e-4 : 1e-6;
+      signal.forEach((v, i) => expect(Math.abs(wav.channels[0][i] - v)).toBeLessThan(tolerance));
+    }
+  });
+
+  it('defaults to 32-bit float', () => {
+    const bytes = encodeWav(signal, { sampleRate: 48000 });
+    expect(new DataView(bytes.buffer).getUint16(20, true)).toBe(3);
+  });
+
+  it('interleaves multichannel data and zero-pads short channels', () => {
+    const left = new Float32Array([0.25, 0.5, 0.75]);
+    const right = new Float32Array([-0.25]);
+    const wav = decodeWav(encodeWav([left, right], { sampleRate: 8000 }));
+
+    expect(wav.channels.length).toBe(2);
+    expect(Array.from(wav.channels[0])).toEqual([0.25, 0.5, 0.75]);
+    expect(Array.from(wav.channels[1])).toEqual([-0.25, 0, 0]);
+  });
+
+  it('uses WAVE_FORMAT_EXTENSIBLE above two channels', () => {
+    const channels = [0, 1, 2, 3].map(i => new Float32Array([i / 4]));
+    const bytes = encodeWav(channels, { sampleRate: 48000, bitDepth: 24 });
+    expect(new DataView(bytes.buffer).getUint16(20, true)).toBe(0xfffe);
+
+    const wav = decodeWav(bytes);
+    expect(wav.channels.length).toBe(4);
+    expect(wav.channels[3][0]).toBeCloseTo(0.75, 6);
+  });
+
+  it('clips integer formats and normalizes on request', () => {
+    const loud = new Float32Array([2, -4]);
+    expect(Array.from(decodeWav(encodeWav(loud, { sampleRate: 8000, bitDepth: 16 })).channels[0])).toEqual([1, -1]);
+
+    const normalized = decodeWav(encodeWav(loud, { sampleRate: 8000, normalize: 0.5 })).channels[0];
+    expect(normalized[0]).toBeCloseTo(0.25, 6);
+    expect(normalized[1]).toBeCloseTo(-0.5, 6);
+  });
+
+  it('pads odd-sized data chunks to an even length', () => {
+    const bytes = encodeWav(new Float32Array([0.1]), { sampleRate: 8000, bitDepth: 24 });
+    expect(bytes.length % 2).toBe(0);
+    expect(decodeWav(bytes).channels[0].length).toBe(1);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => encodeWav([], { sampleRate: 8000 })).toThrow(/channel/);
+    expect(() => encodeWav(signal, { sampleRate: 0 })).toThrow(/sampleRate/);
+    expect(() => encodeWav(signal, { sampleRate: 8000, bitDepth: 8 as never })).toThrow(/bit depth/);
+  });
+});
+
+describe('decodeWav', () => {
+  it('rejects non-WAV data', () => {
+    expect(() => decodeWav(new Uint8Array(16))).toThrow(/RIFF/);
+  });
+});
+
+describe('Simple path arrivals', () => {
+  it('renders a 3D getPaths() result to WAV', () => {
+    const room = createShoeboxRoom(10, 8, 3);
+    const solver = new OptimizedSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 1 });
+    const paths = solver.getPaths([3, 3, 1.2]);
+
+    const arrivals = computeArrivals3D(paths);
+    expect(arrivals.length).toBe(paths.length);
+    expect(arrivals.filter(a => a.reflectionOrder === 0).length).toBe(1);
+    expect(arrivals.filter(a => a.reflectionOrder === 1).length).toBe(6);
+
+    const ir = renderImpulseResponse(arrivals, { sampleRate: 48000 });
+    const wav = decodeWav(encodeWav(ir, { sampleRate: 48000 }));
+    expect(wav.channels[0].length).toBe(ir.length);
+  });
+
+  it('computes 2D arrivals with spherical or cylindrical spreading', () => {
+    const walls = [
+      new Wall([0, 0], [10, 0]),
+      new Wall([10, 0], [10, 10]),
+      new Wall([10, 10], [0, 10]),
+      new Wall([0, 10], [0, 0])
+    ];
+    const solver = new Solver(walls, new Source([2, 5]), 1);
+    const paths = solver.getPaths(new Listener([6, 5]));
+
+    const spherical = computeArrivals2D(paths);
+    const cylindrical = computeArrivals2D(paths, { spreading: 'cylindrical' });
+    const direct = spherical.findIndex(a => a.reflectionOrder === 0);
+
+    expect(spherical[direct].distance).toBeCloseTo(4, 10);
+    expect(spherical[direct].amplitudes[0]).toBeCloseTo(0.25, 10);
+    expect(cylindrical[direct].amplitudes[0]).toBeCloseTo(0.5, 10);
+    expect(spherical.filter(a => a.reflectionOrder === 1).length).toBe(4);
+  });
+});
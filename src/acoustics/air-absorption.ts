@@ -0,0 +1,137 @@
+/**
+ * Atmospheric absorption of sound (ISO 9613-1:1993)
+ *
+ * Computes the pure-tone attenuation coefficient of air from temperature,
+ * relative humidity and static pressure, and annotates detailed paths with
+ * the per-band attenuation of each segment.
+ *
+ * Octave bands are evaluated at their nominal centre frequencies.
+ */
+
+import { BandValues, OCTAVE_BANDS, addBandValues, createBandValues } from './bands';
+
+/**
+ * Atmospheric conditions for air absorption
+ */
+export interface AtmosphericConditions {
+  temperature?: number;        // Air temperature in °C (default: 20)
+  relativeHumidity?: number;   // Relative humidity in % (default: 50)
+  pressure?: number;           // Static pressure in kPa (default: 101.325)
+}
+
+/**
+ * A detailed path whose segments can be annotated with air attenuation
+ *
+ * Both DetailedReflectionPath3D and the 2D DetailedReflectionPath match this shape.
+ */
+export interface AirAbsorbingPath {
+  segments: Array<{ length: number; airAttenuationDb?: number[] }>;
+  airAttenuationDb?: number[];
+}
+
+/** Reference pressure in kPa */
+const REFERENCE_PRESSURE = 101.325;
+
+/** Reference temperature in K */
+const REFERENCE_TEMPERATURE = 293.15;
+
+/** Triple-point isotherm temperature in K */
+const TRIPLE_POINT_TEMPERATURE = 273.16;
+
+/**
+ * Validate and fill in default atmospheric conditions
+ */
+function resolveConditions(conditions: AtmosphericConditions): Required<AtmosphericConditions> {
+  const temperature = conditions.temperature ?? 20;
+  const relativeHumidity = conditions.relativeHumidity ?? 50;
+  const pressure = conditions.pressure ?? REFERENCE_PRESSURE;
+
+  if (temperature <= -273.15) {
+    throw new Error(`Air absorption: temperature must be above absolute zero, got ${temperature} °C`);
+  }
+  if (relativeHumidity < 0 || relativeHumidity > 100) {
+    throw new Error(`Air absorption: relative humidity must be in [0, 100] %, got ${relativeHumidity}`);
+  }
+  if (!(pressure > 0)) {
+    throw new Error(`Air absorption: pressure must be positive, got ${pressure} kPa`);
+  }
+
+  return { temperature, relativeHumidity, pressure };
+}
+
+/**
+ * Pure-tone air attenuation coefficient
+ *
+ * @param frequency - Frequency in Hz
+ * @param conditions - Temperature, humidity and pressure
+ * @returns Attenuation in dB per meter
+ */
+export function airAbsorptionCoefficient(
+  frequency: number,
+  conditions: AtmosphericConditions = {}
+): number {
+  const { temperature, relativeHumidity, pressure } = resolveConditions(conditions);
+
+  const T = temperature + 273.15;
+  const pRatio = pressure / REFERENCE_PRESSURE;
+  const tRatio = T / REFERENCE_TEMPERATURE;
+
+  // Molar concentration of water vapour in %
+  const psatRatio = Math.pow(10, -6.8346 * Math.pow(TRIPLE_POINT_TEMPERATURE / T, 1.261) + 4.6151);
+  const h = relativeHumidity * psatRatio / pRatio;
+
+  // Relaxation frequencies of oxygen and nitrogen
+  const frO = pRatio * (24 + 4.04e4 * h * (0.02 + h) / (0.391 + h));
+  const frN = pRatio * Math.pow(tRatio, -0.5) *
+    (9 + 280 * h * Math.exp(-4.170 * (Math.pow(tRatio, -1 / 3) - 1)));
+
+  const f2 = frequency * frequency;
+  return 8.686 * f2 * (
+    1.84e-11 / pRatio * Math.sqrt(tRatio) +
+    Math.pow(tRatio, -2.5) * (
+      0.01275 * Math.exp(-2239.1 / T) / (frO + f2 / frO) +
+      0.1068 * Math.exp(-3352.0 / T) / (frN + f2 / frN)
+    )
+  );
+}
+
+/**
+ * Air attenuation coefficients for every octave band
+ *
+ * @param conditions - Temperature, humidity and pressure
+ * @returns Attenuation in dB per meter, one value per band in OCTAVE_BANDS
+ */
+export function airAbsorptionBands(conditions: AtmosphericConditions = {}): BandValues {
+  return OCTAVE_BANDS.map(f => airAbsorptionCoefficient(f, conditions));
+}
+
+/**
+ * Annotate a detailed path with per-segment and total air attenuation
+ *
+ * Works for both 3D and 2D detailed paths. The path is modified in place.
+ *
+ * @param path - Detailed path to annotate
+ * @param conditions - Atmospheric conditions, or precomputed dB/m per band
+ * @returns The same path
+ *
+ * @example
+ * ```typescript
+ * const paths = solver2d.getDetailedPaths(listener)
+ *   .map(p => annotateAirAbsorption(p, { temperature: 22, relativeHumidity: 40 }));
+ * ```
+ */
+export function annotateAirAbsorption<T extends AirAbsorbingPath>(
+  path: T,
+  conditions: AtmosphericConditions | BandValues = {}
+): T {
+  const perMeter = Array.isArray(conditions) ? conditions : airAbsorptionBands(conditions);
+
+  let total = createBandValues(0);
+  for (const segment of path.segments) {
+    segment.airAttenuationDb = perMeter.map(a => a * segment.length);
+    total = addBandValues(total, segment.airAttenuationDb);
+  }
+  path.airAttenuationDb = total;
+
+  return path;
+}
@@ -0,0 +1,169 @@
+/**
+ * Higher-order ambisonic (HOA) encoding of traced paths
+ *
+ * Each arrival is encoded as a plane wave from its listener-local direction
+ * using real spherical harmonics in ACN channel order with SN3D (AmbiX)
+ * normalization, without the Condon-Shortley phase. Directions follow the
+ * ambisonic convention: azimuth counter-clockwise from the front, elevation
+ * upward, which matches the listener frame of Orientation3D.
+ */
+
+import type { DetailedReflectionPath3D } from '../core/types';
+import type { SphericalDirection } from '../core/orientation3d';
+import {
+  ImpulseResponseOptions,
+  PathArrival,
+  computePathArrivals,
+  renderMultichannelImpulseResponse
+} from './impulse-response';
+
+/**
+ * Spherical harmonic normalization: SN3D (AmbiX) or N3D
+ */
+export type AmbisonicNormalization = 'SN3D' | 'N3D';
+
+/**
+ * Options for rendering an ambisonic impulse response
+ */
+export interface AmbisonicOptions extends ImpulseResponseOptions {
+  order: number;                            // Ambisonic order, 0 to 3
+  normalization?: AmbisonicNormalization;   // Default: 'SN3D'
+}
+
+/** Highest supported ambisonic order */
+export const MAX_AMBISONIC_ORDER = 3;
+
+/**
+ * Number of channels for an ambisonic order: (order + 1)²
+ */
+export function ambisonicChannelCount(order: number): number {
+  return (order + 1) * (order + 1);
+}
+
+function validateOrder(order: number): void {
+  if (!Number.isInteger(order) || order < 0 || order > MAX_AMBISONIC_ORDER) {
+    throw new Error(`Ambisonics: order must be an integer in [0, ${MAX_AMBISONIC_ORDER}], got ${order}`);
+  }
+}
+
+/**
+ * Factorial for the small arguments used by the normalization terms
+ */
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+/**
+ * Associated Legendre functions P_l^m(x) for 0 ≤ m ≤ l ≤ order, without the
+ * Condon-Shortley phase, indexed [l][m]
+ */
+function associatedLegendre(order: number, x: number): number[][] {
+  const p: number[][] = [];
+  const s = Math.sqrt(Math.max(0, 1 - x * x));
+
+  for (let l = 0; l <= order; l++) {
+    p.push(new Array(l + 1).fill(0));
+  }
+  p[0][0] = 1;
+
+  for (let m = 1; m <= order; m++) {
+    // P_m^m = (2m - 1)!! · (1 - x²)^(m/2)
+    p[m][m] = (2 * m - 1) * s * p[m - 1][m - 1];
+  }
+  for (let m = 0; m < order; m++) {
+    p[m + 1][m] = (2 * m + 1) * x * p[m][m];
+  }
+  for (let m = 0; m <= order; m++) {
+    for (let l = m + 2; l <= order; l++) {
+      p[l][m] = ((2 * l - 1) * x * p[l - 1][m] - (l + m - 1) * p[l - 2][m]) / (l - m);
+    }
+  }
+
+  return p;
+}
+
+/**
+ * Ambisonic encoding gains for a plane wave from a direction
+ *
+ * Channel n = l² + l + m (ACN) holds
+ * N_l^|m| · P_l^|m|(sin elevation) · (cos(m·azimuth) for m ≥ 0, sin(|m|·azimuth) for m < 0).
+ *
+ * @param order - Ambisonic order, 0 to 3
+ * @param direction - Direction of arrival
+ * @param normalization - SN3D (default) or N3D
+ * @returns (order + 1)² gains in ACN order
+ */
+export function ambisonicCoefficients(
+  order: number,
+  direction: SphericalDirection,
+  normalization: AmbisonicNormalization = 'SN3D'
+): number[] {
+  validateOrder(order);
+
+  const legendre = associatedLegendre(order, Math.sin(direction.elevation));
+  const gains = new Array(ambisonicChannelCount(order)).fill(0);
+
+  for (let l = 0; l <= order; l++) {
+    for (let m = -l; m <= l; m++) {
+      const am = Math.abs(m);
+      let norm = Math.sqrt((m === 0 ? 1 : 2) * factorial(l - am) / factorial(l + am));
+      if (normalization === 'N3D') {
+        norm *= Math.sqrt(2 * l + 1);
+      }
+      const angular = m >= 0 ? Math.cos(am * direction.azimuth) : Math.sin(am * direction.azimuth);
+      gains[l * l + l + m] = norm * legendre[l][am] * angular;
+    }
+  }
+
+  return gains;
+}
+
+/**
+ * Render arrivals into an ambisonic impulse response
+ *
+ * Every arrival must carry a direction (see computePathArrivals).
+ *
+ * @param arrivals - Arrivals with directions
+ * @param options - Ambisonic order and normalization plus impulse response settings
+ * @returns (order + 1)² channels in ACN order
+ */
+export function renderAmbisonicImpulseResponse(
+  arrivals: PathArrival[],
+  options: AmbisonicOptions
+): Float32Array[] {
+  validateOrder(options.order);
+
+  return renderMultichannelImpulseResponse(
+    arrivals,
+    ambisonicChannelCount(options.order),
+    arrival => {
+      if (!arrival.direction) {
+        throw new Error('Ambisonics: every arrival needs a direction (use computePathArrivals on detailed paths)');
+      }
+      return ambisonicCoefficients(options.order, arrival.direction, options.normalization);
+    },
+    options
+  );
+}
+
+/**
+ * Build an ambisonic (B-format) impulse response directly from detailed 3D paths
+ *
+ * Directions are taken relative to the listener orientation passed to
+ * getDetailedPaths().
+ *
+ * @example
+ * ```typescript
+ * const paths = solver.getDetailedPaths(listener);
+ * const bformat = buildAmbisonicImpulseResponse(paths, { sampleRate: 48000, order: 3 });
+ * writeFileSync('room.ambix.wav', encodeWav(bformat, { sampleRate: 48000 }));
+ * ```
+ */
+export function buildAmbisonicImpulseResponse(
+  paths: DetailedReflectionPath3D[],
+  options: AmbisonicOptions
+): Float32Array[] {
+  return renderAmbisonicImpulseResponse(computePathArrivals(paths, options), options);
+}
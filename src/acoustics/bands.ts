@@ -0,0 +1,58 @@
+/**
+ * Octave-band definitions shared by the acoustic models
+ *
+ * Every per-band quantity in the library (absorption, scattering, losses,
+ * gains) is a plain number array aligned index-by-index with OCTAVE_BANDS.
+ */
+
+/**
+ * Per-band values, one entry per octave band in OCTAVE_BANDS
+ */
+export type BandValues = number[];
+
+/**
+ * Octave band centre frequencies in Hz (ISO 266 nominal values)
+ */
+export const OCTAVE_BANDS: readonly number[] = [125, 250, 500, 1000, 2000, 4000];
+
+/**
+ * Number of octave bands
+ */
+export const NUM_OCTAVE_BANDS = OCTAVE_BANDS.length;
+
+/**
+ * Create a band array with every band set to the same value
+ */
+export function createBandValues(value: number = 0): BandValues {
+  return new Array(NUM_OCTAVE_BANDS).fill(value);
+}
+
+/**
+ * Check that an array has one finite value per octave band
+ */
+export function isBandValues(values: unknown): values is BandValues {
+  return Array.isArray(values) &&
+    values.length === NUM_OCTAVE_BANDS &&
+    values.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+/**
+ * Add two band arrays element-wise
+ */
+export function addBandValues(a: BandValues, b: BandValues): BandValues {
+  return a.map((v, i) => v + b[i]);
+}
+
+/**
+ * Convert a per-band loss in dB to a linear energy factor
+ */
+export function lossDbToEnergy(db: number): number {
+  return Math.pow(10, -db / 10);
+}
+
+/**
+ * Convert a linear energy factor to a loss in dB
+ */
+export function energyToLossDb(energy: number): number {
+  return 10 * Math.log10(1 / energy);
+}
@@ -0,0 +1,185 @@
+/**
+ * Source directivity patterns
+ *
+ * Patterns are plain data so they can be stored in scene files:
+ * - first-order patterns: g(θ) = α + (1 - α)·cos θ, where θ is the angle
+ *   from the source's forward axis (omni α = 1 ... figure-of-eight α = 0)
+ * - balloon tables: per-band gains in dB on an azimuth × elevation grid,
+ *   as exported by loudspeaker measurement software
+ *
+ * Gains are linear pressure magnitudes, 1 on-axis, one value per octave band.
+ */
+
+import type { SphericalDirection } from '../core/orientation3d';
+import { BandValues, NUM_OCTAVE_BANDS, createBandValues } from './bands';
+
+/**
+ * Named first-order patterns
+ */
+export type FirstOrderPatternName =
+  | 'omni'
+  | 'subcardioid'
+  | 'cardioid'
+  | 'supercardioid'
+  | 'hypercardioid'
+  | 'figure8';
+
+/**
+ * Balloon directivity table
+ *
+ * gainsDb[band][elevationIndex][azimuthIndex] is the gain in dB relative to
+ * on-axis. Azimuths (degrees, ascending, spanning less than 360°) wrap
+ * around the circle; elevations (degrees, ascending, within [-90, 90]) are
+ * clamped at the ends of the table.
+ */
+export interface BalloonDirectivity {
+  type: 'balloon';
+  azimuths: number[];
+  elevations: number[];
+  gainsDb: number[][][];
+}
+
+/**
+ * A source directivity pattern
+ */
+export type DirectivityPattern =
+  | { type: FirstOrderPatternName }
+  | { type: 'firstOrder'; alpha: number }
+  | BalloonDirectivity;
+
+/** α for each named first-order pattern */
+const FIRST_ORDER_ALPHA: Readonly<Record<FirstOrderPatternName, number>> = {
+  omni: 1,
+  subcardioid: 0.7,
+  cardioid: 0.5,
+  supercardioid: 0.366,
+  hypercardioid: 0.25,
+  figure8: 0
+};
+
+/**
+ * Create a first-order pattern g(θ) = α + (1 - α)·cos θ
+ */
+export function firstOrderDirectivity(alpha: number): DirectivityPattern {
+  if (!(alpha >= 0 && alpha <= 1)) {
+    throw new Error(`Directivity: first-order alpha must be in [0, 1], got ${alpha}`);
+  }
+  return { type: 'firstOrder', alpha };
+}
+
+/**
+ * Create a balloon pattern, validating the table dimensions
+ *
+ * @param azimuths - Azimuth grid in degrees (ascending, span < 360)
+ * @param elevations - Elevation grid in degrees (ascending, within [-90, 90])
+ * @param gainsDb - Gains in dB indexed [band][elevation][azimuth]
+ */
+export function createBalloonDirectivity(
+  azimuths: number[],
+  elevations: number[],
+  gainsDb: number[][][]
+): BalloonDirectivity {
+  if (azimuths.length === 0 || elevations.length === 0) {
+    throw new Error('Directivity: balloon needs at least one azimuth and one elevation');
+  }
+  for (let i = 1; i < azimuths.length; i++) {
+    if (!(azimuths[i] > azimuths[i - 1])) {
+      throw new Error('Directivity: balloon azimuths must be strictly ascending');
+    }
+  }
+  if (azimuths[azimuths.length - 1] - azimuths[0] >= 360) {
+    throw new Error('Directivity: balloon azimuths must span less than 360 degrees');
+  }
+  for (let i = 0; i < elevations.length; i++) {
+    if (elevations[i] < -90 || elevations[i] > 90 || (i > 0 && !(elevations[i] > elevations[i - 1]))) {
+      throw new Error('Directivity: balloon elevations must be strictly ascending within [-90, 90]');
+    }
+  }
+  if (gainsDb.length !== NUM_OCTAVE_BANDS) {
+    throw new Error(`Directivity: balloon needs ${NUM_OCTAVE_BANDS} bands, got ${gainsDb.length}`);
+  }
+  for (const band of gainsDb) {
+    if (band.length !== elevations.length || band.some(row => row.length !== azimuths.length)) {
+      throw new Error(
+        `Directivity: balloon gains must be ${elevations.length} elevations × ${azimuths.length} azimuths per band`
+      );
+    }
+  }
+
+  return {
+    type: 'balloon',
+    azimuths: [...azimuths],
+    elevations: [...elevations],
+    gainsDb: gainsDb.map(band => band.map(row => [...row]))
+  };
+}
+
+/**
+ * Evaluate a directivity pattern in a source-local direction
+ *
+ * @param pattern - Directivity pattern
+ * @param direction - Direction relative to the source's forward axis
+ * @returns Linear pressure gain per octave band
+ */
+export function directivityGain(
+  pattern: DirectivityPattern,
+  direction: SphericalDirection
+): BandValues {
+  if (pattern.type === 'balloon') {
+    return balloonGain(pattern, direction);
+  }
+
+  const alpha = pattern.type === 'firstOrder' ? pattern.alpha : FIRST_ORDER_ALPHA[pattern.type];
+  if (alpha === undefined) {
+    throw new Error(`Directivity: unknown pattern type "${(pattern as { type: string }).type}"`);
+  }
+
+  // Angle from the forward axis
+  const cosTheta = Math.cos(direction.azimuth) * Math.cos(direction.elevation);
+  return createBandValues(Math.abs(alpha + (1 - alpha) * cosTheta));
+}
+
+/**
+ * Bilinear interpolation of a balloon table (dB), converted to linear gain
+ */
+function balloonGain(pattern: BalloonDirectivity, direction: SphericalDirection): BandValues {
+  const { azimuths, elevations, gainsDb } = pattern;
+  const [e0, e1, et] = bracket(elevations, direction.elevation * 180 / Math.PI);
+
+  // Azimuth in degrees, wrapped into [azimuths[0], azimuths[0] + 360)
+  const first = azimuths[0];
+  const az = first + ((((direction.azimuth * 180 / Math.PI) - first) % 360) + 360) % 360;
+
+  let a0: number, a1: number, at: number;
+  const last = azimuths.length - 1;
+  if (az >= azimuths[last]) {
+    // Between the last grid azimuth and the first one, one turn later
+    const span = first + 360 - azimuths[last];
+    a0 = last;
+    a1 = 0;
+    at = span > 0 ? (az - azimuths[last]) / span : 0;
+  } else {
+    [a0, a1, at] = bracket(azimuths, az);
+  }
+
+  return gainsDb.map(band => {
+    const low = band[e0][a0] + (band[e0][a1] - band[e0][a0]) * at;
+    const high = band[e1][a0] + (band[e1][a1] - band[e1][a0]) * at;
+    return Math.pow(10, (low + (high - low) * et) / 20);
+  });
+}
+
+/**
+ * Find the grid cell containing a value: [lowerIndex, upperIndex, fraction]
+ *
+ * Values outside the grid clamp to the nearest end.
+ */
+function bracket(grid: number[], value: number): [number, number, number] {
+  const last = grid.length - 1;
+  if (value <= grid[0]) return [0, 0, 0];
+  if (value >= grid[last]) return [last, last, 0];
+
+  let i = 0;
+  while (grid[i + 1] < value) i++;
+  return [i, i + 1, (value - grid[i]) / (grid[i + 1] - grid[i])];
+}
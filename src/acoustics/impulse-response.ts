@@ -0,0 +1,409 @@
+/**
+ * Room impulse response synthesis from beam-traced paths
+ *
+ * Each detailed path becomes one arrival: a delayed impulse scaled by
+ * spherical spreading (1/r) and the path's per-band losses. Arrivals are
+ * placed on the sample grid with fractional-delay interpolation so that
+ * arrival times are not quantized to whole samples.
+ */
+
+import type { DetailedReflectionPath3D, ReflectionPath3D } from '../core/types';
+import type { SphericalDirection } from '../core/orientation3d';
+import type { ReflectionPath, DetailedReflectionPath } from '../beamtrace2d';
+import { BandValues, NUM_OCTAVE_BANDS, createBandValues } from './bands';
+
+/**
+ * A single sound arrival at the listener
+ */
+export interface PathArrival {
+  time: number;              // Arrival time in seconds
+  distance: number;          // Total path length in meters
+  reflectionOrder: number;   // Number of reflections along the path
+  amplitudes: BandValues;    // Pressure amplitude per octave band (1.0 = source level at reference distance)
+  direction?: SphericalDirection; // Listener-local direction of arrival (detailed paths only)
+}
+
+/**
+ * Options for converting paths to arrivals
+ */
+export interface ArrivalOptions {
+  speedOfSound?: number;       // Speed of sound in m/s (default: 343)
+  referenceDistance?: number;  // Distance at which the source has unit amplitude (default: 1 m)
+  spreading?: SpreadingModel;  // Geometric spreading law (default: 'spherical')
+}
+
+/**
+ * Geometric spreading law: spherical (1/r) or cylindrical (1/√r, a 2D line source)
+ */
+export type SpreadingModel = 'spherical' | 'cylindrical';
+
+/**
+ * Fractional delay interpolation used to place arrivals on the sample grid
+ */
+export type FractionalDelayMethod = 'sinc' | 'linear' | 'nearest';
+
+/**
+ * Options for rendering an echogram
+ */
+export interface EchogramOptions {
+  sampleRate: number;    // Bins per second
+  duration?: number;     // Length in seconds (default: fits the last arrival)
+  band?: number;         // Octave band index to render (default: broadband)
+}
+
+/**
+ * Options for rendering an impulse response
+ */
+export interface ImpulseResponseOptions extends ArrivalOptions {
+  sampleRate: number;                       // Samples per second
+  duration?: number;                        // Length in seconds (default: fits the last arrival)
+  band?: number;                            // Octave band index to render (default: broadband)
+  interpolation?: FractionalDelayMethod;    // Fractional delay method (default: 'sinc')
+  sincHalfWidth?: number;                   // Windowed-sinc half width in samples (default: 8)
+}
+
+/** Default speed of sound in m/s */
+const DEFAULT_SPEED_OF_SOUND = 343;
+
+/** Default windowed-sinc half width in samples */
+const DEFAULT_SINC_HALF_WIDTH = 8;
+
+/** Distances below this are clamped to avoid infinite 1/r gain */
+const MIN_DISTANCE = 1e-6;
+
+/**
+ * Amplitude factor for geometric spreading over a path length
+ */
+function spreadingGain(length: number, options: ArrivalOptions): number {
+  const ratio = (options.referenceDistance ?? 1) / Math.max(length, MIN_DISTANCE);
+  return options.spreading === 'cylindrical' ? Math.sqrt(ratio) : ratio;
+}
+
+/**
+ * Build an arrival with equal amplitude in every band
+ */
+function uniformArrival(length: number, reflectionOrder: number, options: ArrivalOptions): PathArrival {
+  return {
+    time: length / (options.speedOfSound ?? DEFAULT_SPEED_OF_SOUND),
+    distance: length,
+    reflectionOrder,
+    amplitudes: createBandValues(spreadingGain(length, options))
+  };
+}
+
+/**
+ * Scale band amplitudes by a per-band loss in dB
+ */
+function applyLossDb(amplitudes: BandValues, lossDb: number[]): void {
+  for (let b = 0; b < NUM_OCTAVE_BANDS; b++) {
+    amplitudes[b] *= Math.pow(10, -lossDb[b] / 20);
+  }
+}
+
+/**
+ * Convert detailed paths into arrivals
+ *
+ * Amplitude per band = (referenceDistance / pathLength) · 10^(-loss/20),
+ * where loss is the path's cumulative reflection loss, transmission loss and
+ * air attenuation in dB (each if present), times the source directivity gain
+ * and, for diffracted paths, the diffraction gain.
+ * Accepts detailed paths from both the 3D and the 2D solver; 2D walls carry
+ * no materials, so 2D paths get spreading only. Arrivals also carry the
+ * listener-local direction of arrival.
+ */
+export function computePathArrivals(
+  paths: Array<DetailedReflectionPath3D | DetailedReflectionPath>,
+  options: ArrivalOptions = {}
+): PathArrival[] {
+  return paths.map(path => {
+    const arrival = uniformArrival(path.totalPathLength, path.reflectionCount, options);
+
+    if ('reflectionLossDb' in path && path.reflectionLossDb) {
+      applyLossDb(arrival.amplitudes, path.reflectionLossDb);
+    }
+    if ('transmissionLossDb' in path && path.transmissionLossDb) {
+      applyLossDb(arrival.amplitudes, path.transmissionLossDb);
+    }
+    if (path.airAttenuationDb) {
+      applyLossDb(arrival.amplitudes, path.airAttenuationDb);
+    }
+    if (path.sourceDirectivityGain) {
+      for (let b = 0; b < NUM_OCTAVE_BANDS; b++) {
+        arrival.amplitudes[b] *= path.sourceDirectivityGain[b];
+      }
+    }
+    if ('diffractionGain' in path && path.diffractionGain) {
+      for (let b = 0; b < NUM_OCTAVE_BANDS; b++) {
+        arrival.amplitudes[b] *= path.diffractionGain[b];
+      }
+    }
+
+    if ('arrivalDirection' in path) {
+      arrival.direction = { azimuth: path.arrivalDirection.azimuth, elevation: path.arrivalDirection.elevation };
+    } else if (path.segments.length > 0) {
+      // 2D: in-plane direction of the first segment, measured from +x toward +y
+      const { startPoint, endPoint } = path.segments[0];
+      arrival.direction = { azimuth: Math.atan2(endPoint[1] - startPoint[1], endPoint[0] - startPoint[0]), elevation: 0 };
+    }
+
+    return arrival;
+  });
+}
+
+/**
+ * Convert simple 3D paths (as returned by getPaths) into arrivals
+ *
+ * Simple paths carry no material information, so only spreading is applied.
+ */
+export function computeArrivals3D(
+  paths: ReflectionPath3D[],
+  options: ArrivalOptions = {}
+): PathArrival[] {
+  return paths.map(path => {
+    let length = 0;
+    let order = 0;
+    for (let i = 0; i < path.length - 1; i++) {
+      const [ax, ay, az] = path[i].position;
+      const [bx, by, bz] = path[i + 1].position;
+      length += Math.sqrt((bx - ax) ** 2 + (by - ay) ** 2 + (bz - az) ** 2);
+    }
+    for (const point of path) {
+      if (point.polygonId !== null) order++;
+    }
+    return uniformArrival(length, order, options);
+  });
+}
+
+/**
+ * Convert 2D paths (as returned by the 2D Solver's getPaths) into arrivals
+ *
+ * Use `spreading: 'cylindrical'` to treat the 2D scene as an infinite line
+ * source; the default spherical law treats it as a plan view of a 3D room.
+ */
+export function computeArrivals2D(
+  paths: ReflectionPath[],
+  options: ArrivalOptions = {}
+): PathArrival[] {
+  return paths.map(path => {
+    let length = 0;
+    let order = 0;
+    for (let i = 0; i < path.length - 1; i++) {
+      length += Math.hypot(path[i + 1][0] - path[i][0], path[i + 1][1] - path[i][1]);
+    }
+    // Diffraction vertices carry a fourth element and are not reflections
+    for (const point of path) {
+      if (point.length === 3 && point[2] !== null) order++;
+    }
+    return uniformArrival(length, order, options);
+  });
+}
+
+/**
+ * Get the amplitude of an arrival for one band, or the broadband amplitude
+ *
+ * The broadband amplitude is the RMS over bands, so that the rendered energy
+ * equals the mean band energy.
+ */
+export function arrivalAmplitude(arrival: PathArrival, band?: number): number {
+  if (band !== undefined) {
+    return arrival.amplitudes[band];
+  }
+  let energy = 0;
+  for (const a of arrival.amplitudes) {
+    energy += a * a;
+  }
+  return Math.sqrt(energy / arrival.amplitudes.length);
+}
+
+/**
+ * Add an impulse at a fractional sample position into a buffer
+ *
+ * @param buffer - Output buffer (modified in place)
+ * @param position - Position in samples (may be fractional)
+ * @param amplitude - Impulse amplitude
+ * @param method - Interpolation method
+ * @param halfWidth - Windowed-sinc half width in samples
+ */
+export function addFractionalImpulse(
+  buffer: Float32Array,
+  position: number,
+  amplitude: number,
+  method: FractionalDelayMethod = 'sinc',
+  halfWidth: number = DEFAULT_SINC_HALF_WIDTH
+): void {
+  if (method === 'nearest') {
+    const index = Math.round(position);
+    if (index >= 0 && index < buffer.length) {
+      buffer[index] += amplitude;
+    }
+    return;
+  }
+
+  if (method === 'linear') {
+    const index = Math.floor(position);
+    const frac = position - index;
+    if (index >= 0 && index < buffer.length) {
+      buffer[index] += amplitude * (1 - frac);
+    }
+    if (index + 1 >= 0 && index + 1 < buffer.length) {
+      buffer[index + 1] += amplitude * frac;
+    }
+    return;
+  }
+
+  // Hann-windowed sinc centered on the fractional position
+  const start = Math.floor(position) - halfWidth + 1;
+  const end = Math.floor(position) + halfWidth;
+  for (let n = Math.max(0, start); n <= Math.min(buffer.length - 1, end); n++) {
+    const x = n - position;
+    if (Math.abs(x) >= halfWidth) continue;
+    const window = 0.5 * (1 + Math.cos(Math.PI * x / halfWidth));
+    buffer[n] += amplitude * sinc(x) * window;
+  }
+}
+
+/**
+ * Normalized sinc: sin(πx) / (πx)
+ */
+function sinc(x: number): number {
+  if (Math.abs(x) < 1e-12) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+/**
+ * Number of samples needed to hold all arrivals plus a tail
+ */
+function bufferLength(
+  arrivals: PathArrival[],
+  sampleRate: number,
+  duration: number | undefined,
+  tail: number
+): number {
+  if (duration !== undefined) {
+    return Math.max(0, Math.ceil(duration * sampleRate));
+  }
+  let maxTime = 0;
+  for (const arrival of arrivals) {
+    maxTime = Math.max(maxTime, arrival.time);
+  }
+  return Math.ceil(maxTime * sampleRate) + tail;
+}
+
+/**
+ * Validate the sample rate, band and sinc half width of render options
+ */
+function validateRenderOptions(
+  options: { sampleRate: number; band?: number; sincHalfWidth?: number },
+  context: string
+): void {
+  if (!(options.sampleRate > 0)) {
+    throw new Error(`${context}: sampleRate must be positive`);
+  }
+  if (options.band !== undefined && (options.band < 0 || options.band >= NUM_OCTAVE_BANDS)) {
+    throw new Error(`${context}: band must be in [0, ${NUM_OCTAVE_BANDS - 1}]`);
+  }
+  const { sincHalfWidth } = options;
+  if (sincHalfWidth !== undefined && !(Number.isInteger(sincHalfWidth) && sincHalfWidth > 0)) {
+    throw new Error(`${context}: sincHalfWidth must be a positive integer, got ${sincHalfWidth}`);
+  }
+}
+
+/**
+ * Render arrivals into an impulse response
+ *
+ * @param arrivals - Arrivals to render
+ * @param options - Sample rate, duration, band and interpolation settings
+ * @returns Impulse response samples
+ */
+export function renderImpulseResponse(
+  arrivals: PathArrival[],
+  options: ImpulseResponseOptions
+): Float32Array {
+  return renderMultichannelImpulseResponse(arrivals, 1, () => [1], options)[0];
+}
+
+/**
+ * Render arrivals into several channels with per-arrival channel gains
+ *
+ * Each arrival is placed in every channel, scaled by its amplitude and the
+ * gain returned for that channel (e.g. panning or ambisonic encoding gains).
+ *
+ * @param arrivals - Arrivals to render
+ * @param channels - Number of output channels
+ * @param channelGains - Gain per channel for an arrival
+ * @param options - Sample rate, duration, band and interpolation settings
+ * @returns One buffer per channel
+ */
+export function renderMultichannelImpulseResponse(
+  arrivals: PathArrival[],
+  channels: number,
+  channelGains: (arrival: PathArrival) => number[],
+  options: ImpulseResponseOptions
+): Float32Array[] {
+  validateRenderOptions(options, 'Impulse response');
+
+  const method = options.interpolation ?? 'sinc';
+  const halfWidth = options.sincHalfWidth ?? DEFAULT_SINC_HALF_WIDTH;
+  const length = bufferLength(arrivals, options.sampleRate, options.duration, halfWidth + 1);
+  const buffers: Float32Array[] = [];
+  for (let ch = 0; ch < channels; ch++) {
+    buffers.push(new Float32Array(length));
+  }
+
+  for (const arrival of arrivals) {
+    const position = arrival.time * options.sampleRate;
+    const amplitude = arrivalAmplitude(arrival, options.band);
+    const gains = channelGains(arrival);
+    for (let ch = 0; ch < channels; ch++) {
+      if (gains[ch] !== 0) {
+        addFractionalImpulse(buffers[ch], position, amplitude * gains[ch], method, halfWidth);
+      }
+    }
+  }
+
+  return buffers;
+}
+
+/**
+ * Render arrivals into an energy echogram
+ *
+ * Each bin holds the summed squared amplitude of the arrivals falling in it,
+ * without fractional-delay interpolation, so the total energy is preserved.
+ *
+ * @param arrivals - Arrivals to render
+ * @param options - Bin rate, duration and band
+ * @returns Energy per bin
+ */
+export function renderEchogram(
+  arrivals: PathArrival[],
+  options: EchogramOptions
+): Float32Array {
+  validateRenderOptions(options, 'Echogram');
+
+  const buffer = new Float32Array(bufferLength(arrivals, options.sampleRate, options.duration, 1));
+  for (const arrival of arrivals) {
+    const index = Math.floor(arrival.time * options.sampleRate);
+    if (index >= 0 && index < buffer.length) {
+      const amplitude = arrivalAmplitude(arrival, options.band);
+      buffer[index] += amplitude * amplitude;
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Build a room impulse response directly from detailed paths
+ *
+ * @example
+ * ```typescript
+ * const paths = solver.getDetailedPaths(listener);
+ * const rir = buildImpulseResponse(paths, { sampleRate: 48000 });
+ * ```
+ */
+export function buildImpulseResponse(
+  paths: Array<DetailedReflectionPath3D | DetailedReflectionPath>,
+  options: ImpulseResponseOptions
+): Float32Array {
+  return renderImpulseResponse(computePathArrivals(paths, options), options);
+}
@@ -0,0 +1,263 @@
+/**
+ * Acoustic material database for BeamTrace3D
+ *
+ * Maps the numeric Polygon3D.materialId to octave-band absorption and
+ * scattering coefficients. The solver consults the database when building
+ * detailed paths so each path carries its cumulative reflection loss.
+ *
+ * Coefficients are energy ratios in [0, 1], one value per band in OCTAVE_BANDS.
+ * Materials with a transmission loss spectrum (in dB) are transmissive: with
+ * transmission enabled, the solver lets paths pass through their polygons.
+ */
+
+import { BandValues, NUM_OCTAVE_BANDS, OCTAVE_BANDS, createBandValues, isBandValues } from './bands';
+
+/**
+ * Octave-band acoustic properties of a surface material
+ */
+export interface AcousticMaterial {
+  name: string;              // Human-readable name
+  absorption: BandValues;    // Energy absorption coefficient α per band
+  scattering: BandValues;    // Scattering coefficient s per band
+  transmissionLoss?: BandValues; // Sound transmission loss in dB per band (transmissive materials only)
+}
+
+/**
+ * Create a material, validating its coefficient arrays
+ *
+ * @param name - Material name
+ * @param absorption - Absorption coefficients, one per octave band
+ * @param scattering - Scattering coefficients (default: 0 in every band)
+ * @param transmissionLoss - Transmission loss in dB per band (default: opaque)
+ */
+export function createMaterial(
+  name: string,
+  absorption: BandValues,
+  scattering: BandValues = createBandValues(0),
+  transmissionLoss?: BandValues
+): AcousticMaterial {
+  validateCoefficients(name, 'absorption', absorption);
+  validateCoefficients(name, 'scattering', scattering);
+  const material: AcousticMaterial = { name, absorption: [...absorption], scattering: [...scattering] };
+  if (transmissionLoss !== undefined) {
+    validateTransmissionLoss(name, transmissionLoss);
+    material.transmissionLoss = [...transmissionLoss];
+  }
+  return material;
+}
+
+function validateCoefficients(name: string, field: string, values: BandValues): void {
+  if (!isBandValues(values)) {
+    throw new Error(
+      `Material "${name}": ${field} must have ${NUM_OCTAVE_BANDS} values (${OCTAVE_BANDS.join(', ')} Hz)`
+    );
+  }
+  for (const v of values) {
+    if (v < 0 || v > 1) {
+      throw new Error(`Material "${name}": ${field} coefficients must be in [0, 1]`);
+    }
+  }
+}
+
+function validateTransmissionLoss(name: string, values: BandValues): void {
+  if (!isBandValues(values)) {
+    throw new Error(
+      `Material "${name}": transmissionLoss must have ${NUM_OCTAVE_BANDS} values (${OCTAVE_BANDS.join(', ')} Hz)`
+    );
+  }
+  for (const v of values) {
+    if (!Number.isFinite(v) || v < 0) {
+      throw new Error(`Material "${name}": transmissionLoss must be finite and non-negative (dB)`);
+    }
+  }
+}
+
+/**
+ * Named material presets
+ *
+ * Absorption values are typical published octave-band data (125 Hz - 4 kHz).
+ * The partition and door presets also carry typical transmission loss data.
+ */
+export const MATERIAL_PRESETS: Readonly<Record<string, AcousticMaterial>> = {
+  rigid: createMaterial('rigid', [0, 0, 0, 0, 0, 0]),
+  concrete: createMaterial(
+    'concrete',
+    [0.01, 0.01, 0.02, 0.02, 0.02, 0.05],
+    [0.05, 0.05, 0.05, 0.05, 0.05, 0.05]
+  ),
+  brick: createMaterial(
+    'brick',
+    [0.03, 0.03, 0.03, 0.04, 0.05, 0.07],
+    [0.05, 0.05, 0.1, 0.1, 0.15, 0.2]
+  ),
+  plaster: createMaterial(
+    'plaster',
+    [0.01, 0.02, 0.02, 0.03, 0.04, 0.05],
+    [0.05, 0.05, 0.05, 0.05, 0.05, 0.05]
+  ),
+  gypsum: createMaterial(
+    'gypsum',
+    [0.29, 0.1, 0.05, 0.04, 0.07, 0.09],
+    [0.05, 0.05, 0.05, 0.05, 0.05, 0.05]
+  ),
+  glass: createMaterial(
+    'glass',
+    [0.18, 0.06, 0.04, 0.03, 0.02, 0.02],
+    [0.05, 0.05, 0.05, 0.05, 0.05, 0.05]
+  ),
+  wood: createMaterial(
+    'wood',
+    [0.15, 0.11, 0.1, 0.07, 0.06, 0.07],
+    [0.1, 0.1, 0.1, 0.1, 0.1, 0.1]
+  ),
+  carpet: createMaterial(
+    'carpet',
+    [0.02, 0.06, 0.14, 0.37, 0.6, 0.65],
+    [0.1, 0.1, 0.15, 0.2, 0.25, 0.3]
+  ),
+  curtain: createMaterial(
+    'curtain',
+    [0.07, 0.31, 0.49, 0.75, 0.7, 0.6],
+    [0.1, 0.15, 0.2, 0.3, 0.4, 0.5]
+  ),
+  acousticTile: createMaterial(
+    'acousticTile',
+    [0.5, 0.7, 0.6, 0.7, 0.7, 0.5],
+    [0.1, 0.1, 0.15, 0.2, 0.2, 0.2]
+  ),
+  audience: createMaterial(
+    'audience',
+    [0.39, 0.57, 0.8, 0.94, 0.92, 0.87],
+    [0.3, 0.4, 0.5, 0.6, 0.7, 0.7]
+  ),
+  gypsumPartition: createMaterial(
+    'gypsumPartition',
+    [0.29, 0.1, 0.05, 0.04, 0.07, 0.09],
+    [0.05, 0.05, 0.05, 0.05, 0.05, 0.05],
+    [15, 26, 36, 43, 45, 38]
+  ),
+  door: createMaterial(
+    'door',
+    [0.14, 0.1, 0.06, 0.08, 0.1, 0.1],
+    [0.05, 0.05, 0.05, 0.05, 0.05, 0.05],
+    [13, 17, 20, 22, 23, 25]
+  )
+};
+
+/**
+ * Registry mapping Polygon3D.materialId values to acoustic materials
+ *
+ * Polygons without a materialId, or with an id that has not been registered,
+ * resolve to the database's default material (rigid unless specified).
+ *
+ * @example
+ * ```typescript
+ * const materials = new MaterialDatabase()
+ *   .registerPreset(1, 'concrete')
+ *   .registerPreset(2, 'carpet');
+ * const room = createShoeboxRoom(10, 8, 3, 2, 1, 1);
+ * const solver = new OptimizedSolver3D(room, source, { materials });
+ * ```
+ */
+export class MaterialDatabase {
+  private readonly materials = new Map<number, AcousticMaterial>();
+  private readonly defaultMaterial: AcousticMaterial;
+
+  /**
+   * @param defaultMaterial - Material used for unassigned polygons (default: rigid)
+   */
+  constructor(defaultMaterial: AcousticMaterial = MATERIAL_PRESETS.rigid) {
+    this.defaultMaterial = defaultMaterial;
+  }
+
+  /**
+   * Register a material under a numeric id (replaces any existing entry)
+   */
+  register(id: number, material: AcousticMaterial): this {
+    if (!Number.isInteger(id)) {
+      throw new Error(`MaterialDatabase: material id must be an integer, got ${id}`);
+    }
+    this.materials.set(
+      id,
+      createMaterial(material.name, material.absorption, material.scattering, material.transmissionLoss)
+    );
+    return this;
+  }
+
+  /**
+   * Register one of the named MATERIAL_PRESETS under a numeric id
+   */
+  registerPreset(id: number, presetName: string): this {
+    const preset = MATERIAL_PRESETS[presetName];
+    if (!preset) {
+      throw new Error(
+        `MaterialDatabase: unknown preset "${presetName}" (available: ${Object.keys(MATERIAL_PRESETS).join(', ')})`
+      );
+    }
+    return this.register(id, preset);
+  }
+
+  /**
+   * Get the material registered under an id, if any
+   */
+  get(id: number): AcousticMaterial | undefined {
+    return this.materials.get(id);
+  }
+
+  /**
+   * Check whether a material is registered under an id
+   */
+  has(id: number): boolean {
+    return this.materials.has(id);
+  }
+
+  /**
+   * Remove a material from the database
+   */
+  remove(id: number): boolean {
+    return this.materials.delete(id);
+  }
+
+  /**
+   * Resolve a polygon's material id, falling back to the default material
+   */
+  resolve(materialId: number | undefined): AcousticMaterial {
+    if (materialId === undefined) return this.defaultMaterial;
+    return this.materials.get(materialId) ?? this.defaultMaterial;
+  }
+
+  /**
+   * Get the fallback material for unassigned polygons
+   */
+  getDefault(): AcousticMaterial {
+    return this.defaultMaterial;
+  }
+
+  /**
+   * Registered material ids in ascending order
+   */
+  ids(): number[] {
+    return [...this.materials.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * Number of registered materials (excluding the default)
+   */
+  get size(): number {
+    return this.materials.size;
+  }
+}
+
+/**
+ * Reflection loss of a single bounce in dB per band: -10·log10(1 - α)
+ */
+export function reflectionLossDb(material: AcousticMaterial): BandValues {
+  return material.absorption.map(a => 10 * Math.log10(1 / (1 - a)));
+}
+
+/**
+ * Check whether a material lets sound through (has a transmission loss spectrum)
+ */
+export function isTransmissive(material: AcousticMaterial): boolean {
+  return material.transmissionLoss !== undefined;
+}
@@ -0,0 +1,212 @@
+/**
+ * ISO 3382-1 room-acoustic parameters from path arrivals
+ *
+ * Decay times (EDT, T20, T30) are linear-regression fits to the Schroeder
+ * backward-integrated energy decay curve. Energy ratios (C50, C80, D50) and
+ * centre time (Ts) are computed exactly from the arrivals.
+ *
+ * All times are measured from the first arrival (normally the direct sound).
+ * Beam tracing stops at maxReflectionOrder, so the late tail is truncated:
+ * decay times are only meaningful when the traced order covers at least the
+ * required dynamic range (35 dB for T30).
+ */
+
+import { NUM_OCTAVE_BANDS } from './bands';
+import { PathArrival, arrivalAmplitude } from './impulse-response';
+
+/**
+ * Room-acoustic parameters for one band
+ *
+ * Decay times are NaN when the decay curve does not reach the end of their
+ * evaluation range. Energy ratios are in dB, D50 is a fraction in [0, 1].
+ */
+export interface RoomAcousticParameters {
+  edt: number;   // Early decay time in seconds (0 to -10 dB, ×6)
+  t20: number;   // Reverberation time in seconds (-5 to -25 dB, ×3)
+  t30: number;   // Reverberation time in seconds (-5 to -35 dB, ×2)
+  c50: number;   // Clarity for speech in dB (early/late split at 50 ms)
+  c80: number;   // Clarity for music in dB (early/late split at 80 ms)
+  d50: number;   // Definition: fraction of energy in the first 50 ms
+  ts: number;    // Centre time in seconds
+}
+
+/**
+ * Room-acoustic parameters per octave band and broadband
+ */
+export interface RoomParameterReport {
+  bands: RoomAcousticParameters[];    // One entry per band in OCTAVE_BANDS
+  broadband: RoomAcousticParameters;  // From the mean band energy
+}
+
+/**
+ * Options for computing room-acoustic parameters
+ */
+export interface RoomParameterOptions {
+  resolution?: number;   // Decay curve time step in seconds (default: 0.1 ms)
+}
+
+/** Default decay curve time step in seconds */
+const DEFAULT_RESOLUTION = 1e-4;
+
+/**
+ * Schroeder backward integration of an energy echogram
+ *
+ * @param energies - Energy per time bin
+ * @returns Decay curve in dB relative to the total energy (0 dB at index 0,
+ *          -Infinity once all energy has arrived)
+ */
+export function schroederDecay(energies: ArrayLike<number>): Float64Array {
+  const curve = new Float64Array(energies.length);
+  let remaining = 0;
+  for (let i = energies.length - 1; i >= 0; i--) {
+    remaining += energies[i];
+    curve[i] = remaining;
+  }
+
+  const total = curve.length > 0 ? curve[0] : 0;
+  for (let i = 0; i < curve.length; i++) {
+    curve[i] = total > 0 && curve[i] > 0 ? 10 * Math.log10(curve[i] / total) : -Infinity;
+  }
+  return curve;
+}
+
+/**
+ * Fit a decay time to a section of a Schroeder decay curve
+ *
+ * Least-squares line through the curve points between startDb and endDb,
+ * extrapolated to a 60 dB decay.
+ *
+ * @param curve - Decay curve in dB (as returned by schroederDecay)
+ * @param timeStep - Time between curve points in seconds
+ * @param startDb - Start of the evaluation range (e.g. -5)
+ * @param endDb - End of the evaluation range (e.g. -35)
+ * @returns Decay time in seconds, or NaN if the curve has no finite point
+ *          below endDb
+ */
+export function decayTime(
+  curve: ArrayLike<number>,
+  timeStep: number,
+  startDb: number,
+  endDb: number
+): number {
+  let n = 0;
+  let sumT = 0;
+  let sumL = 0;
+  let sumTT = 0;
+  let sumTL = 0;
+  let reachedEnd = false;
+
+  for (let i = 0; i < curve.length; i++) {
+    const level = curve[i];
+    if (level > startDb) continue;
+    if (level < endDb) {
+      // The final -Infinity step only marks the end of the data
+      reachedEnd = Number.isFinite(level);
+      break;
+    }
+    const t = i * timeStep;
+    n++;
+    sumT += t;
+    sumL += level;
+    sumTT += t * t;
+    sumTL += t * level;
+  }
+
+  if (!reachedEnd || n < 2) return NaN;
+
+  const denominator = n * sumTT - sumT * sumT;
+  if (denominator <= 0) return NaN;
+
+  const slope = (n * sumTL - sumT * sumL) / denominator;
+  return slope < 0 ? -60 / slope : NaN;
+}
+
+/**
+ * Compute room-acoustic parameters from (time, energy) pairs
+ *
+ * @param times - Arrival times in seconds
+ * @param energies - Arrival energies (squared amplitudes)
+ * @param resolution - Decay curve time step in seconds
+ */
+function parametersFromEnergies(
+  times: number[],
+  energies: number[],
+  resolution: number
+): RoomAcousticParameters {
+  let t0 = Infinity;
+  let tEnd = -Infinity;
+  for (const t of times) {
+    t0 = Math.min(t0, t);
+    tEnd = Math.max(tEnd, t);
+  }
+
+  let total = 0;
+  let early50 = 0;
+  let early80 = 0;
+  let moment = 0;
+  for (let i = 0; i < times.length; i++) {
+    const t = times[i] - t0;
+    const e = energies[i];
+    total += e;
+    moment += t * e;
+    if (t < 0.05) early50 += e;
+    if (t < 0.08) early80 += e;
+  }
+
+  if (!(total > 0)) {
+    return { edt: NaN, t20: NaN, t30: NaN, c50: NaN, c80: NaN, d50: NaN, ts: NaN };
+  }
+
+  // Bin relative to the first arrival; one extra bin so the curve reaches -Infinity
+  const bins = new Float64Array(Math.floor((tEnd - t0) / resolution) + 2);
+  for (let i = 0; i < times.length; i++) {
+    bins[Math.floor((times[i] - t0) / resolution)] += energies[i];
+  }
+  const curve = schroederDecay(bins);
+
+  return {
+    edt: decayTime(curve, resolution, 0, -10),
+    t20: decayTime(curve, resolution, -5, -25),
+    t30: decayTime(curve, resolution, -5, -35),
+    c50: 10 * Math.log10(early50 / (total - early50)),
+    c80: 10 * Math.log10(early80 / (total - early80)),
+    d50: early50 / total,
+    ts: moment / total
+  };
+}
+
+/**
+ * Compute ISO 3382-style parameters per octave band and broadband
+ *
+ * Band energies are the squared per-band amplitudes, so material absorption
+ * is reflected in the band results. The broadband result uses the mean band
+ * energy (see arrivalAmplitude).
+ *
+ * @param arrivals - Arrivals from computePathArrivals or computeArrivals2D/3D
+ * @param options - Decay curve resolution
+ *
+ * @example
+ * ```typescript
+ * const arrivals = computePathArrivals(solver.getDetailedPaths(listener));
+ * const { bands, broadband } = computeRoomParameters(arrivals);
+ * console.log(`T30 @ 1 kHz: ${bands[3].t30.toFixed(2)} s, C80: ${broadband.c80.toFixed(1)} dB`);
+ * ```
+ */
+export function computeRoomParameters(
+  arrivals: PathArrival[],
+  options: RoomParameterOptions = {}
+): RoomParameterReport {
+  const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+  if (!(resolution > 0)) {
+    throw new Error('Room parameters: resolution must be positive');
+  }
+
+  const times = arrivals.map(a => a.time);
+  const bands: RoomAcousticParameters[] = [];
+  for (let b = 0; b < NUM_OCTAVE_BANDS; b++) {
+    bands.push(parametersFromEnergies(times, arrivals.map(a => a.amplitudes[b] ** 2), resolution));
+  }
+  const broadband = parametersFromEnergies(times, arrivals.map(a => arrivalAmplitude(a) ** 2), resolution);
+
+  return { bands, broadband };
+}
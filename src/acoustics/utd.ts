@@ -0,0 +1,140 @@
+/**
+ * Uniform Theory of Diffraction (UTD) for acoustically hard wedges
+ *
+ * Kouyoumjian & Pathak (1974), "A uniform geometrical theory of diffraction
+ * for an edge in a perfectly conducting surface", Proc. IEEE 62(11), with the
+ * Neumann (rigid) boundary condition. The coefficient stays finite on the
+ * shadow and reflection boundaries, where the diffracted field makes up for
+ * the jump in the geometrical field.
+ *
+ * Angles follow DiffractionEdge3D: measured around the edge from one face
+ * (0) through the air to the other face (wedgeAngle).
+ */
+
+/** Complex number as [real, imaginary] */
+type Complex = [number, number];
+
+/**
+ * Geometry of a single diffraction at an edge
+ */
+export interface WedgeDiffractionGeometry {
+  wedgeAngle: number;         // Exterior (air-side) wedge angle in radians, in (π, 2π]
+  sourceAngle: number;        // Angle of the incoming ray's origin around the edge (φ')
+  receiverAngle: number;      // Angle of the outgoing ray's end around the edge (φ)
+  skewAngle: number;          // Angle between the incoming ray and the edge (β₀), π/2 = perpendicular
+  sourceDistance: number;     // Distance from the (possibly virtual) source to the edge (s')
+  receiverDistance: number;   // Distance from the edge to the receiver (s)
+}
+
+/** Threshold above which the transition function uses its asymptotic expansion */
+const ASYMPTOTIC_THRESHOLD = 20;
+
+/** Source angle (radians) within which incidence counts as grazing */
+const GRAZING_EPSILON = 1e-6;
+
+/** Angle offset applied when the receiver sits exactly on a shadow or reflection boundary */
+const BOUNDARY_NUDGE = 1e-6;
+
+function cmul(a: Complex, b: Complex): Complex {
+  return [a[0] * b[0] - a[1] * b[1], a[0] * b[1] + a[1] * b[0]];
+}
+
+function cexp(phase: number): Complex {
+  return [Math.cos(phase), Math.sin(phase)];
+}
+
+/**
+ * UTD transition function F(X) = 2j·√X·e^{jX}·∫_{√X}^∞ e^{-jτ²} dτ
+ *
+ * Tends to 0 at X = 0 and to 1 for large X.
+ */
+export function transitionFunction(x: number): [number, number] {
+  if (x <= 0) return [0, 0];
+
+  if (x >= ASYMPTOTIC_THRESHOLD) {
+    // F ~ Σ (2n - 1)!! · (j / 2X)^n, truncated at the smallest term
+    let result: Complex = [1, 0];
+    let term: Complex = [1, 0];
+    for (let n = 1; n < 60; n++) {
+      const next = cmul(term, [0, (2 * n - 1) / (2 * x)]);
+      if (Math.hypot(next[0], next[1]) >= Math.hypot(term[0], term[1])) break;
+      term = next;
+      result = [result[0] + term[0], result[1] + term[1]];
+    }
+    return result;
+  }
+
+  // ∫_0^√X e^{-jτ²} dτ = Σ (-j)^n · X^(n + 1/2) / (n! · (2n + 1))
+  const root = Math.sqrt(x);
+  let partial: Complex = [0, 0];
+  let power: Complex = [root, 0];   // (-j)^n · X^(n + 1/2) / n!
+  for (let n = 0; n < 200; n++) {
+    const term: Complex = [power[0] / (2 * n + 1), power[1] / (2 * n + 1)];
+    partial = [partial[0] + term[0], partial[1] + term[1]];
+    if (Math.hypot(term[0], term[1]) < 1e-17 * Math.hypot(partial[0], partial[1])) break;
+    power = cmul(power, [0, -x / (n + 1)]);
+  }
+
+  // ∫_0^∞ e^{-jτ²} dτ = (√π / 2) · e^{-jπ/4}
+  const full = cmul([Math.sqrt(Math.PI) / 2, 0], cexp(-Math.PI / 4));
+  const tail: Complex = [full[0] - partial[0], full[1] - partial[1]];
+
+  return cmul(cmul([0, 2 * root], cexp(x)), tail);
+}
+
+/**
+ * Magnitude of the UTD diffraction coefficient of a hard wedge
+ *
+ * The diffracted pressure at the receiver is
+ * p_i(edge) · D · √(s' / (s · (s' + s))) · e^{-jks}, where p_i(edge) is the
+ * incident pressure at the diffraction point.
+ *
+ * At grazing incidence (the incoming ray runs along a face, as between two
+ * edges of the same face) the incident and reflected fields coincide and
+ * the coefficient is halved.
+ *
+ * @param geometry - Wedge and ray geometry
+ * @param frequency - Frequency in Hz
+ * @param speedOfSound - Speed of sound in m/s (default: 343)
+ * @returns |D| in √m
+ */
+export function utdCoefficient(
+  geometry: WedgeDiffractionGeometry,
+  frequency: number,
+  speedOfSound: number = 343
+): number {
+  const { wedgeAngle, sourceAngle, skewAngle, sourceDistance, receiverDistance } = geometry;
+  const sinSkew = Math.sin(skewAngle);
+  if (!(wedgeAngle > 0) || sinSkew < 1e-9 || !(frequency > 0)) {
+    return 0;
+  }
+
+  const n = wedgeAngle / Math.PI;
+  const k = 2 * Math.PI * frequency / speedOfSound;
+  const distanceParameter = sourceDistance * receiverDistance * sinSkew * sinSkew /
+    (sourceDistance + receiverDistance);
+
+  // Step off shadow/reflection boundaries, where a cotangent is singular
+  let receiverAngle = geometry.receiverAngle;
+  const singular = (phi: number) => [phi - sourceAngle, phi + sourceAngle].some(beta =>
+    [Math.PI + beta, Math.PI - beta].some(arg => Math.abs(Math.sin(arg / (2 * n))) < 1e-9)
+  );
+  if (singular(receiverAngle)) {
+    receiverAngle += BOUNDARY_NUDGE;
+  }
+
+  let sum: Complex = [0, 0];
+  for (const beta of [receiverAngle - sourceAngle, receiverAngle + sourceAngle]) {
+    for (const sign of [1, -1]) {
+      const arg = (Math.PI + sign * beta) / (2 * n);
+      const cot = Math.cos(arg) / Math.sin(arg);
+      const nearest = Math.round((beta + sign * Math.PI) / (2 * Math.PI * n));
+      const cosHalf = Math.cos((2 * Math.PI * n * nearest - beta) / 2);
+      const f = transitionFunction(k * distanceParameter * 2 * cosHalf * cosHalf);
+      sum = [sum[0] + cot * f[0], sum[1] + cot * f[1]];
+    }
+  }
+
+  const grazing = Math.abs(sourceAngle) < GRAZING_EPSILON || sourceAngle > wedgeAngle - GRAZING_EPSILON;
+  return (grazing ? 0.5 : 1) * Math.hypot(sum[0], sum[1]) / (2 * n * Math.sqrt(2 * Math.PI * k) * sinSkew);
+}
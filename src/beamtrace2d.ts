@@ -22,14 +22,32 @@
  *
  */
 
+import { DirectivityPattern, directivityGain } from './acoustics/directivity';
+import { OCTAVE_BANDS } from './acoustics/bands';
+import { utdCoefficient } from './acoustics/utd';
+
 /** 2D point as [x, y] tuple */
 export type Point = [number, number];
 
 /** Path point with reflection info [x, y, wallId] where wallId is null for source/listener */
 export type PathPoint = [number, number, number | null];
 
+/** Diffraction vertex [x, y, wallId, 'diffraction'] at a free endpoint of wall wallId */
+export type DiffractionPathPoint = [number, number, number, 'diffraction'];
+
 /** Complete reflection path from listener to source */
-export type ReflectionPath = PathPoint[];
+export type ReflectionPath = Array<PathPoint | DiffractionPathPoint>;
+
+/** Returns true if a path point is a diffraction vertex rather than a reflection */
+export function isDiffractionPoint(point: PathPoint | DiffractionPathPoint): point is DiffractionPathPoint {
+  return point.length === 4 && point[3] === 'diffraction';
+}
+
+/** Options for the 2D solver */
+export interface SolverOptions {
+  /** Add paths diffracted around free wall endpoints (default: false) */
+  diffraction?: boolean;
+}
 
 /** Detailed information about a single reflection point */
 export interface ReflectionDetail {
@@ -71,6 +89,8 @@ export interface SegmentDetail {
   length: number;
   /** Segment index (0 = first segment from listener) */
   segmentIndex: number;
+  /** Air attenuation in dB per octave band over this segment (set by annotateAirAbsorption) */
+  airAttenuationDb?: number[];
 }
 
 /** Detailed reflection path with complete information about each reflection */
@@ -89,6 +109,16 @@ export interface DetailedReflectionPath {
   segments: SegmentDetail[];
   /** The original simple path representation */
   simplePath: ReflectionPath;
+  /** Total air attenuation in dB per octave band (set by annotateAirAbsorption) */
+  airAttenuationDb?: number[];
+  /** Linear source directivity gain per octave band toward the departure direction (present when the source has a directivity) */
+  sourceDirectivityGain?: number[];
+  /** True if the path bends around a wall endpoint */
+  isDiffracted: boolean;
+  /** Walls whose free endpoints the path bends around, in order from listener to source (diffracted paths only) */
+  diffractionWallIds?: number[];
+  /** Linear UTD diffraction attenuation per octave band relative to free-field spreading (diffracted paths only) */
+  diffractionGain?: number[];
 }
 
 /** Line intersection result array: [x, y, onLine1, onLine2, onRay1, onRay2, wallId?] */
@@ -124,9 +154,17 @@ export class Listener {
   }
 }
 
-/** Sound source position */
+/**
+ * Sound source position, with optional directivity
+ *
+ * orientation is the facing angle in radians, measured from +x toward +y.
+ */
 export class Source {
-  constructor(public p0: Point) {}
+  constructor(
+    public p0: Point,
+    public orientation: number = 0,
+    public directivity?: DirectivityPattern
+  ) {}
 
   draw(ctx: CanvasRenderingContext2D): void {
     const oldFill = ctx.fillStyle;
@@ -621,6 +659,46 @@ function calculateWallPosition(hitPoint: Point, wall: Wall): number {
 /** Threshold angle (in radians) for grazing incidence detection - angle from normal > 85° (i.e., within 5° of parallel to surface) */
 const GRAZING_THRESHOLD = Math.PI / 2 - (5 * Math.PI / 180);
 
+/** Calculates the distance from point p0 to the segment p1-p2 */
+function pointSegmentDistance(p0: Point, p1: Point, p2: Point): number {
+  const dx = p2[0] - p1[0];
+  const dy = p2[1] - p1[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return distance(p0, p1);
+  const t = Math.max(0, Math.min(1, ((p0[0] - p1[0]) * dx + (p0[1] - p1[1]) * dy) / lengthSq));
+  return distance(p0, [p1[0] + t * dx, p1[1] + t * dy]);
+}
+
+/** Angle of p0 around a free wall endpoint, measured from the wall (0) through the air up to 2π */
+function angleAroundEndpoint(p0: Point, endpoint: Point, otherEnd: Point): number {
+  const t = normalizeDirection(endpoint, otherEnd);
+  const dx = p0[0] - endpoint[0];
+  const dy = p0[1] - endpoint[1];
+  const angle = Math.atan2(-t[1] * dx + t[0] * dy, t[0] * dx + t[1] * dy);
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+}
+
+/**
+ * Per-band UTD attenuation of a path bending around a free wall endpoint
+ *
+ * The endpoint is treated as a vertical half-plane edge seen in plan view,
+ * relative to free-field spreading over the bent path length.
+ */
+function endpointDiffractionGain(source: Point, endpoint: Point, otherEnd: Point, listener: Point): number[] {
+  const sourceDistance = distance(source, endpoint);
+  const receiverDistance = distance(endpoint, listener);
+  const geometry = {
+    wedgeAngle: 2 * Math.PI,
+    sourceAngle: angleAroundEndpoint(source, endpoint, otherEnd),
+    receiverAngle: angleAroundEndpoint(listener, endpoint, otherEnd),
+    skewAngle: Math.PI / 2,
+    sourceDistance,
+    receiverDistance
+  };
+  const spreading = Math.sqrt((sourceDistance + receiverDistance) / (sourceDistance * receiverDistance));
+  return OCTAVE_BANDS.map(frequency => utdCoefficient(geometry, frequency) * spreading);
+}
+
 /** Mirrors point p0 along line defined by p1 and p2 */
 function pointMirror(p0: Point, p1: Point, p2: Point): Point {
   // Line normal
@@ -643,18 +721,20 @@ export class Solver {
   private readonly source: Source;
   private readonly bsp: BSPTree;
   private readonly beams: BeamTree;
+  private readonly diffractionVertices: Array<{ wallId: number; point: Point; otherEnd: Point }>;
 
   /**
    * @param walls Array of Wall objects defining the environment
    * @param source The sound source position
    * @param reflectionOrder Maximum number of reflections to compute (default: 5)
+   * @param options Solver options; `diffraction: true` adds paths around free wall endpoints
    *
    * Note: In v1.x, this parameter was incorrectly offset by -2 internally,
    * so reflectionOrder=4 actually computed 3 reflections. As of v2.0,
    * reflectionOrder now correctly represents the number of reflections.
    * If migrating from v1.x, subtract 1 from your previous value.
    */
-  constructor(walls: Wall[], source: Source, reflectionOrder?: number) {
+  constructor(walls: Wall[], source: Source, reflectionOrder?: number, options: SolverOptions = {}) {
     if (!walls || walls.length === 0) {
       throw new Error('BeamTrace2D: at least one wall is required');
     }
@@ -667,14 +747,67 @@ export class Solver {
     this.source = source;
     this.bsp = new BSPTree(walls);
     this.beams = new BeamTree(source, walls, this.maxOrder);
+    this.diffractionVertices = options.diffraction ? this.findFreeEndpoints() : [];
+  }
+
+  /** Wall endpoints that do not touch any other wall */
+  private findFreeEndpoints(): Array<{ wallId: number; point: Point; otherEnd: Point }> {
+    const vertices: Array<{ wallId: number; point: Point; otherEnd: Point }> = [];
+    this.walls.forEach((wall, wallId) => {
+      if (distance(wall.p1, wall.p2) === 0) return;
+      for (const [point, otherEnd] of [[wall.p1, wall.p2], [wall.p2, wall.p1]]) {
+        const touches = this.walls.some((other, otherId) =>
+          otherId !== wallId && pointSegmentDistance(point, other.p1, other.p2) < 1e-6
+        );
+        if (!touches) {
+          vertices.push({ wallId, point, otherEnd });
+        }
+      }
+    });
+    return vertices;
   }
 
-  /** Get all valid reflection paths from source to listener */
+  /**
+   * Get all valid reflection paths from source to listener
+   *
+   * With diffraction enabled, paths bending around free wall endpoints follow
+   * the specular ones; their middle point is a DiffractionPathPoint.
+   */
   getPaths(listener: Listener): ReflectionPath[] {
     if (!listener) {
       throw new Error("BeamTrace2D: listener is required");
     }
-    return this.findPaths(listener, this.beams.mainNode);
+    const paths = this.findPaths(listener, this.beams.mainNode);
+    return paths.concat(this.findDiffractionPaths(listener.p0));
+  }
+
+  /** First-order paths from the source around each free wall endpoint to the listener */
+  private findDiffractionPaths(listenerPos: Point): ReflectionPath[] {
+    const paths: ReflectionPath[] = [];
+    const sourcePos = this.source.p0;
+
+    for (const { wallId, point, otherEnd } of this.diffractionVertices) {
+      // Skip points lying on the line of the wall itself
+      const sourceAngle = angleAroundEndpoint(sourcePos, point, otherEnd);
+      const listenerAngle = angleAroundEndpoint(listenerPos, point, otherEnd);
+      if ([sourceAngle, listenerAngle].some(a => a < 1e-9 || a > 2 * Math.PI - 1e-9)) continue;
+
+      if (this.isSegmentClear(sourcePos, point, wallId) && this.isSegmentClear(point, listenerPos, wallId)) {
+        paths.push([
+          [listenerPos[0], listenerPos[1], null],
+          [point[0], point[1], wallId, 'diffraction'],
+          [sourcePos[0], sourcePos[1], null]
+        ]);
+      }
+    }
+
+    return paths;
+  }
+
+  /** Returns true if no wall other than ignoreId crosses the open segment p1-p2 */
+  private isSegmentClear(p1: Point, p2: Point, ignoreId: number): boolean {
+    const int = this.rayTrace(p1, p2, this.bsp.mainNode, ignoreId, -1, 0);
+    return !(int && int[2] && int[3]);
   }
 
   /**
@@ -721,7 +854,7 @@ export class Solver {
 
       // If next point is a reflection (has a wall ID), compute details
       const wallId = path[i + 1][2];
-      if (wallId !== null && i + 2 < path.length) {
+      if (wallId !== null && !isDiffractionPoint(path[i + 1]) && i + 2 < path.length) {
         reflectionOrder++;
         cumulativeDistance += segmentLength;
 
@@ -768,15 +901,49 @@ export class Solver {
       }
     }
 
-    return {
+    const detailed: DetailedReflectionPath = {
       listenerPosition,
       sourcePosition,
       totalPathLength,
       reflectionCount: reflections.length,
       reflections,
       segments,
-      simplePath: path
+      simplePath: path,
+      isDiffracted: false
     };
+
+    const diffractionIndices = path
+      .map((point, index) => (isDiffractionPoint(point) ? index : -1))
+      .filter(index => index > 0 && index < path.length - 1);
+    if (diffractionIndices.length > 0) {
+      detailed.isDiffracted = true;
+      detailed.diffractionWallIds = diffractionIndices.map(index => path[index][2] as number);
+      detailed.diffractionGain = OCTAVE_BANDS.map(() => 1);
+      for (const index of diffractionIndices) {
+        const vertex: Point = [path[index][0], path[index][1]];
+        const wall = this.walls[path[index][2] as number];
+        const otherEnd = distance(vertex, wall.p1) < distance(vertex, wall.p2) ? wall.p2 : wall.p1;
+        const gain = endpointDiffractionGain(
+          [path[index + 1][0], path[index + 1][1]],
+          vertex,
+          otherEnd,
+          [path[index - 1][0], path[index - 1][1]]
+        );
+        detailed.diffractionGain = detailed.diffractionGain.map((g, b) => g * gain[b]);
+      }
+    }
+
+    // Directivity toward the departure direction of the last segment (source -> previous point)
+    if (this.source.directivity) {
+      const previous = path[path.length - 2];
+      const departureAngle = Math.atan2(previous[1] - sourcePosition[1], previous[0] - sourcePosition[0]);
+      detailed.sourceDirectivityGain = directivityGain(this.source.directivity, {
+        azimuth: departureAngle - this.source.orientation,
+        elevation: 0
+      });
+    }
+
+    return detailed;
   }
 
   /** Recursive function for going through all beams */
@@ -31,13 +31,17 @@
 // Core types
 export { Vector3 } from './core/vector3';
 export { Plane3D } from './core/plane3d';
+export { Orientation3D, directionToSpherical, sphericalToDirection } from './core/orientation3d';
+export type { SphericalDirection } from './core/orientation3d';
 export type {
   Point3D,
   PathPoint3D,
   ReflectionPath3D,
   ReflectionDetail3D,
   SegmentDetail3D,
+  TransmissionDetail3D,
   DetailedReflectionPath3D,
+  ArrivalDirection3D,
   PointClassification,
   PolygonClassification,
   FailPlaneType
@@ -45,6 +49,7 @@ export type {
 
 // Geometry
 export { Polygon3D, createShoeboxRoom, createQuad } from './geometry/polygon3d';
+export type { PolygonTransform3D } from './geometry/polygon3d';
 export { splitPolygon, splitPolygons } from './geometry/polygon-split';
 export {
   clipPolygonByPlane,
@@ -54,10 +59,40 @@ export {
   polygonMayIntersectVolume,
   clipRayByPlanes
 } from './geometry/clipping3d';
+export { findDiffractionEdges, edgeAngle, isInEdgeWedge, pointOnEdge } from './geometry/edges3d';
+export type { DiffractionEdge3D } from './geometry/edges3d';
+export { findEdgeAdjacency, edgePieces, restsOnFace } from './geometry/edge-adjacency';
+export type { PolygonEdge3D, EdgeOverlap3D, EdgeAdjacency3D, EdgePiece3D } from './geometry/edge-adjacency';
+export {
+  newellNormal,
+  isPlanarLoop,
+  isConvexLoop,
+  removeCollinearVertices,
+  triangulateFace,
+  mergeCoplanarFaces,
+  weldVertices
+} from './geometry/polygon-merge';
+export type { IndexedFace } from './geometry/polygon-merge';
+export { validateRoom, orientNormalsInward } from './geometry/room-validation';
+export type {
+  RoomIssueType,
+  RoomIssue,
+  RoomValidationOptions,
+  RoomValidationReport
+} from './geometry/room-validation';
 
 // Structures
-export { buildBSP, rayTraceBSP, rayOccluded, rayTraceAll, countNodes, treeDepth } from './structures/bsp3d';
-export type { BSPNode3D, RayHit3D } from './structures/bsp3d';
+export {
+  buildBSP,
+  rayTraceBSP,
+  rayOccluded,
+  rayTraceAll,
+  countNodes,
+  treeDepth,
+  serializeBSP,
+  deserializeBSP
+} from './structures/bsp3d';
+export type { BSPNode3D, RayHit3D, SerializedBSP3D } from './structures/bsp3d';
 
 export {
   createBeam3D,
@@ -74,19 +109,46 @@ export type { Beam3D, BeamViolation } from './structures/beam3d';
 
 export {
   buildBeamTree3D,
+  computeReflectionCandidates,
+  editReflectionCandidates,
+  insertBeamTreePolygon,
+  removeBeamTreePolygon,
   collectNodesAtOrder,
   getNodeOrder,
   getReflectionPath,
   countBeamNodes,
   getBeamTreeStats,
   clearFailPlanes,
-  iterateNodes
+  iterateNodes,
+  serializeBeamTree3D,
+  deserializeBeamTree3D
 } from './structures/beamtree3d';
-export type { BeamNode3D, BeamTree3D, BeamTreeStats } from './structures/beamtree3d';
+export type { BeamNode3D, BeamTree3D, BeamTreeStats, SerializedBeamTree3D } from './structures/beamtree3d';
+
+export {
+  buildFlatBeamTree3D,
+  flattenBeamTree3D,
+  createFlatBeamTree3D,
+  serializeFlatBeamTree3D,
+  expandFlatBeamTree3D,
+  getFlatBeamNode,
+  getFlatVirtualSource,
+  getFlatAperture,
+  countFlatBeamNodes,
+  insertFlatBeamTreePolygon,
+  removeFlatBeamTreePolygon,
+  getFlatFailPlane,
+  setFlatFailPlane,
+  clearFlatFailPlane,
+  clearFlatFailPlanes,
+  flatFailPlaneDistance
+} from './structures/flatbeamtree3d';
+export type { FlatBeamTree3D, FlatBeamTreeEdit3D } from './structures/flatbeamtree3d';
 
 // Optimization
 export {
   detectFailPlane,
+  detectFlatFailPlane,
   propagateFailPlane,
   isListenerBehindFailPlane,
   distanceToFailPlane,
@@ -102,8 +164,10 @@ export {
   isInsideSkipSphere,
   checkSkipSphere,
   createSkipSphere,
+  createFlatSkipSphere,
   invalidateSkipSphere,
   clearBucketFailPlanes,
+  clearFlatBucketFailPlanes,
   updateBucketSkipSphere,
   processBucketSkipSphere,
   getSkipSphereStats,
@@ -117,59 +181,236 @@ export {
   computePathLength,
   computeArrivalTime,
   getPathReflectionOrder,
-  convertToDetailedPath3D
+  convertToDetailedPath3D,
+  createSolverGeometry3D
 } from './solver/solver3d';
-export type { PerformanceMetrics3D, OptimizedSolver3DConfig, BeamVisualizationData } from './solver/solver3d';
+export type {
+  PerformanceMetrics3D,
+  OptimizedSolver3DConfig,
+  SolverGeometry3D,
+  DetailedPathOptions3D,
+  BeamVisualizationData
+} from './solver/solver3d';
+export { listenerGridPoints, gridVisitOrder } from './solver/grid3d';
+export type { ListenerGrid3D, GridOrder3D, GridOptions3D, GridPointPaths3D, GridPaths3D } from './solver/grid3d';
+export { MultiSourceSolver3D } from './solver/multisource3d';
+export type { MultiSourceSolver3DConfig, SourcePath3D, SourceDetailedPath3D } from './solver/multisource3d';
+export { computeCoverage3D, computeCoverage2D, coverageImage } from './solver/coverage';
+export type {
+  CoverageSolver3D,
+  ListenerGrid2D,
+  CoverageRaster,
+  CoverageMaps,
+  CoverageOptions,
+  CoverageImageOptions
+} from './solver/coverage';
+export {
+  findDiffractionPaths3D,
+  buildDiffractionBeams3D,
+  findReflectedDiffractionPaths3D,
+  diffractionPointOnEdge,
+  computeDiffractionGain
+} from './solver/diffraction3d';
+export type { DiffractionBeams3D } from './solver/diffraction3d';
+export {
+  getSurfaceId,
+  groupSurfaces,
+  computeSurfaceStatistics,
+  removeDuplicateSurfacePaths
+} from './solver/surfaces3d';
+export type { Surface3D, SurfaceStatistics3D } from './solver/surfaces3d';
+
+// Acoustics
+export {
+  OCTAVE_BANDS,
+  NUM_OCTAVE_BANDS,
+  createBandValues,
+  isBandValues,
+  addBandValues,
+  lossDbToEnergy,
+  energyToLossDb
+} from './acoustics/bands';
+export type { BandValues } from './acoustics/bands';
+
+export {
+  MaterialDatabase,
+  MATERIAL_PRESETS,
+  createMaterial,
+  reflectionLossDb,
+  isTransmissive
+} from './acoustics/materials';
+export type { AcousticMaterial } from './acoustics/materials';
+
+export {
+  airAbsorptionCoefficient,
+  airAbsorptionBands,
+  annotateAirAbsorption
+} from './acoustics/air-absorption';
+export type { AtmosphericConditions, AirAbsorbingPath } from './acoustics/air-absorption';
+
+export {
+  firstOrderDirectivity,
+  createBalloonDirectivity,
+  directivityGain
+} from './acoustics/directivity';
+export type {
+  DirectivityPattern,
+  FirstOrderPatternName,
+  BalloonDirectivity
+} from './acoustics/directivity';
+
+export { transitionFunction, utdCoefficient } from './acoustics/utd';
+export type { WedgeDiffractionGeometry } from './acoustics/utd';
+
+export {
+  computePathArrivals,
+  computeArrivals3D,
+  computeArrivals2D,
+  arrivalAmplitude,
+  addFractionalImpulse,
+  renderImpulseResponse,
+  renderMultichannelImpulseResponse,
+  renderEchogram,
+  buildImpulseResponse
+} from './acoustics/impulse-response';
+export type {
+  PathArrival,
+  ArrivalOptions,
+  SpreadingModel,
+  FractionalDelayMethod,
+  ImpulseResponseOptions,
+  EchogramOptions
+} from './acoustics/impulse-response';
+
+export {
+  schroederDecay,
+  decayTime,
+  computeRoomParameters
+} from './acoustics/room-parameters';
+export type {
+  RoomAcousticParameters,
+  RoomParameterReport,
+  RoomParameterOptions
+} from './acoustics/room-parameters';
+
+export {
+  MAX_AMBISONIC_ORDER,
+  ambisonicChannelCount,
+  ambisonicCoefficients,
+  renderAmbisonicImpulseResponse,
+  buildAmbisonicImpulseResponse
+} from './acoustics/ambisonics';
+export type { AmbisonicNormalization, AmbisonicOptions } from './acoustics/ambisonics';
+
+// I/O
+export { encodeWav, decodeWav } from './io/wav';
+export type { WavBitDepth, WavEncodeOptions, WavData } from './io/wav';
+export { encodePng, encodePpm } from './io/image';
+export { SOLVER_CACHE_VERSION, hashSolverInput3D, encodeSolverCache3D, decodeSolverCache3D } from './io/solver-cache';
+export type { SolverCache3D } from './io/solver-cache';
+export type { RgbaImage } from './io/image';
+export { parseObj } from './io/obj-loader';
+export type { ObjImportOptions, ObjImportResult } from './io/obj-loader';
+export { parseCram } from './io/cram';
+export type { CramImportOptions, CramImportResult } from './io/cram';
+export { SCENE_VERSION, loadScene, saveScene, sceneToJson, validateScene, createSceneSolver } from './io/scene';
+export type {
+  Scene,
+  SceneSource,
+  SceneListener,
+  SceneJson,
+  SceneMaterialJson,
+  ScenePolygonJson,
+  SceneSourceJson,
+  SceneListenerJson,
+  SceneSolverConfig
+} from './io/scene';
+
+// Convenience classes
+export { Source3D, Listener3D } from './core/source-listener3d';
+export type { Source3DOptions } from './core/source-listener3d';
 
 // Convenience aliases
 import { Vector3 } from './core/vector3';
-import { Polygon3D, createShoeboxRoom } from './geometry/polygon3d';
+import { Source3D, Listener3D } from './core/source-listener3d';
+import type { DiffractionEdge3D } from './geometry/edges3d';
+import { Polygon3D, PolygonTransform3D, createShoeboxRoom } from './geometry/polygon3d';
 import { OptimizedSolver3D, OptimizedSolver3DConfig, BeamVisualizationData } from './solver/solver3d';
+import type { ListenerGrid3D, GridOptions3D, GridPaths3D } from './solver/grid3d';
 import type { ReflectionPath3D, DetailedReflectionPath3D } from './core/types';
+import type { BeamTree3D } from './structures/beamtree3d';
 
 /**
- * 3D Sound source
+ * Main 3D Solver class (alias for OptimizedSolver3D with simpler interface)
  */
-export class Source3D {
-  public readonly position: Vector3;
+export class Solver3D {
+  private readonly solver: OptimizedSolver3D;
+  private currentSource: Source3D;
 
-  constructor(position: Vector3) {
-    this.position = Vector3.clone(position);
+  constructor(
+    polygons: Polygon3D[],
+    source: Source3D,
+    config?: OptimizedSolver3DConfig
+  ) {
+    this.currentSource = source;
+    this.solver = new OptimizedSolver3D(polygons, source.position, {
+      sourceDirectivity: source.directivity,
+      sourceOrientation: source.orientation,
+      ...config
+    });
   }
-}
 
-/**
- * 3D Listener
- */
-export class Listener3D {
-  public position: Vector3;
+  /**
+   * The source paths are traced from
+   */
+  get source(): Source3D {
+    return this.currentSource;
+  }
 
-  constructor(position: Vector3) {
-    this.position = Vector3.clone(position);
+  /**
+   * Move the source, keeping its orientation and directivity
+   *
+   * Reuses the solver's BSP tree; see OptimizedSolver3D.setSourcePosition.
+   */
+  setSourcePosition(position: Vector3): void {
+    const { orientation, directivity } = this.currentSource;
+    this.currentSource = new Source3D(position, { orientation, directivity });
+    this.solver.setSourcePosition(position);
   }
 
   /**
-   * Update listener position
+   * Add a polygon to the room, returning its ID
    */
-  moveTo(position: Vector3): void {
-    this.position = Vector3.clone(position);
+  addPolygon(polygon: Polygon3D): number {
+    return this.solver.addPolygon(polygon);
   }
-}
 
-/**
- * Main 3D Solver class (alias for OptimizedSolver3D with simpler interface)
- */
-export class Solver3D {
-  private readonly solver: OptimizedSolver3D;
-  public readonly source: Source3D;
+  /**
+   * Remove a polygon (later polygon IDs shift down by one)
+   */
+  removePolygon(id: number): void {
+    this.solver.removePolygon(id);
+  }
 
-  constructor(
-    polygons: Polygon3D[],
-    source: Source3D,
-    config?: OptimizedSolver3DConfig
-  ) {
-    this.source = source;
-    this.solver = new OptimizedSolver3D(polygons, source.position, config);
+  /**
+   * Replace a polygon, keeping its ID
+   */
+  updatePolygon(id: number, polygon: Polygon3D): void {
+    this.solver.updatePolygon(id, polygon);
+  }
+
+  /**
+   * Rotate and/or move a polygon
+   */
+  transformPolygon(id: number, transform: PolygonTransform3D): void {
+    this.solver.transformPolygon(id, transform);
+  }
+
+  /**
+   * Save the beam tree and BSP tree; pass the result as config.cache to skip rebuilding them
+   */
+  serialize(): ArrayBuffer {
+    return this.solver.serialize();
   }
 
   /**
@@ -180,6 +421,13 @@ export class Solver3D {
     return this.solver.getPaths(pos);
   }
 
+  /**
+   * Get the paths at many listener positions, visited in a cache-friendly order
+   */
+  getPathsForGrid(grid: ListenerGrid3D | Vector3[], options?: GridOptions3D): GridPaths3D {
+    return this.solver.getPathsForGrid(grid, options);
+  }
+
   /**
    * Get all valid reflection paths with detailed information about each reflection.
    *
@@ -188,13 +436,18 @@ export class Solver3D {
    * - Surface normal vectors
    * - Segment lengths and cumulative distances
    * - Grazing incidence detection
+   * - Per-band source directivity gain (when the source has a directivity)
+   * - Direction of arrival relative to the listener's orientation
+   * - Diffraction flag, edge ids and per-band UTD gain (with diffractionOrder > 0)
    *
    * @param listener - Listener position or Listener3D object
    * @returns Array of detailed reflection paths
    */
   getDetailedPaths(listener: Listener3D | Vector3): DetailedReflectionPath3D[] {
-    const pos = Array.isArray(listener) ? listener : listener.position;
-    return this.solver.getDetailedPaths(pos);
+    if (Array.isArray(listener)) {
+      return this.solver.getDetailedPaths(listener);
+    }
+    return this.solver.getDetailedPaths(listener.position, listener.orientation);
   }
 
   /**
@@ -225,12 +478,26 @@ export class Solver3D {
     return this.solver.getMaxReflectionOrder();
   }
 
+  /**
+   * Get the diffracting edges (empty unless diffractionOrder > 0)
+   */
+  getDiffractionEdges(): DiffractionEdge3D[] {
+    return this.solver.getDiffractionEdges();
+  }
+
   /**
    * Get beam data for visualization
    */
   getBeamsForVisualization(maxOrder?: number): BeamVisualizationData[] {
     return this.solver.getBeamsForVisualization(maxOrder);
   }
+
+  /**
+   * Get the beam tree as nodes, for inspection (a copy of the solver's flat tree)
+   */
+  getBeamTree(): BeamTree3D {
+    return this.solver.getBeamTree();
+  }
 }
 
 /**
@@ -0,0 +1,132 @@
+/**
+ * 3D orientation (yaw/pitch/roll) for BeamTrace3D
+ *
+ * Coordinates are Z-up. An object with zero orientation faces +X with +Y to
+ * its left and +Z up. Angles are in radians:
+ * - yaw: rotation about +Z, counter-clockwise seen from above (+X toward +Y)
+ * - pitch: elevation of the forward axis (positive tilts it toward +Z)
+ * - roll: rotation about the forward axis (positive lifts the left side)
+ *
+ * Local directions use the same convention: azimuth is measured from the
+ * forward axis toward the left, elevation upward from the horizontal plane.
+ */
+
+import { Vector3 } from './vector3';
+
+export interface Orientation3D {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+/**
+ * A direction as azimuth/elevation angles in radians
+ */
+export interface SphericalDirection {
+  azimuth: number;     // (-π, π], 0 = forward, π/2 = left
+  elevation: number;   // [-π/2, π/2], π/2 = up
+}
+
+export const Orientation3D = {
+  /**
+   * Create an orientation from angles in radians
+   */
+  create(yaw: number = 0, pitch: number = 0, roll: number = 0): Orientation3D {
+    return { yaw, pitch, roll };
+  },
+
+  /**
+   * Create an orientation from angles in degrees
+   */
+  fromDegrees(yaw: number = 0, pitch: number = 0, roll: number = 0): Orientation3D {
+    const k = Math.PI / 180;
+    return { yaw: yaw * k, pitch: pitch * k, roll: roll * k };
+  },
+
+  /**
+   * Orientation whose forward axis points along a direction (roll = 0)
+   */
+  lookAlong(direction: Vector3): Orientation3D {
+    const { azimuth, elevation } = directionToSpherical(direction);
+    return { yaw: azimuth, pitch: elevation, roll: 0 };
+  },
+
+  /**
+   * Local axes in world coordinates: [forward, left, up]
+   */
+  axes(o: Orientation3D): [Vector3, Vector3, Vector3] {
+    const cy = Math.cos(o.yaw), sy = Math.sin(o.yaw);
+    const cp = Math.cos(o.pitch), sp = Math.sin(o.pitch);
+    const cr = Math.cos(o.roll), sr = Math.sin(o.roll);
+
+    const forward: Vector3 = [cp * cy, cp * sy, sp];
+    const left0: Vector3 = [-sy, cy, 0];
+    const up0: Vector3 = [-sp * cy, -sp * sy, cp];
+
+    // Roll rotates left toward up about the forward axis
+    const left: Vector3 = [
+      cr * left0[0] + sr * up0[0],
+      cr * left0[1] + sr * up0[1],
+      cr * left0[2] + sr * up0[2]
+    ];
+    const up: Vector3 = [
+      cr * up0[0] - sr * left0[0],
+      cr * up0[1] - sr * left0[1],
+      cr * up0[2] - sr * left0[2]
+    ];
+
+    return [forward, left, up];
+  },
+
+  /**
+   * Forward axis in world coordinates
+   */
+  forward(o: Orientation3D): Vector3 {
+    return Orientation3D.axes(o)[0];
+  },
+
+  /**
+   * Transform a world direction into local [forward, left, up] coordinates
+   */
+  toLocal(o: Orientation3D, v: Vector3): Vector3 {
+    const [f, l, u] = Orientation3D.axes(o);
+    return [Vector3.dot(v, f), Vector3.dot(v, l), Vector3.dot(v, u)];
+  },
+
+  /**
+   * Transform a local [forward, left, up] direction into world coordinates
+   */
+  toWorld(o: Orientation3D, v: Vector3): Vector3 {
+    const [f, l, u] = Orientation3D.axes(o);
+    return [
+      v[0] * f[0] + v[1] * l[0] + v[2] * u[0],
+      v[0] * f[1] + v[1] * l[1] + v[2] * u[1],
+      v[0] * f[2] + v[1] * l[2] + v[2] * u[2]
+    ];
+  },
+
+  /**
+   * Azimuth/elevation of a world direction as seen from this orientation
+   */
+  localDirection(o: Orientation3D, v: Vector3): SphericalDirection {
+    return directionToSpherical(Orientation3D.toLocal(o, v));
+  }
+};
+
+/**
+ * Convert a direction vector to azimuth/elevation (need not be normalized)
+ */
+export function directionToSpherical(v: Vector3): SphericalDirection {
+  return {
+    azimuth: Math.atan2(v[1], v[0]),
+    elevation: Math.atan2(v[2], Math.hypot(v[0], v[1]))
+  };
+}
+
+/**
+ * Convert azimuth/elevation to a unit direction vector
+ */
+export function sphericalToDirection(azimuth: number, elevation: number): Vector3 {
+  const ce = Math.cos(elevation);
+  return [ce * Math.cos(azimuth), ce * Math.sin(azimuth), Math.sin(elevation)];
+}
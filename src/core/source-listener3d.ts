@@ -0,0 +1,60 @@
+/**
+ * Sound source and listener objects for the 3D API
+ */
+
+import { Vector3 } from './vector3';
+import { Orientation3D } from './orientation3d';
+import type { DirectivityPattern } from '../acoustics/directivity';
+
+/**
+ * Options for a 3D sound source
+ */
+export interface Source3DOptions {
+  orientation?: Orientation3D;      // Facing direction (default: +X)
+  directivity?: DirectivityPattern; // Radiation pattern (default: omnidirectional)
+}
+
+/**
+ * 3D Sound source
+ */
+export class Source3D {
+  public readonly position: Vector3;
+  public readonly orientation: Orientation3D;
+  public readonly directivity?: DirectivityPattern;
+
+  constructor(position: Vector3, options: Source3DOptions = {}) {
+    this.position = Vector3.clone(position);
+    this.orientation = { ...(options.orientation ?? Orientation3D.create()) };
+    this.directivity = options.directivity;
+  }
+}
+
+/**
+ * 3D Listener
+ *
+ * The orientation defines the frame for each path's arrivalDirection
+ * (azimuth 0 = facing direction, positive toward the listener's left).
+ */
+export class Listener3D {
+  public position: Vector3;
+  public orientation: Orientation3D;
+
+  constructor(position: Vector3, orientation: Orientation3D = Orientation3D.create()) {
+    this.position = Vector3.clone(position);
+    this.orientation = { ...orientation };
+  }
+
+  /**
+   * Update listener position
+   */
+  moveTo(position: Vector3): void {
+    this.position = Vector3.clone(position);
+  }
+
+  /**
+   * Update listener orientation
+   */
+  setOrientation(orientation: Orientation3D): void {
+    this.orientation = { ...orientation };
+  }
+}
@@ -18,11 +18,14 @@ export type ReflectionPath = PathPoint[];
 export interface PathPoint3D {
   position: Vector3;
   polygonId: number | null;  // null for source/listener
+  edgeId?: number;           // Diffracting edge id (diffraction points only, polygonId is null)
+  transmittedPolygonId?: number; // Polygon crossed (transmission points only, polygonId is null)
 }
 export type ReflectionPath3D = PathPoint3D[];
 
 // Detailed reflection info for 3D
 import type { Polygon3D } from '../geometry/polygon3d';
+import type { AcousticMaterial } from '../acoustics/materials';
 
 /** Detailed information about a single reflection point in 3D */
 export interface ReflectionDetail3D {
@@ -30,6 +33,8 @@ export interface ReflectionDetail3D {
   polygon: Polygon3D;
   /** Index of the polygon in the polygons array */
   polygonId: number;
+  /** Surface the polygon belongs to (its surfaceId, or -1 - polygonId if it has none) */
+  surfaceId: number;
   /** Point where the reflection occurred [x, y, z] */
   hitPoint: Vector3;
   /** Angle of incidence in radians (relative to surface normal) */
@@ -50,6 +55,26 @@ export interface ReflectionDetail3D {
   incomingSegmentLength: number;
   /** True if angle is very close to 90° (grazing incidence, may be numerically unstable) */
   isGrazing: boolean;
+  /** Material of the hit polygon (present when the solver has a material database) */
+  material?: AcousticMaterial;
+  /** Reflection loss of this bounce in dB per octave band (present with a material database) */
+  reflectionLossDb?: number[];
+}
+
+/** Detailed information about a polygon a 3D path passes through */
+export interface TransmissionDetail3D {
+  /** The polygon that was crossed */
+  polygon: Polygon3D;
+  /** Index of the polygon in the polygons array */
+  polygonId: number;
+  /** Surface the polygon belongs to (its surfaceId, or -1 - polygonId if it has none) */
+  surfaceId: number;
+  /** Point where the path crosses the polygon [x, y, z] */
+  hitPoint: Vector3;
+  /** Material of the crossed polygon (present when a material database is given) */
+  material?: AcousticMaterial;
+  /** Transmission loss of this crossing in dB per octave band (present with a material database) */
+  transmissionLossDb?: number[];
 }
 
 /** Information about a single segment in a 3D path */
@@ -62,6 +87,18 @@ export interface SegmentDetail3D {
   length: number;
   /** Segment index (0 = first segment from listener) */
   segmentIndex: number;
+  /** Air attenuation in dB per octave band over this segment (present with air absorption) */
+  airAttenuationDb?: number[];
+}
+
+/** Direction from which a path arrives at the listener */
+export interface ArrivalDirection3D {
+  /** Listener-local azimuth in radians (0 = listener forward, π/2 = left) */
+  azimuth: number;
+  /** Listener-local elevation in radians (π/2 = straight up) */
+  elevation: number;
+  /** Unit vector in world coordinates from the listener toward the incoming sound */
+  direction: Vector3;
 }
 
 /** Detailed reflection path with complete information about each reflection in 3D */
@@ -80,6 +117,24 @@ export interface DetailedReflectionPath3D {
   segments: SegmentDetail3D[];
   /** The original simple path representation */
   simplePath: ReflectionPath3D;
+  /** Direction of arrival at the listener, from the first segment */
+  arrivalDirection: ArrivalDirection3D;
+  /** Cumulative reflection loss in dB per octave band over all reflections (present with a material database) */
+  reflectionLossDb?: number[];
+  /** Total air attenuation in dB per octave band over all segments (present with air absorption) */
+  airAttenuationDb?: number[];
+  /** Linear source directivity gain per octave band toward the departure direction (present with a source directivity) */
+  sourceDirectivityGain?: number[];
+  /** True if the path bends around one or more diffracting edges */
+  isDiffracted: boolean;
+  /** Ids of the diffracting edges, in order from listener to source (diffracted paths only) */
+  diffractionEdgeIds?: number[];
+  /** Linear UTD diffraction gain per octave band relative to free-field spreading (diffracted paths with edge data) */
+  diffractionGain?: number[];
+  /** Polygons the path passes through, in order from listener to source (transmitted paths only) */
+  transmissions?: TransmissionDetail3D[];
+  /** Cumulative transmission loss in dB per octave band over all crossings (transmitted paths with a material database) */
+  transmissionLossDb?: number[];
 }
 
 // Classification types
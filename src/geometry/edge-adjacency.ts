@@ -0,0 +1,168 @@
+/**
+ * Polygon edge adjacency for BeamTrace3D
+ *
+ * Polygons meet along collinear, overlapping edges, which need not share
+ * endpoints: a long wall edge may meet two shorter floor edges (a
+ * T-junction). Each polygon edge is split where collinear edges of other
+ * polygons start and end, so every piece has one well-defined set of
+ * neighbours. findDiffractionEdges and validateRoom both work on these pieces.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Plane3D } from '../core/plane3d';
+import { Polygon3D } from './polygon3d';
+
+/**
+ * A polygon edge with the polygon it belongs to
+ */
+export interface PolygonEdge3D {
+  polygonId: number;
+  start: Vector3;
+  end: Vector3;
+  direction: Vector3;   // Unit vector from start to end
+  length: number;
+}
+
+/**
+ * Part of an edge covered by a collinear edge of another polygon
+ */
+export interface EdgeOverlap3D {
+  index: number;        // Index of the other edge in EdgeAdjacency3D.edges
+  from: number;         // Start of the covered interval, as a distance from the edge's start
+  to: number;           // End of the covered interval
+}
+
+/**
+ * Polygon edges and their collinear overlaps
+ */
+export interface EdgeAdjacency3D {
+  edges: PolygonEdge3D[];
+  overlaps: EdgeOverlap3D[][];   // Per edge: the edges of other polygons overlapping it
+}
+
+/**
+ * A piece of an edge between consecutive overlap endpoints
+ */
+export interface EdgePiece3D {
+  from: number;                  // Distance of the piece's start from the edge's start
+  to: number;                    // Distance of the piece's end
+  covering: EdgeOverlap3D[];     // Overlaps covering the whole piece
+  owned: boolean;                // The edge has the lowest index among those covering the piece
+}
+
+/**
+ * Find the collinear overlaps between the edges of a set of polygons
+ *
+ * @param polygons - Room polygons
+ * @param tolerance - Distance below which points are considered coincident
+ * @param usable - Optional per-polygon flags; edges of other polygons are left out
+ * @returns Non-degenerate polygon edges and the overlaps of each
+ */
+export function findEdgeAdjacency(
+  polygons: Polygon3D[],
+  tolerance: number = 1e-6,
+  usable?: boolean[]
+): EdgeAdjacency3D {
+  const edges = collectPolygonEdges(polygons, tolerance, usable);
+
+  const overlaps = edges.map(edge => {
+    const result: EdgeOverlap3D[] = [];
+    edges.forEach((other, index) => {
+      if (other.polygonId === edge.polygonId) return;
+
+      const interval = collinearOverlap(edge, other, tolerance);
+      if (interval) {
+        result.push({ index, from: interval[0], to: interval[1] });
+      }
+    });
+    return result;
+  });
+
+  return { edges, overlaps };
+}
+
+/**
+ * Split edge i at the endpoints of its overlaps
+ *
+ * Each physical piece is owned by exactly one of the edges covering it, so
+ * walking the owned pieces of all edges visits every piece once.
+ *
+ * @returns Pieces longer than the tolerance, in order along the edge
+ */
+export function edgePieces(adjacency: EdgeAdjacency3D, i: number, tolerance: number = 1e-6): EdgePiece3D[] {
+  const overlaps = adjacency.overlaps[i];
+  const breaks = [0, adjacency.edges[i].length, ...overlaps.flatMap(o => [o.from, o.to])].sort((a, b) => a - b);
+  const pieces: EdgePiece3D[] = [];
+
+  for (let k = 0; k < breaks.length - 1; k++) {
+    const from = breaks[k];
+    const to = breaks[k + 1];
+    if (to - from <= tolerance) continue;
+
+    const mid = (from + to) / 2;
+    const covering = overlaps.filter(o => o.from <= mid && o.to >= mid);
+    pieces.push({ from, to, covering, owned: covering.every(o => o.index > i) });
+  }
+
+  return pieces;
+}
+
+/**
+ * Check whether a point lies on the face of a polygon other than the ignored ones
+ */
+export function restsOnFace(
+  polygons: Polygon3D[],
+  ignoredIds: number[],
+  point: Vector3,
+  tolerance: number = 1e-6
+): boolean {
+  return polygons.some((polygon, id) =>
+    !ignoredIds.includes(id) &&
+    Math.abs(Plane3D.signedDistance(point, polygon.plane)) < tolerance &&
+    Polygon3D.containsPoint(polygon, point, tolerance)
+  );
+}
+
+/**
+ * Collect the non-degenerate edges of the usable polygons
+ */
+function collectPolygonEdges(polygons: Polygon3D[], tolerance: number, usable?: boolean[]): PolygonEdge3D[] {
+  const result: PolygonEdge3D[] = [];
+
+  polygons.forEach((polygon, polygonId) => {
+    if (usable && !usable[polygonId]) return;
+    for (const [start, end] of Polygon3D.edges(polygon)) {
+      const length = Vector3.distance(start, end);
+      if (length <= tolerance) continue;
+      result.push({
+        polygonId,
+        start,
+        end,
+        direction: Vector3.scale(Vector3.subtract(end, start), 1 / length),
+        length
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Interval of `edge` (as distances from its start) covered by a collinear `other`
+ */
+function collinearOverlap(edge: PolygonEdge3D, other: PolygonEdge3D, tolerance: number): [number, number] | null {
+  const offset = (p: Vector3): number => {
+    const v = Vector3.subtract(p, edge.start);
+    return Vector3.length(Vector3.reject(v, edge.direction));
+  };
+  if (offset(other.start) > tolerance || offset(other.end) > tolerance) {
+    return null;
+  }
+
+  const t0 = Vector3.dot(Vector3.subtract(other.start, edge.start), edge.direction);
+  const t1 = Vector3.dot(Vector3.subtract(other.end, edge.start), edge.direction);
+  const from = Math.max(0, Math.min(t0, t1));
+  const to = Math.min(edge.length, Math.max(t0, t1));
+
+  return to - from > tolerance ? [from, to] : null;
+}
@@ -0,0 +1,174 @@
+/**
+ * Diffracting edge detection for BeamTrace3D
+ *
+ * Edges are found from polygon adjacency (see findEdgeAdjacency): every
+ * polygon edge is matched against collinear, overlapping edges of the other
+ * polygons, so T-junctions (a long wall edge meeting two shorter floor
+ * edges) are split into pieces that each have a well-defined set of neighbours.
+ *
+ * - An edge piece shared by two polygons is a wedge. It diffracts when the
+ *   faces meet at an exterior (air-side) angle greater than π, i.e. the
+ *   corner sticks out into the room; flat and concave joints are skipped.
+ * - An edge piece used by a single polygon is a free edge (the rim of a
+ *   thin panel or balcony front) with an exterior angle of 2π.
+ * - Pieces shared by more than two polygons are ambiguous and skipped, as
+ *   are pieces resting on the face of another polygon (a screen standing on
+ *   the floor has no free bottom edge).
+ *
+ * The air side of a face is its front (normal) side, as in createShoeboxRoom.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Plane3D } from '../core/plane3d';
+import { Polygon3D } from './polygon3d';
+import { PolygonEdge3D, edgePieces, findEdgeAdjacency, restsOnFace } from './edge-adjacency';
+
+/**
+ * A diffracting edge
+ *
+ * Angles around the edge are measured from the reference face (the first
+ * adjacent polygon): 0 along faceTangent, increasing toward faceNormal, up
+ * to wedgeAngle on the other face.
+ */
+export interface DiffractionEdge3D {
+  id: number;                // Index in the edge list
+  start: Vector3;            // First endpoint
+  end: Vector3;              // Second endpoint
+  direction: Vector3;        // Unit vector from start to end
+  length: number;            // Edge length
+  polygonIds: number[];      // Adjacent polygons (1 = free edge, 2 = wedge)
+  wedgeAngle: number;        // Exterior (air-side) angle in radians, in (π, 2π]
+  faceTangent: Vector3;      // In the reference face, perpendicular to the edge, pointing into the face
+  faceNormal: Vector3;       // Air-side normal of the reference face
+}
+
+/**
+ * Find the diffracting edges of a room
+ *
+ * @param polygons - Room polygons (normals pointing into the air)
+ * @param tolerance - Distance below which points are considered coincident
+ * @returns Diffracting edges, with ids equal to their index
+ */
+export function findDiffractionEdges(
+  polygons: Polygon3D[],
+  tolerance: number = 1e-6
+): DiffractionEdge3D[] {
+  const adjacency = findEdgeAdjacency(polygons, tolerance);
+  const edges: DiffractionEdge3D[] = [];
+
+  adjacency.edges.forEach((edge, i) => {
+    // Walk the pieces of the edge, merging neighbours with equal adjacency
+    let pieceStart = 0;
+    let pieceKey = '';
+    let piecePolygons: number[] = [];
+    let pieceOwned = false;
+
+    const flush = (pieceEnd: number) => {
+      if (pieceOwned && pieceEnd - pieceStart > tolerance) {
+        const diffracting = createEdge(polygons, edge, pieceStart, pieceEnd, piecePolygons, edges.length);
+        if (diffracting) edges.push(diffracting);
+      }
+    };
+
+    for (const piece of edgePieces(adjacency, i, tolerance)) {
+      const adjacent = [edge.polygonId, ...piece.covering.map(o => adjacency.edges[o.index].polygonId)]
+        .filter((id, n, ids) => ids.indexOf(id) === n)
+        .sort((x, y) => x - y);
+      const key = `${piece.owned}:${adjacent.join(',')}`;
+
+      if (key !== pieceKey) {
+        flush(piece.from);
+        pieceStart = piece.from;
+        pieceKey = key;
+        piecePolygons = adjacent;
+        pieceOwned = piece.owned;
+      }
+    }
+    flush(edge.length);
+  });
+
+  return edges;
+}
+
+/**
+ * Angle of a point around an edge, in [0, 2π)
+ *
+ * 0 lies on the reference face; the air wedge spans [0, wedgeAngle].
+ */
+export function edgeAngle(edge: DiffractionEdge3D, point: Vector3): number {
+  const v = Vector3.subtract(point, edge.start);
+  const angle = Math.atan2(Vector3.dot(v, edge.faceNormal), Vector3.dot(v, edge.faceTangent));
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+}
+
+/**
+ * Check whether a point lies strictly inside the air wedge of an edge
+ *
+ * @param epsilon - Angular margin inside the faces; negative values also accept points on the faces
+ */
+export function isInEdgeWedge(edge: DiffractionEdge3D, point: Vector3, epsilon: number = 1e-9): boolean {
+  // Points just behind the reference face come out near 2π
+  const angle = edgeAngle(edge, point);
+  const signed = angle > edge.wedgeAngle ? angle - 2 * Math.PI : angle;
+  return signed > epsilon && signed < edge.wedgeAngle - epsilon;
+}
+
+/**
+ * Point on an edge at a distance from its start
+ */
+export function pointOnEdge(edge: DiffractionEdge3D, t: number): Vector3 {
+  return Vector3.add(edge.start, Vector3.scale(edge.direction, t));
+}
+
+/**
+ * In-face unit vector perpendicular to an edge, pointing into the polygon
+ */
+function inwardTangent(polygon: Polygon3D, point: Vector3, direction: Vector3): Vector3 {
+  const tangent = Vector3.normalize(Vector3.cross(Plane3D.normal(polygon.plane), direction));
+  const toCentroid = Vector3.subtract(Polygon3D.centroid(polygon), point);
+  return Vector3.dot(tangent, toCentroid) < 0 ? Vector3.negate(tangent) : tangent;
+}
+
+/**
+ * Build a diffracting edge for a piece of a polygon edge, or null if it does not diffract
+ */
+function createEdge(
+  polygons: Polygon3D[],
+  edge: PolygonEdge3D,
+  from: number,
+  to: number,
+  polygonIds: number[],
+  id: number
+): DiffractionEdge3D | null {
+  if (polygonIds.length > 2) return null;
+
+  const start = Vector3.add(edge.start, Vector3.scale(edge.direction, from));
+  const end = Vector3.add(edge.start, Vector3.scale(edge.direction, to));
+  if (restsOnFace(polygons, polygonIds, Vector3.lerp(start, end, 0.5))) return null;
+  const reference = polygons[polygonIds[0]];
+  const faceTangent = inwardTangent(reference, start, edge.direction);
+  const faceNormal = Vector3.clone(Plane3D.normal(reference.plane));
+
+  let wedgeAngle = 2 * Math.PI;
+  if (polygonIds.length === 2) {
+    const otherTangent = inwardTangent(polygons[polygonIds[1]], start, edge.direction);
+
+    // The other face must bend away from the air side for the corner to stick out
+    if (Vector3.dot(otherTangent, faceNormal) > -1e-9) return null;
+
+    const cosInterior = Math.max(-1, Math.min(1, Vector3.dot(faceTangent, otherTangent)));
+    wedgeAngle = 2 * Math.PI - Math.acos(cosInterior);
+  }
+
+  return {
+    id,
+    start,
+    end,
+    direction: Vector3.clone(edge.direction),
+    length: to - from,
+    polygonIds,
+    wedgeAngle,
+    faceTangent,
+    faceNormal
+  };
+}
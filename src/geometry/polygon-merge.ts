@@ -0,0 +1,289 @@
+/**
+ * Coplanar face merging for imported meshes
+ *
+ * Mesh exporters triangulate flat surfaces; the beam tracer is faster with
+ * one polygon per surface (fewer beams, no spurious diffraction edges).
+ * Faces are merged across shared edges as long as the result stays planar
+ * and convex, as Polygon3D requires.
+ *
+ * Faces are loops of indices into a shared vertex array, so shared edges are
+ * matched exactly: weld coincident vertices before merging.
+ */
+
+import { Vector3 } from '../core/vector3';
+
+/**
+ * A face as a loop of vertex indices
+ */
+export interface IndexedFace {
+  indices: number[];   // Vertex indices, counter-clockwise seen from the front
+  key: string;         // Faces only merge with faces of the same key (e.g. group and material)
+}
+
+/** Minimum cosine between the normals of faces that count as coplanar */
+const COPLANAR_COS = 1 - 1e-6;
+
+/**
+ * Merge coincident vertices (snapped to a grid of the tolerance size)
+ *
+ * @returns Unique vertices, and the new index of every input position
+ */
+export function weldVertices(positions: Vector3[], tolerance: number): { vertices: Vector3[]; remap: number[] } {
+  const vertices: Vector3[] = [];
+  const byCell = new Map<string, number>();
+
+  const remap = positions.map(p => {
+    const cell = p.map(c => Math.round(c / tolerance)).join(',');
+    let index = byCell.get(cell);
+    if (index === undefined) {
+      index = vertices.length;
+      vertices.push(Vector3.clone(p));
+      byCell.set(cell, index);
+    }
+    return index;
+  });
+
+  return { vertices, remap };
+}
+
+/**
+ * Unnormalized face normal by Newell's method
+ *
+ * Robust for non-planar and concave loops; its length is twice the
+ * projected area.
+ */
+export function newellNormal(points: Vector3[]): Vector3 {
+  const normal: Vector3 = [0, 0, 0];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    normal[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    normal[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    normal[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  }
+  return normal;
+}
+
+/**
+ * Check whether every point lies within a tolerance of the loop's Newell plane
+ */
+export function isPlanarLoop(points: Vector3[], tolerance: number = 1e-6): boolean {
+  const newell = newellNormal(points);
+  const length = Vector3.length(newell);
+  if (length === 0) return false;
+
+  const normal = Vector3.scale(newell, 1 / length);
+  const centroid = Vector3.scale(points.reduce((sum, p) => Vector3.add(sum, p), [0, 0, 0] as Vector3), 1 / points.length);
+  return points.every(p => Math.abs(Vector3.dot(Vector3.subtract(p, centroid), normal)) <= tolerance);
+}
+
+/**
+ * Check whether a loop is convex (collinear vertices allowed)
+ */
+export function isConvexLoop(points: Vector3[], tolerance: number = 1e-9): boolean {
+  const normal = newellNormal(points);
+  const normalLength = Vector3.length(normal);
+  if (normalLength === 0) return false;
+
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    const e1 = Vector3.subtract(points[i], points[(i + n - 1) % n]);
+    const e2 = Vector3.subtract(points[(i + 1) % n], points[i]);
+    const turn = Vector3.dot(Vector3.cross(e1, e2), normal) / normalLength;
+    if (turn < -tolerance * Vector3.length(e1) * Vector3.length(e2)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Remove vertices that lie on the line through their neighbours, and repeated vertices
+ */
+export function removeCollinearVertices(points: Vector3[], tolerance: number = 1e-9): Vector3[] {
+  const result = points.map(p => Vector3.clone(p));
+
+  let removed = true;
+  while (removed && result.length > 3) {
+    removed = false;
+    for (let i = 0; i < result.length && result.length > 3; i++) {
+      const prev = result[(i + result.length - 1) % result.length];
+      const next = result[(i + 1) % result.length];
+      const span = Vector3.subtract(next, prev);
+      const spanLength = Vector3.length(span);
+      const offset = Vector3.subtract(result[i], prev);
+      const distance = spanLength === 0
+        ? Vector3.length(offset)
+        : Vector3.length(Vector3.reject(offset, Vector3.scale(span, 1 / spanLength)));
+
+      if (distance <= tolerance) {
+        result.splice(i, 1);
+        removed = true;
+        i--;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a simple (possibly concave) face into triangles by ear clipping
+ *
+ * @param vertices - Shared vertex array
+ * @param indices - Face loop, counter-clockwise seen from the front
+ * @returns Triangles as index triples with the face's winding
+ */
+export function triangulateFace(vertices: Vector3[], indices: number[]): number[][] {
+  const normal = newellNormal(indices.map(i => vertices[i]));
+  const remaining = [...indices];
+  const triangles: number[][] = [];
+
+  const turn = (a: number, b: number, c: number): number => Vector3.dot(
+    Vector3.cross(Vector3.subtract(vertices[b], vertices[a]), Vector3.subtract(vertices[c], vertices[b])),
+    normal
+  );
+  const inside = (p: number, a: number, b: number, c: number): boolean =>
+    turn(a, b, p) >= 0 && turn(b, c, p) >= 0 && turn(c, a, p) >= 0;
+
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const a = remaining[(i + remaining.length - 1) % remaining.length];
+      const b = remaining[i];
+      const c = remaining[(i + 1) % remaining.length];
+      if (turn(a, b, c) <= 0) continue;
+
+      const blocked = remaining.some(p =>
+        p !== a && p !== b && p !== c && inside(p, a, b, c)
+      );
+      if (blocked) continue;
+
+      triangles.push([a, b, c]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+
+    // No ear left (self-intersecting or degenerate loop): fan the rest
+    if (!clipped) {
+      for (let i = 1; i < remaining.length - 1; i++) {
+        triangles.push([remaining[0], remaining[i], remaining[i + 1]]);
+      }
+      return triangles;
+    }
+  }
+
+  triangles.push(remaining);
+  return triangles;
+}
+
+/**
+ * Merge coplanar faces that share an edge into convex polygons
+ *
+ * Merging is greedy: each pass joins pairs across shared edges, and passes
+ * repeat until nothing changes. Face order follows the first face of each
+ * merged group.
+ *
+ * @param vertices - Shared vertex array
+ * @param faces - Planar convex faces
+ * @param tolerance - Maximum distance of a merged vertex from the face plane
+ * @returns Merged faces
+ */
+export function mergeCoplanarFaces(
+  vertices: Vector3[],
+  faces: IndexedFace[],
+  tolerance: number = 1e-6
+): IndexedFace[] {
+  let current = faces.map(face => ({ indices: [...face.indices], key: face.key }));
+  const points = (indices: number[]): Vector3[] => indices.map(i => vertices[i]);
+
+  let merged = true;
+  while (merged) {
+    merged = false;
+
+    const edgeOwner = new Map<string, number>();
+    current.forEach((face, f) => {
+      face.indices.forEach((a, i) => {
+        edgeOwner.set(`${a},${face.indices[(i + 1) % face.indices.length]}`, f);
+      });
+    });
+
+    const alive = current.map(() => true);
+    const touched = current.map(() => false);
+
+    for (let f = 0; f < current.length; f++) {
+      if (!alive[f] || touched[f]) continue;
+      const face = current[f];
+
+      for (let i = 0; i < face.indices.length; i++) {
+        const a = face.indices[i];
+        const b = face.indices[(i + 1) % face.indices.length];
+        const g = edgeOwner.get(`${b},${a}`);
+        if (g === undefined || g === f || !alive[g] || touched[g] || current[g].key !== face.key) continue;
+        if (!areCoplanar(points(face.indices), points(current[g].indices), tolerance)) continue;
+
+        const union = joinAlongEdge(face.indices, i, current[g].indices, b, a);
+        if (!union || !isConvexLoop(points(union))) continue;
+
+        current[f] = { indices: union, key: face.key };
+        alive[g] = false;
+        touched[f] = true;
+        merged = true;
+        break;
+      }
+    }
+
+    current = current.filter((_, f) => alive[f]);
+  }
+
+  return current;
+}
+
+/**
+ * Check that two faces face the same way and lie in the same plane
+ */
+function areCoplanar(a: Vector3[], b: Vector3[], tolerance: number): boolean {
+  const na = Vector3.normalize(newellNormal(a));
+  const nb = Vector3.normalize(newellNormal(b));
+  if (Vector3.dot(na, nb) < COPLANAR_COS) return false;
+
+  return b.every(p => Math.abs(Vector3.dot(Vector3.subtract(p, a[0]), na)) <= tolerance);
+}
+
+/**
+ * Join two loops across a shared edge: `first` runs a -> b at position
+ * `edge`, `second` runs b -> a
+ *
+ * @returns The outer loop, or null if the faces also touch elsewhere
+ */
+function joinAlongEdge(first: number[], edge: number, second: number[], b: number, a: number): number[] | null {
+  const union: number[] = [];
+  for (let k = 1; k <= first.length; k++) {
+    union.push(first[(edge + k) % first.length]);
+  }
+
+  // Walk the second loop from just after a to just before b
+  const start = second.indexOf(a);
+  for (let k = 1; k < second.length - 1; k++) {
+    union.push(second[(start + k) % second.length]);
+  }
+
+  // Faces sharing consecutive edges leave back-and-forth spikes: x, y, x
+  let spike = true;
+  while (spike && union.length > 3) {
+    spike = false;
+    for (let i = 0; i < union.length; i++) {
+      if (union[(i + union.length - 1) % union.length] === union[(i + 1) % union.length]) {
+        union.splice(i, 1);
+        union.splice(i % union.length, 1);
+        spike = true;
+        break;
+      }
+    }
+  }
+
+  if (union.length < 3 || new Set(union).size !== union.length) {
+    return null;
+  }
+  return union;
+}
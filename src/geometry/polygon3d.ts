@@ -2,12 +2,23 @@
  * 3D Polygon representation and operations for BeamTrace3D
  *
  * Polygons are convex and stored with counter-clockwise vertex winding
- * when viewed from the front (normal) side.
+ * when viewed from the front (normal) side. Planes are best-fit (Newell)
+ * planes, so a slightly warped quad gets a sensible normal; concave or
+ * strongly warped surfaces go through createSurface, which splits them
+ * into convex pieces.
  */
 
 import { Vector3 } from '../core/vector3';
 import { Plane3D } from '../core/plane3d';
+import { Orientation3D } from '../core/orientation3d';
 import { PolygonClassification } from '../core/types';
+import {
+  isConvexLoop,
+  mergeCoplanarFaces,
+  newellNormal,
+  removeCollinearVertices,
+  triangulateFace
+} from './polygon-merge';
 
 /**
  * Convex polygon in 3D space
@@ -16,12 +27,22 @@ export interface Polygon3D {
   vertices: Vector3[];    // Vertices in CCW winding order
   plane: Plane3D;         // Supporting plane (computed from vertices)
   materialId?: number;    // Optional material ID for acoustic properties
+  surfaceId?: number;     // Surface this polygon is a piece of (see createSurface)
+}
+
+/**
+ * Rigid transform of a polygon: rotation about a pivot, then translation
+ */
+export interface PolygonTransform3D {
+  translation?: Vector3;       // Offset applied after the rotation
+  rotation?: Orientation3D;    // Rotation about the pivot
+  pivot?: Vector3;             // Center of rotation (default: polygon centroid)
 }
 
 export const Polygon3D = {
   /**
-   * Create a polygon from vertices (computes plane automatically)
-   * Vertices must be in counter-clockwise order when viewed from front
+   * Create a polygon from vertices (computes the best-fit plane)
+   * Vertices must be convex and in counter-clockwise order when viewed from front
    */
   create(vertices: Vector3[], materialId?: number): Polygon3D {
     if (vertices.length < 3) {
@@ -30,11 +51,58 @@ export const Polygon3D = {
 
     // Clone vertices to prevent external mutation
     const verts = vertices.map(v => Vector3.clone(v));
-    const plane = Plane3D.fromPoints(verts[0], verts[1], verts[2]);
+    const plane = fitPlane(verts) ?? Plane3D.fromPoints(verts[0], verts[1], verts[2]);
 
     return { vertices: verts, plane, materialId };
   },
 
+  /**
+   * Create the convex polygons of an arbitrary simple surface
+   *
+   * Surfaces within planarTolerance of their best-fit plane are flattened onto
+   * it; warped ones are triangulated, each triangle keeping its own plane.
+   * Concave outlines are decomposed into convex pieces (ear clipping, then
+   * merging triangles back while they stay convex). Every piece gets the
+   * given surfaceId.
+   *
+   * @param vertices - Outline, counter-clockwise seen from the front
+   * @param materialId - Material of every piece
+   * @param surfaceId - Id shared by the pieces (a non-negative integer)
+   * @param planarTolerance - Largest vertex distance from the plane that is flattened (default: 1 mm)
+   */
+  createSurface(
+    vertices: Vector3[],
+    materialId?: number,
+    surfaceId?: number,
+    planarTolerance: number = 1e-3
+  ): Polygon3D[] {
+    if (surfaceId !== undefined && !(Number.isInteger(surfaceId) && surfaceId >= 0)) {
+      throw new Error(`Polygon: surfaceId must be a non-negative integer, got ${surfaceId}`);
+    }
+    const points = removeCollinearVertices(vertices);
+    const plane = points.length >= 3 ? fitPlane(points) : null;
+    if (!plane) {
+      throw new Error('Polygon requires at least 3 non-collinear vertices');
+    }
+
+    const planar = points.every(p => Plane3D.distance(p, plane) <= planarTolerance);
+    if (planar && isConvexLoop(points)) {
+      const flat = points.map(p => Plane3D.projectPoint(p, plane));
+      return [{ vertices: flat, plane, materialId, surfaceId }];
+    }
+
+    const loop = planar ? points.map(p => Plane3D.projectPoint(p, plane)) : points;
+    const indices = loop.map((_, i) => i);
+    const triangles = triangulateFace(loop, indices).map(triangle => ({ indices: triangle, key: '' }));
+    const pieces = mergeCoplanarFaces(loop, triangles, planar ? 1e-9 : 1e-6);
+
+    return pieces.map(piece => {
+      const pieceVertices = removeCollinearVertices(piece.indices.map(i => loop[i]));
+      const piecePlane = planar ? plane : fitPlane(pieceVertices)!;
+      return { vertices: pieceVertices, plane: piecePlane, materialId, surfaceId };
+    });
+  },
+
   /**
    * Create a polygon with an explicit plane (for split polygons that may be degenerate)
    */
@@ -211,7 +279,8 @@ export const Polygon3D = {
     return {
       vertices: reversedVerts,
       plane: flippedPlane,
-      materialId: poly.materialId
+      materialId: poly.materialId,
+      surfaceId: poly.surfaceId
     };
   },
 
@@ -222,10 +291,27 @@ export const Polygon3D = {
     return {
       vertices: poly.vertices.map(v => Vector3.clone(v)),
       plane: { ...poly.plane },
-      materialId: poly.materialId
+      materialId: poly.materialId,
+      surfaceId: poly.surfaceId
     };
   },
 
+  /**
+   * Rotate and/or move a polygon, keeping its material and surface
+   */
+  transform(poly: Polygon3D, transform: PolygonTransform3D): Polygon3D {
+    const pivot = transform.pivot ?? Polygon3D.centroid(poly);
+    const offset = transform.translation ?? [0, 0, 0];
+    const rotation = transform.rotation;
+    const vertices = poly.vertices.map(v => {
+      const rotated = rotation
+        ? Vector3.add(pivot, Orientation3D.toWorld(rotation, Vector3.subtract(v, pivot)))
+        : v;
+      return Vector3.add(rotated, offset);
+    });
+    return { ...Polygon3D.create(vertices, poly.materialId), surfaceId: poly.surfaceId };
+  },
+
   /**
    * Convert to string for debugging
    */
@@ -235,6 +321,17 @@ export const Polygon3D = {
   }
 };
 
+/**
+ * Best-fit plane through a loop (Newell normal through the centroid), or null if it has no area
+ */
+function fitPlane(points: Vector3[]): Plane3D | null {
+  const normal = newellNormal(points);
+  if (Vector3.length(normal) === 0) return null;
+
+  const centroid = Vector3.scale(points.reduce((sum, p) => Vector3.add(sum, p), [0, 0, 0] as Vector3), 1 / points.length);
+  return Plane3D.fromNormalAndPoint(normal, centroid);
+}
+
 /**
  * Helper to create common room shapes
  */
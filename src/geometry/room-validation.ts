@@ -0,0 +1,397 @@
+/**
+ * Room geometry validation for BeamTrace3D
+ *
+ * The solver assumes a closed room of convex, planar polygons whose normals
+ * point into the air. Broken geometry does not make it fail; it makes it
+ * return wrong paths (beams leaking through gaps, reflections off the back
+ * of a wall). validateRoom reports what is wrong and where.
+ *
+ * Watertightness is checked by edge adjacency (see findEdgeAdjacency):
+ * polygon edges are split where collinear edges of other polygons start and
+ * end, and every piece must be shared by exactly one other polygon, wound the
+ * opposite way. Edges resting on the face of another polygon (a partition
+ * standing on the floor) are closed by that face.
+ *
+ * Orientation is solved per connected surface: winding is propagated across
+ * shared edges, and the enclosed volume decides which side is the interior.
+ * The surface enclosing the most volume is the room; closed obstacles inside
+ * it (a pillar) face outward, into the room's air.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Plane3D } from '../core/plane3d';
+import { Polygon3D } from './polygon3d';
+import { clipPolygonByPlanes } from './clipping3d';
+import { edgePieces, findEdgeAdjacency, restsOnFace } from './edge-adjacency';
+import { isConvexLoop, isPlanarLoop, newellNormal } from './polygon-merge';
+
+/**
+ * Kind of room geometry problem
+ */
+export type RoomIssueType =
+  | 'degenerate'            // Zero-area polygon
+  | 'non-planar'            // Vertices not in one plane
+  | 'non-convex'            // Concave polygon
+  | 'duplicate'             // Same vertices as an earlier polygon
+  | 'overlap'               // Coplanar polygons covering the same area
+  | 'open-edge'             // Edge not shared with any polygon (a gap)
+  | 'non-manifold-edge'     // Edge shared by more than two polygons
+  | 't-junction'            // Vertex lying inside another polygon's edge
+  | 'inconsistent-winding'  // Neighbours wind their shared edge the same way
+  | 'outward-normal';       // Polygon faces out of the enclosed volume
+
+/**
+ * A room geometry problem
+ */
+export interface RoomIssue {
+  type: RoomIssueType;
+  polygonIds: number[];   // Polygons involved, by index
+  message: string;        // Human-readable description
+  location?: Vector3;     // Where it occurs (edge midpoint, vertex)
+}
+
+/**
+ * Options for room validation
+ */
+export interface RoomValidationOptions {
+  tolerance?: number;     // Distance below which points coincide (default: 1e-6)
+}
+
+/**
+ * Result of validating a room
+ */
+export interface RoomValidationReport {
+  valid: boolean;              // No issues found
+  watertight: boolean;         // No open or non-manifold edges
+  consistentWinding: boolean;  // No neighbours wound the same way
+  normalsInward: boolean;      // No polygon faces out of the room
+  volume: number;              // Enclosed volume as given; negative when normals point outward
+  issues: RoomIssue[];
+}
+
+/**
+ * Two polygons sharing an edge piece
+ */
+interface EdgeLink {
+  a: number;
+  b: number;
+  sameDirection: boolean;   // Both traverse the piece the same way (inconsistent winding)
+}
+
+/**
+ * Validate room geometry
+ *
+ * @param polygons - Room polygons (normals pointing into the air)
+ * @param options - Validation options
+ *
+ * @example
+ * ```typescript
+ * const report = validateRoom(polygons);
+ * if (!report.valid) {
+ *   for (const issue of report.issues) console.warn(issue.message);
+ * }
+ * ```
+ */
+export function validateRoom(polygons: Polygon3D[], options: RoomValidationOptions = {}): RoomValidationReport {
+  const tolerance = options.tolerance ?? 1e-6;
+  const issues: RoomIssue[] = [];
+  const usable = checkPolygons(polygons, tolerance, issues);
+
+  checkOverlaps(polygons, usable, tolerance, issues);
+  const links = checkEdges(polygons, usable, tolerance, issues);
+
+  const flipped = solveOrientation(polygons, usable, links, tolerance);
+  flipped.forEach((flip, id) => {
+    if (flip) {
+      issues.push({
+        type: 'outward-normal',
+        polygonIds: [id],
+        message: `Polygon ${id} faces out of the room`,
+        location: Polygon3D.centroid(polygons[id])
+      });
+    }
+  });
+
+  const has = (...types: RoomIssueType[]) => issues.some(issue => types.includes(issue.type));
+  return {
+    valid: issues.length === 0,
+    watertight: !has('open-edge', 'non-manifold-edge'),
+    consistentWinding: !has('inconsistent-winding'),
+    normalsInward: !has('outward-normal'),
+    volume: enclosedVolume(polygons, polygons.map((_, id) => id).filter(id => usable[id]), []),
+    issues
+  };
+}
+
+/**
+ * Flip polygons so that every normal points into the room
+ *
+ * Winding is made consistent across shared edges first, so a single
+ * reversed wall is corrected even when the rest of the room is fine.
+ * Polygons whose side cannot be decided (free-standing panels) are kept.
+ *
+ * @returns New polygon array; unchanged polygons are the same objects
+ */
+export function orientNormalsInward(polygons: Polygon3D[], options: RoomValidationOptions = {}): Polygon3D[] {
+  const tolerance = options.tolerance ?? 1e-6;
+  const issues: RoomIssue[] = [];
+  const usable = checkPolygons(polygons, tolerance, issues);
+  const links = checkEdges(polygons, usable, tolerance, issues);
+  const flipped = solveOrientation(polygons, usable, links, tolerance);
+
+  return polygons.map((polygon, id) => flipped[id] ? Polygon3D.flip(polygon) : polygon);
+}
+
+/**
+ * Per-polygon checks; returns which polygons take part in the edge checks
+ */
+function checkPolygons(polygons: Polygon3D[], tolerance: number, issues: RoomIssue[]): boolean[] {
+  const seen = new Map<string, number>();
+
+  return polygons.map((polygon, id) => {
+    const location = Polygon3D.centroid(polygon);
+
+    if (Polygon3D.isDegenerate(polygon)) {
+      issues.push({ type: 'degenerate', polygonIds: [id], message: `Polygon ${id} has zero area`, location });
+      return false;
+    }
+    if (!isPlanarLoop(polygon.vertices, tolerance)) {
+      issues.push({ type: 'non-planar', polygonIds: [id], message: `Polygon ${id} is not planar`, location });
+    } else if (!isConvexLoop(polygon.vertices)) {
+      issues.push({ type: 'non-convex', polygonIds: [id], message: `Polygon ${id} is not convex`, location });
+    }
+
+    // Same vertex set in any order or winding
+    const key = polygon.vertices
+      .map(v => v.map(c => Math.round(c / tolerance)).join(','))
+      .sort()
+      .join(';');
+    const original = seen.get(key);
+    if (original !== undefined) {
+      issues.push({
+        type: 'duplicate',
+        polygonIds: [original, id],
+        message: `Polygon ${id} duplicates polygon ${original}`,
+        location
+      });
+      return false;
+    }
+    seen.set(key, id);
+    return true;
+  });
+}
+
+/**
+ * Find coplanar polygons whose interiors overlap
+ */
+function checkOverlaps(polygons: Polygon3D[], usable: boolean[], tolerance: number, issues: RoomIssue[]): void {
+  for (let i = 0; i < polygons.length; i++) {
+    if (!usable[i]) continue;
+    const normal = Plane3D.normal(polygons[i].plane);
+
+    for (let j = i + 1; j < polygons.length; j++) {
+      if (!usable[j]) continue;
+      const other = polygons[j];
+      const otherNormal = Plane3D.normal(other.plane);
+
+      if (Math.abs(Vector3.dot(normal, otherNormal)) < 1 - 1e-6) continue;
+      if (other.vertices.some(v => Math.abs(Plane3D.signedDistance(v, polygons[i].plane)) > tolerance)) continue;
+
+      // Clip polygon i to the inside of polygon j's edges
+      const edgePlanes = Polygon3D.edges(other).map(([start, end]) =>
+        Plane3D.fromNormalAndPoint(Vector3.normalize(Vector3.cross(otherNormal, Vector3.subtract(end, start))), start)
+      );
+      const shared = clipPolygonByPlanes(polygons[i], edgePlanes, -tolerance);
+
+      if (shared && Polygon3D.area(shared) > tolerance) {
+        issues.push({
+          type: 'overlap',
+          polygonIds: [i, j],
+          message: `Polygons ${i} and ${j} overlap`,
+          location: Polygon3D.centroid(shared)
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Match polygon edges; reports gaps, non-manifold edges, T-junctions and
+ * winding conflicts, and returns the edge links between polygons
+ */
+function checkEdges(polygons: Polygon3D[], usable: boolean[], tolerance: number, issues: RoomIssue[]): EdgeLink[] {
+  const adjacency = findEdgeAdjacency(polygons, tolerance, usable);
+  const { edges } = adjacency;
+  const unusable = polygons.map((_, id) => id).filter(id => !usable[id]);
+  const links: EdgeLink[] = [];
+
+  for (let i = 0; i < edges.length; i++) {
+    const edge = edges[i];
+
+    // Collinear neighbours ending inside this edge leave a vertex in its middle
+    const junctions = new Map<number, { t: number; polygonIds: number[] }>();
+    for (const { index, from, to } of adjacency.overlaps[i]) {
+      for (const t of [from, to]) {
+        if (t <= tolerance || t >= edge.length - tolerance) continue;
+        const cell = Math.round(t / tolerance);
+        const junction = junctions.get(cell) ?? { t, polygonIds: [edge.polygonId] };
+        junction.polygonIds.push(edges[index].polygonId);
+        junctions.set(cell, junction);
+      }
+    }
+    for (const { t, polygonIds } of junctions.values()) {
+      issues.push({
+        type: 't-junction',
+        polygonIds,
+        message: `Polygons ${polygonIds.slice(1).join(', ')} meet inside an edge of polygon ${edge.polygonId}`,
+        location: Vector3.add(edge.start, Vector3.scale(edge.direction, t))
+      });
+    }
+
+    // Walk the pieces this edge owns
+    let reported = '';
+    for (const { from, to, covering, owned } of edgePieces(adjacency, i, tolerance)) {
+      if (!owned) continue;
+
+      const mid = (from + to) / 2;
+      const location = Vector3.add(edge.start, Vector3.scale(edge.direction, mid));
+      const ids = [edge.polygonId, ...covering.map(o => edges[o.index].polygonId)];
+      const key = ids.join(',');
+      if (key === reported) continue;
+      reported = key;
+
+      if (covering.length === 0) {
+        if (restsOnFace(polygons, [edge.polygonId, ...unusable], location, tolerance)) continue;
+        issues.push({
+          type: 'open-edge',
+          polygonIds: ids,
+          message: `An edge of polygon ${edge.polygonId} is not shared with another polygon`,
+          location
+        });
+      } else if (covering.length === 1) {
+        const other = edges[covering[0].index];
+        const sameDirection = Vector3.dot(edge.direction, other.direction) > 0;
+        links.push({ a: edge.polygonId, b: other.polygonId, sameDirection });
+        if (sameDirection) {
+          issues.push({
+            type: 'inconsistent-winding',
+            polygonIds: ids,
+            message: `Polygons ${ids[0]} and ${ids[1]} wind their shared edge the same way`,
+            location
+          });
+        }
+      } else {
+        issues.push({
+          type: 'non-manifold-edge',
+          polygonIds: ids,
+          message: `An edge is shared by polygons ${ids.join(', ')}`,
+          location
+        });
+      }
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Decide which polygons to flip so that all normals point into the room
+ *
+ * The connected surface enclosing the largest volume is the room shell.
+ * Closed surfaces inside it (a pillar, a column of ducts) are obstacles,
+ * whose normals point out of them into the room.
+ */
+function solveOrientation(polygons: Polygon3D[], usable: boolean[], links: EdgeLink[], tolerance: number): boolean[] {
+  const flipped = polygons.map(() => false);
+  const visited = polygons.map((_, id) => !usable[id]);
+  const neighbours: Array<Array<{ id: number; sameDirection: boolean }>> = polygons.map(() => []);
+  for (const { a, b, sameDirection } of links) {
+    neighbours[a].push({ id: b, sameDirection });
+    neighbours[b].push({ id: a, sameDirection });
+  }
+
+  const components: number[][] = [];
+  for (let seed = 0; seed < polygons.length; seed++) {
+    if (visited[seed]) continue;
+
+    // Propagate winding over the connected surface
+    const component: number[] = [seed];
+    visited[seed] = true;
+    for (let k = 0; k < component.length; k++) {
+      const id = component[k];
+      for (const neighbour of neighbours[id]) {
+        if (visited[neighbour.id]) continue;
+        visited[neighbour.id] = true;
+        flipped[neighbour.id] = flipped[id] !== neighbour.sameDirection;
+        component.push(neighbour.id);
+      }
+    }
+    components.push(component);
+  }
+
+  const volumes = components.map(component => enclosedVolume(polygons, component, flipped));
+  let shell = -1;
+  volumes.forEach((volume, c) => {
+    if (Math.abs(volume) > tolerance && (shell === -1 || Math.abs(volume) > Math.abs(volumes[shell]))) shell = c;
+  });
+
+  components.forEach((component, c) => {
+    // Flat and open surfaces enclose nothing; keep them as given
+    if (Math.abs(volumes[c]) <= tolerance) {
+      for (const id of component) flipped[id] = false;
+      return;
+    }
+
+    // The shell encloses positive volume, obstacles inside it negative volume
+    const obstacle = c !== shell && encloses(polygons, components[shell], surfaceCentroid(polygons, component)!);
+    if ((volumes[c] < 0) !== obstacle) {
+      for (const id of component) flipped[id] = !flipped[id];
+    }
+  });
+
+  return flipped;
+}
+
+/**
+ * Check whether a closed surface encloses a point, by the parity of ray crossings
+ */
+function encloses(polygons: Polygon3D[], ids: number[], point: Vector3): boolean {
+  // An oblique direction, so the ray misses the edges of axis-aligned rooms
+  const direction = Vector3.normalize([0.3713, 0.5527, 0.7461]);
+  const crossings = ids.filter(id => Polygon3D.rayIntersection(point, direction, polygons[id]) !== null);
+  return crossings.length % 2 === 1;
+}
+
+/**
+ * Area-weighted centroid of a set of polygons, or null if they have no area
+ */
+function surfaceCentroid(polygons: Polygon3D[], ids: number[]): Vector3 | null {
+  let area = 0;
+  let weighted: Vector3 = [0, 0, 0];
+  for (const id of ids) {
+    const a = Polygon3D.area(polygons[id]);
+    area += a;
+    weighted = Vector3.add(weighted, Vector3.scale(Polygon3D.centroid(polygons[id]), a));
+  }
+  return area === 0 ? null : Vector3.scale(weighted, 1 / area);
+}
+
+/**
+ * Volume enclosed by a set of polygons (divergence theorem), positive when
+ * their normals (flipped where marked) point inward
+ *
+ * Measured from the area-weighted centroid, so open and flat surfaces give
+ * values near zero rather than depending on the origin.
+ */
+function enclosedVolume(polygons: Polygon3D[], ids: number[], flipped: boolean[]): number {
+  const reference = surfaceCentroid(polygons, ids);
+  if (!reference) return 0;
+
+  let volume = 0;
+  for (const id of ids) {
+    const polygon = polygons[id];
+    const vectorArea = Vector3.scale(newellNormal(polygon.vertices), flipped[id] ? -0.5 : 0.5);
+    volume -= Vector3.dot(vectorArea, Vector3.subtract(Polygon3D.centroid(polygon), reference)) / 3;
+  }
+  return volume;
+}
@@ -5,6 +5,7 @@
  * For tree-shaking or smaller bundles, you can import from subpaths:
  *   - import { Wall, Source, Solver } from 'beam-trace/2d'
  *   - import { Polygon3D, Source3D, Solver3D } from 'beam-trace/3d'
+ *   - import { ParallelSolver3D } from 'beam-trace/parallel' (Node only)
  *
  * @example 2D Usage
  * ```typescript
@@ -41,7 +42,10 @@ export {
   // Types
   type Point,
   type PathPoint,
+  type DiffractionPathPoint,
   type ReflectionPath,
+  type SolverOptions,
+  isDiffractionPoint,
 
   // Classes
   Wall,
@@ -71,9 +75,14 @@ export {
   // Core types
   Vector3,
   Plane3D,
+  Orientation3D,
+  directionToSpherical,
+  sphericalToDirection,
+  type SphericalDirection,
   type Point3D,
   type PathPoint3D,
   type ReflectionPath3D,
+  type ArrivalDirection3D,
   type PointClassification,
   type PolygonClassification,
   type FailPlaneType,
@@ -82,6 +91,7 @@ export {
   Polygon3D,
   createShoeboxRoom,
   createQuad,
+  type PolygonTransform3D,
   splitPolygon,
   splitPolygons,
   clipPolygonByPlane,
@@ -90,6 +100,32 @@ export {
   quickRejectPolygon,
   polygonMayIntersectVolume,
   clipRayByPlanes,
+  findDiffractionEdges,
+  edgeAngle,
+  isInEdgeWedge,
+  pointOnEdge,
+  type DiffractionEdge3D,
+  findEdgeAdjacency,
+  edgePieces,
+  restsOnFace,
+  type PolygonEdge3D,
+  type EdgeOverlap3D,
+  type EdgeAdjacency3D,
+  type EdgePiece3D,
+  newellNormal,
+  isPlanarLoop,
+  isConvexLoop,
+  removeCollinearVertices,
+  triangulateFace,
+  mergeCoplanarFaces,
+  weldVertices,
+  type IndexedFace,
+  validateRoom,
+  orientNormalsInward,
+  type RoomIssueType,
+  type RoomIssue,
+  type RoomValidationOptions,
+  type RoomValidationReport,
 
   // Structures - BSP
   buildBSP,
@@ -98,8 +134,11 @@ export {
   rayTraceAll,
   countNodes,
   treeDepth,
+  serializeBSP,
+  deserializeBSP,
   type BSPNode3D,
   type RayHit3D,
+  type SerializedBSP3D,
 
   // Structures - Beam
   createBeam3D,
@@ -116,6 +155,10 @@ export {
 
   // Structures - Beam Tree
   buildBeamTree3D,
+  computeReflectionCandidates,
+  editReflectionCandidates,
+  insertBeamTreePolygon,
+  removeBeamTreePolygon,
   collectNodesAtOrder,
   getNodeOrder,
   getReflectionPath,
@@ -123,12 +166,36 @@ export {
   getBeamTreeStats,
   clearFailPlanes,
   iterateNodes,
+  serializeBeamTree3D,
+  deserializeBeamTree3D,
   type BeamNode3D,
   type BeamTree3D,
   type BeamTreeStats,
+  type SerializedBeamTree3D,
+
+  // Structures - Flat Beam Tree
+  buildFlatBeamTree3D,
+  flattenBeamTree3D,
+  createFlatBeamTree3D,
+  serializeFlatBeamTree3D,
+  expandFlatBeamTree3D,
+  getFlatBeamNode,
+  getFlatVirtualSource,
+  getFlatAperture,
+  countFlatBeamNodes,
+  insertFlatBeamTreePolygon,
+  removeFlatBeamTreePolygon,
+  getFlatFailPlane,
+  setFlatFailPlane,
+  clearFlatFailPlane,
+  clearFlatFailPlanes,
+  flatFailPlaneDistance,
+  type FlatBeamTree3D,
+  type FlatBeamTreeEdit3D,
 
   // Optimization - Fail Plane
   detectFailPlane,
+  detectFlatFailPlane,
   propagateFailPlane,
   isListenerBehindFailPlane,
   distanceToFailPlane,
@@ -143,8 +210,10 @@ export {
   isInsideSkipSphere,
   checkSkipSphere,
   createSkipSphere,
+  createFlatSkipSphere,
   invalidateSkipSphere,
   clearBucketFailPlanes,
+  clearFlatBucketFailPlanes,
   updateBucketSkipSphere,
   processBucketSkipSphere,
   getSkipSphereStats,
@@ -157,15 +226,166 @@ export {
 
   // Solver
   OptimizedSolver3D,
+  MultiSourceSolver3D,
+  createSolverGeometry3D,
+  listenerGridPoints,
+  gridVisitOrder,
+  computeCoverage3D,
+  computeCoverage2D,
+  coverageImage,
   computePathLength,
   computeArrivalTime,
   getPathReflectionOrder,
+  findDiffractionPaths3D,
+  buildDiffractionBeams3D,
+  findReflectedDiffractionPaths3D,
+  diffractionPointOnEdge,
+  computeDiffractionGain,
+  type DiffractionBeams3D,
+  getSurfaceId,
+  groupSurfaces,
+  computeSurfaceStatistics,
+  removeDuplicateSurfacePaths,
+  type Surface3D,
+  type SurfaceStatistics3D,
   type PerformanceMetrics3D,
   type OptimizedSolver3DConfig,
+  type SolverGeometry3D,
+  type MultiSourceSolver3DConfig,
+  type SourcePath3D,
+  type ListenerGrid3D,
+  type GridOrder3D,
+  type GridOptions3D,
+  type GridPointPaths3D,
+  type GridPaths3D,
+  type CoverageSolver3D,
+  type ListenerGrid2D,
+  type CoverageRaster,
+  type CoverageMaps,
+  type CoverageOptions,
+  type CoverageImageOptions,
+  type DetailedPathOptions3D,
   type BeamVisualizationData,
 
+  // Acoustics - Bands and materials
+  OCTAVE_BANDS,
+  NUM_OCTAVE_BANDS,
+  createBandValues,
+  isBandValues,
+  addBandValues,
+  lossDbToEnergy,
+  energyToLossDb,
+  MaterialDatabase,
+  MATERIAL_PRESETS,
+  createMaterial,
+  reflectionLossDb,
+  isTransmissive,
+  type BandValues,
+  type AcousticMaterial,
+
+  // Acoustics - Air absorption
+  airAbsorptionCoefficient,
+  airAbsorptionBands,
+  annotateAirAbsorption,
+  type AtmosphericConditions,
+  type AirAbsorbingPath,
+
+  // Acoustics - Directivity
+  firstOrderDirectivity,
+  createBalloonDirectivity,
+  directivityGain,
+  type DirectivityPattern,
+  type FirstOrderPatternName,
+  type BalloonDirectivity,
+
+  // Acoustics - Diffraction
+  transitionFunction,
+  utdCoefficient,
+  type WedgeDiffractionGeometry,
+
+  // Acoustics - Impulse response
+  computePathArrivals,
+  computeArrivals3D,
+  computeArrivals2D,
+  arrivalAmplitude,
+  addFractionalImpulse,
+  renderImpulseResponse,
+  renderMultichannelImpulseResponse,
+  renderEchogram,
+  buildImpulseResponse,
+  type PathArrival,
+  type ArrivalOptions,
+  type SpreadingModel,
+  type FractionalDelayMethod,
+  type ImpulseResponseOptions,
+  type EchogramOptions,
+
+  // Acoustics - Room parameters
+  schroederDecay,
+  decayTime,
+  computeRoomParameters,
+  type RoomAcousticParameters,
+  type RoomParameterReport,
+  type RoomParameterOptions,
+
+  // Acoustics - Ambisonics
+  MAX_AMBISONIC_ORDER,
+  ambisonicChannelCount,
+  ambisonicCoefficients,
+  renderAmbisonicImpulseResponse,
+  buildAmbisonicImpulseResponse,
+  type AmbisonicNormalization,
+  type AmbisonicOptions,
+
+  // I/O - WAV
+  encodeWav,
+  decodeWav,
+  type WavBitDepth,
+  type WavEncodeOptions,
+  type WavData,
+
+  // I/O - Images
+  encodePng,
+  encodePpm,
+  type RgbaImage,
+
+  // I/O - Solver caches
+  SOLVER_CACHE_VERSION,
+  hashSolverInput3D,
+  encodeSolverCache3D,
+  decodeSolverCache3D,
+  type SolverCache3D,
+
+  // I/O - OBJ
+  parseObj,
+  type ObjImportOptions,
+  type ObjImportResult,
+
+  // I/O - CRAM
+  parseCram,
+  type CramImportOptions,
+  type CramImportResult,
+
+  // I/O - Scene files
+  SCENE_VERSION,
+  loadScene,
+  saveScene,
+  sceneToJson,
+  validateScene,
+  createSceneSolver,
+  type Scene,
+  type SceneSource,
+  type SceneListener,
+  type SceneJson,
+  type SceneMaterialJson,
+  type ScenePolygonJson,
+  type SceneSourceJson,
+  type SceneListenerJson,
+  type SceneSolverConfig,
+
   // Convenience classes
   Source3D,
+  type Source3DOptions,
   Listener3D,
   Solver3D,
   createRoom
@@ -0,0 +1,229 @@
+/**
+ * CRAM project import
+ *
+ * Reads the JSON save files of CRAM, the browser-based room acoustics
+ * modeler the demo rooms (concord.json, auditorium.json) come from. Only the
+ * fields below are used; everything else in the file is ignored.
+ *
+ * ```json
+ * {
+ *   "meta": { "name": "concord" },
+ *   "containers": [
+ *     {
+ *       "kind": "room",
+ *       "name": "concord",
+ *       "surfaces": [
+ *         { "kind": "surface", "name": "floor", "vertices": [x, y, z, ...], "acousticMaterial": { "name": "carpet" } }
+ *       ]
+ *     },
+ *     { "kind": "source", "name": "Source 1", "position": [3.7, 9.9, 1] },
+ *     { "kind": "receiver", "name": "Receiver 1", "position": [10.8, 3.8, 1.2] }
+ *   ]
+ * }
+ * ```
+ *
+ * `containers` may also be an object keyed by uuid. Surface triangles are
+ * either a flat `vertices` list (9 numbers per triangle) or `triangles` as
+ * [[x, y, z] × 3] arrays. Coordinates are Z-up, as in the solver.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Source3D, Listener3D } from '../core/source-listener3d';
+import { Polygon3D } from '../geometry/polygon3d';
+import {
+  IndexedFace,
+  mergeCoplanarFaces,
+  newellNormal,
+  removeCollinearVertices,
+  weldVertices
+} from '../geometry/polygon-merge';
+
+/**
+ * Options for importing a CRAM project
+ */
+export interface CramImportOptions {
+  mergeCoplanar?: boolean;     // Merge each surface's triangles into convex polygons (default: true)
+  tolerance?: number;          // Vertex welding and coplanarity distance (default: 1e-6)
+}
+
+/**
+ * Result of importing a CRAM project
+ */
+export interface CramImportResult {
+  name?: string;                        // Project name (meta.name)
+  polygons: Polygon3D[];                // Room surfaces as convex polygons, surfaceId = CRAM surface index
+  surfaceNames: string[];               // CRAM surface name of each polygon
+  materialIds: Record<string, number>;  // materialId of every acoustic material name, from 1
+  sources: Source3D[];
+  sourceNames: string[];
+  listeners: Listener3D[];              // CRAM receivers
+  listenerNames: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Parse a CRAM save file
+ *
+ * @param input - File contents, or the parsed JSON
+ * @param options - Import options
+ *
+ * @example
+ * ```typescript
+ * const project = parseCram(readFileSync('concord.json', 'utf8'));
+ * const solver = new Solver3D(project.polygons, project.sources[0], { maxReflectionOrder: 3 });
+ * const paths = solver.getPaths(project.listeners[0]);
+ * ```
+ */
+export function parseCram(input: string | unknown, options: CramImportOptions = {}): CramImportResult {
+  const tolerance = options.tolerance ?? 1e-6;
+
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new Error(`CRAM: invalid JSON (${(err as Error).message})`);
+    }
+  }
+
+  const root = expectObject(value, 'file');
+  if (root.containers === undefined) {
+    throw new Error('CRAM: file has no containers');
+  }
+  const containers = Array.isArray(root.containers)
+    ? root.containers.map((c, i): [string, unknown] => [`containers[${i}]`, c])
+    : Object.entries(expectObject(root.containers, 'containers')).map(([key, c]): [string, unknown] => [`containers.${key}`, c]);
+
+  const positions: Vector3[] = [];
+  const faces: IndexedFace[] = [];
+  const surfaceNames: string[] = [];
+  const surfaceMaterials: Array<number | undefined> = [];
+  const materialIds: Record<string, number> = {};
+  const result: CramImportResult = {
+    polygons: [],
+    surfaceNames: [],
+    materialIds,
+    sources: [],
+    sourceNames: [],
+    listeners: [],
+    listenerNames: []
+  };
+
+  const meta = root.meta;
+  if (typeof meta === 'object' && meta !== null && typeof (meta as JsonObject).name === 'string') {
+    result.name = (meta as JsonObject).name as string;
+  }
+
+  for (const [path, entry] of containers) {
+    const container = expectObject(entry, path);
+    const kind = typeof container.kind === 'string' ? container.kind.toLowerCase() : '';
+    const name = typeof container.name === 'string' ? container.name : '';
+
+    if (kind === 'room') {
+      expectArray(container.surfaces, `${path}.surfaces`).forEach((surfaceEntry, s) => {
+        const surfacePath = `${path}.surfaces[${s}]`;
+        const surface = expectObject(surfaceEntry, surfacePath);
+        const surfaceIndex = surfaceNames.length;
+        surfaceNames.push(typeof surface.name === 'string' ? surface.name : `surface ${surfaceIndex}`);
+        surfaceMaterials.push(materialId(surface.acousticMaterial, materialIds));
+
+        for (const triangle of readTriangles(surface, surfacePath)) {
+          const start = positions.length;
+          positions.push(...triangle);
+          faces.push({ indices: [start, start + 1, start + 2], key: String(surfaceIndex) });
+        }
+      });
+    } else if (kind === 'source') {
+      result.sources.push(new Source3D(expectVector3(container.position, `${path}.position`)));
+      result.sourceNames.push(name);
+    } else if (kind === 'receiver') {
+      result.listeners.push(new Listener3D(expectVector3(container.position, `${path}.position`)));
+      result.listenerNames.push(name);
+    }
+  }
+
+  // Weld shared corners so each surface's triangles can merge
+  const { vertices, remap } = weldVertices(positions, tolerance);
+  const welded = faces
+    .map(face => ({ indices: face.indices.map(i => remap[i]), key: face.key }))
+    .filter(face =>
+      new Set(face.indices).size === 3 &&
+      Vector3.length(newellNormal(face.indices.map(i => vertices[i]))) > tolerance * tolerance
+    );
+
+  const merged = options.mergeCoplanar === false ? welded : mergeCoplanarFaces(vertices, welded, tolerance);
+  for (const face of merged) {
+    const surfaceIndex = Number(face.key);
+    const points = removeCollinearVertices(face.indices.map(i => vertices[i]), tolerance);
+    result.polygons.push({ ...Polygon3D.create(points, surfaceMaterials[surfaceIndex]), surfaceId: surfaceIndex });
+    result.surfaceNames.push(surfaceNames[surfaceIndex]);
+  }
+
+  return result;
+}
+
+/**
+ * Read a surface's triangles from `vertices` (flat) or `triangles` (nested)
+ */
+function readTriangles(surface: JsonObject, path: string): Vector3[][] {
+  if (surface.vertices !== undefined) {
+    const flat = expectArray(surface.vertices, `${path}.vertices`);
+    if (flat.length % 9 !== 0 || flat.some(c => typeof c !== 'number' || !Number.isFinite(c))) {
+      throw new Error(`CRAM: ${path}.vertices: expected numbers, 9 per triangle`);
+    }
+    const triangles: Vector3[][] = [];
+    for (let i = 0; i < flat.length; i += 9) {
+      const c = flat.slice(i, i + 9) as number[];
+      triangles.push([[c[0], c[1], c[2]], [c[3], c[4], c[5]], [c[6], c[7], c[8]]]);
+    }
+    return triangles;
+  }
+
+  if (surface.triangles !== undefined) {
+    return expectArray(surface.triangles, `${path}.triangles`).map((triangle, t) => {
+      const corners = expectArray(triangle, `${path}.triangles[${t}]`);
+      if (corners.length !== 3) {
+        throw new Error(`CRAM: ${path}.triangles[${t}]: expected 3 vertices`);
+      }
+      return corners.map((corner, k) => expectVector3(corner, `${path}.triangles[${t}][${k}]`));
+    });
+  }
+
+  throw new Error(`CRAM: ${path}: surface has no vertices or triangles`);
+}
+
+/**
+ * Id for a surface's acoustic material, assigned by name in order of appearance
+ */
+function materialId(material: unknown, ids: Record<string, number>): number | undefined {
+  if (typeof material !== 'object' || material === null) return undefined;
+  const name = (material as JsonObject).name;
+  if (typeof name !== 'string') return undefined;
+
+  if (!(name in ids)) {
+    ids[name] = Object.keys(ids).length + 1;
+  }
+  return ids[name];
+}
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`CRAM: ${path}: expected an object`);
+  }
+  return value as JsonObject;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`CRAM: ${path}: expected an array`);
+  }
+  return value;
+}
+
+function expectVector3(value: unknown, path: string): Vector3 {
+  if (!Array.isArray(value) || value.length !== 3 || value.some(c => typeof c !== 'number' || !Number.isFinite(c))) {
+    throw new Error(`CRAM: ${path}: expected [x, y, z]`);
+  }
+  return [value[0], value[1], value[2]];
+}
@@ -0,0 +1,182 @@
+/**
+ * PNG and PPM image encoding
+ *
+ * Pure TypeScript, no Node or browser APIs: output is a Uint8Array that can be
+ * written with fs.writeFileSync() or turned into a Blob. Images are 8-bit
+ * RGBA, laid out like a canvas ImageData (rows top to bottom).
+ *
+ * PNG data is stored uncompressed (deflate "stored" blocks), which every
+ * decoder accepts; PPM (P6) has no alpha channel, so it is dropped.
+ */
+
+/**
+ * 8-bit RGBA image (compatible with a canvas ImageData)
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array; // width * height * 4 bytes, rows top to bottom
+}
+
+/** PNG file signature */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Largest payload of a deflate stored block */
+const MAX_STORED_BLOCK = 0xffff;
+
+/** CRC-32 lookup table (polynomial 0xedb88320) */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Encode an image as a PNG file (8-bit RGBA)
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync('spl.png', encodePng(coverageImage(maps.spl)));
+ * ```
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+  checkImage(image, 'PNG');
+  const { width, height, data } = image;
+
+  // Scanlines, each prefixed with filter type 0 (none)
+  const rowBytes = width * 4;
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;   // Bit depth
+  header[9] = 6;   // Colour type: RGBA
+  // Compression, filter and interlace methods are all 0
+
+  const chunks = [
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStored(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ];
+  return concatBytes([new Uint8Array(PNG_SIGNATURE), ...chunks]);
+}
+
+/**
+ * Encode an image as a binary PPM (P6) file, dropping the alpha channel
+ */
+export function encodePpm(image: RgbaImage): Uint8Array {
+  checkImage(image, 'PPM');
+  const { width, height, data } = image;
+
+  const header = new TextEncoder().encode(`P6\n${width} ${height}\n255\n`);
+  const out = new Uint8Array(header.length + width * height * 3);
+  out.set(header);
+  for (let i = 0, o = header.length; i < width * height; i++, o += 3) {
+    out[o] = data[i * 4];
+    out[o + 1] = data[i * 4 + 1];
+    out[o + 2] = data[i * 4 + 2];
+  }
+  return out;
+}
+
+/**
+ * Throw unless the image has positive integer dimensions and matching data
+ */
+function checkImage(image: RgbaImage, format: string): void {
+  const { width, height, data } = image;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`${format}: width and height must be positive integers, got ${width} x ${height}`);
+  }
+  if (data.length !== width * height * 4) {
+    throw new Error(`${format}: expected ${width * height * 4} bytes of RGBA data, got ${data.length}`);
+  }
+}
+
+/**
+ * A PNG chunk: length, type, data and CRC of type and data
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Wrap bytes in a zlib stream of uncompressed deflate blocks
+ */
+function zlibStored(bytes: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(bytes.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + bytes.length + blockCount * 5 + 4);
+  out[0] = 0x78;   // Deflate, 32K window
+  out[1] = 0x01;   // No preset dictionary, lowest level; header is a multiple of 31
+
+  let o = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, bytes.length - start);
+    out[o] = block === blockCount - 1 ? 1 : 0;   // BFINAL, BTYPE = 00 (stored)
+    out[o + 1] = length & 0xff;
+    out[o + 2] = length >>> 8;
+    out[o + 3] = ~length & 0xff;
+    out[o + 4] = (~length >>> 8) & 0xff;
+    out.set(bytes.subarray(start, start + length), o + 5);
+    o += 5 + length;
+  }
+
+  new DataView(out.buffer).setUint32(o, adler32(bytes));
+  return out;
+}
+
+/**
+ * CRC-32 as used by PNG chunks
+ */
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Adler-32 checksum of a zlib stream's uncompressed data
+ */
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,204 @@
+/**
+ * Wavefront OBJ import
+ *
+ * Parses the geometry subset of OBJ (v, f, g, o, usemtl) into Polygon3D
+ * arrays. Texture coordinates, normals, smoothing groups and material
+ * libraries are ignored; `usemtl` names map to numeric materialIds for a
+ * MaterialDatabase.
+ *
+ * Triangulated surfaces are merged back into convex polygons (see
+ * mergeCoplanarFaces) within each group and material, and every polygon
+ * keeps the name of the group it came from.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Polygon3D } from '../geometry/polygon3d';
+import {
+  IndexedFace,
+  isConvexLoop,
+  isPlanarLoop,
+  mergeCoplanarFaces,
+  newellNormal,
+  removeCollinearVertices,
+  triangulateFace,
+  weldVertices
+} from '../geometry/polygon-merge';
+
+/**
+ * Options for importing an OBJ file
+ */
+export interface ObjImportOptions {
+  yUp?: boolean;                        // File is Y-up (OBJ convention); rotate to Z-up (default: false)
+  scale?: number;                       // Coordinate scale, e.g. 0.0254 for inches (default: 1)
+  flipNormals?: boolean;                // Reverse face winding (default: false)
+  mergeCoplanar?: boolean;              // Merge coplanar faces into polygons (default: true)
+  tolerance?: number;                   // Vertex welding and coplanarity distance (default: 1e-6)
+  materialIds?: Record<string, number>; // usemtl name -> materialId; other names get new ids
+}
+
+/**
+ * Result of importing an OBJ file
+ */
+export interface ObjImportResult {
+  polygons: Polygon3D[];                // Convex polygons
+  groups: string[];                     // Group (g / o) name of each polygon
+  materialIds: Record<string, number>;  // materialId of every usemtl name in the file
+  skippedFaces: number;                 // Degenerate (zero-area) faces dropped
+}
+
+/** Group name for faces before any g or o statement */
+const DEFAULT_GROUP = 'default';
+
+/**
+ * A face with the group and material it was declared under
+ */
+interface ObjFace {
+  indices: number[];
+  group: string;
+  material?: string;
+}
+
+/**
+ * Parse an OBJ file into polygons
+ *
+ * Polygons face the way the OBJ faces do (counter-clockwise front). Room
+ * normals must point into the air, so set flipNormals for models whose
+ * faces point out of the room.
+ *
+ * @example
+ * ```typescript
+ * const { polygons, groups, materialIds } = parseObj(readFileSync('office.obj', 'utf8'), { yUp: true });
+ * const materials = new MaterialDatabase().registerPreset(materialIds['Carpet'], 'carpet');
+ * const solver = new Solver3D(polygons, source, { materials });
+ * ```
+ */
+export function parseObj(text: string, options: ObjImportOptions = {}): ObjImportResult {
+  const scale = options.scale ?? 1;
+  const tolerance = options.tolerance ?? 1e-6;
+  if (!(scale > 0)) {
+    throw new Error(`OBJ: scale must be positive, got ${scale}`);
+  }
+
+  const positions: Vector3[] = [];
+  const faces: ObjFace[] = [];
+  let group = DEFAULT_GROUP;
+  let material: string | undefined;
+
+  const lines = text.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].replace(/#.*/, '').trim();
+    if (line === '') continue;
+
+    const [keyword, ...args] = line.split(/\s+/);
+    const context = `OBJ: line ${lineIndex + 1}`;
+
+    switch (keyword) {
+      case 'v': {
+        const coords = args.slice(0, 3).map(Number);
+        if (coords.length < 3 || coords.some(c => !Number.isFinite(c))) {
+          throw new Error(`${context}: vertex needs three numeric coordinates`);
+        }
+        const [x, y, z] = coords.map(c => c * scale);
+        positions.push(options.yUp ? [x, -z, y] : [x, y, z]);
+        break;
+      }
+      case 'f': {
+        if (args.length < 3) {
+          throw new Error(`${context}: face needs at least three vertices`);
+        }
+        const indices = args.map(arg => resolveIndex(arg, positions.length, context));
+        faces.push({ indices: options.flipNormals ? indices.reverse() : indices, group, material });
+        break;
+      }
+      case 'g':
+      case 'o':
+        group = args.length > 0 ? args.join(' ') : DEFAULT_GROUP;
+        break;
+      case 'usemtl':
+        material = args.length > 0 ? args.join(' ') : undefined;
+        break;
+      default:
+        // vt, vn, s, mtllib, l, ... carry nothing the tracer uses
+        break;
+    }
+  }
+
+  const materialIds = assignMaterialIds(faces, options.materialIds ?? {});
+  const { vertices, remap } = weldVertices(positions, tolerance);
+
+  // Split faces into planar convex pieces, keyed by group and material
+  const keyed: IndexedFace[] = [];
+  const keyInfo = new Map<string, { group: string; materialId?: number }>();
+  let skippedFaces = 0;
+
+  for (const face of faces) {
+    const indices = face.indices
+      .map(i => remap[i])
+      .filter((v, i, all) => v !== all[(i + 1) % all.length]);
+    const loop = indices.map(i => vertices[i]);
+
+    if (indices.length < 3 || Vector3.length(newellNormal(loop)) <= tolerance * tolerance) {
+      skippedFaces++;
+      continue;
+    }
+
+    const key = `${face.group}\u0000${face.material ?? ''}`;
+    keyInfo.set(key, {
+      group: face.group,
+      materialId: face.material === undefined ? undefined : materialIds[face.material]
+    });
+
+    const pieces = isPlanarLoop(loop, tolerance) && isConvexLoop(loop)
+      ? [indices]
+      : triangulateFace(vertices, indices);
+    for (const piece of pieces) {
+      if (Vector3.length(newellNormal(piece.map(i => vertices[i]))) <= tolerance * tolerance) {
+        continue;
+      }
+      keyed.push({ indices: piece, key });
+    }
+  }
+
+  const merged = options.mergeCoplanar === false ? keyed : mergeCoplanarFaces(vertices, keyed, tolerance);
+
+  const polygons: Polygon3D[] = [];
+  const groups: string[] = [];
+  for (const face of merged) {
+    const points = removeCollinearVertices(face.indices.map(i => vertices[i]), tolerance);
+    const info = keyInfo.get(face.key)!;
+    polygons.push(Polygon3D.create(points, info.materialId));
+    groups.push(info.group);
+  }
+
+  return { polygons, groups, materialIds, skippedFaces };
+}
+
+/**
+ * Resolve a face vertex reference (v, v/vt, v//vn or v/vt/vn; negative = relative)
+ */
+function resolveIndex(reference: string, vertexCount: number, context: string): number {
+  const value = Number(reference.split('/')[0]);
+  if (!Number.isInteger(value) || value === 0) {
+    throw new Error(`${context}: invalid vertex reference "${reference}"`);
+  }
+
+  const index = value > 0 ? value - 1 : vertexCount + value;
+  if (index < 0 || index >= vertexCount) {
+    throw new Error(`${context}: vertex ${value} is out of range (${vertexCount} vertices defined)`);
+  }
+  return index;
+}
+
+/**
+ * Give every usemtl name a materialId, starting after the largest given id
+ */
+function assignMaterialIds(faces: ObjFace[], given: Record<string, number>): Record<string, number> {
+  const ids: Record<string, number> = {};
+  let next = Math.max(0, ...Object.values(given)) + 1;
+
+  for (const { material } of faces) {
+    if (material === undefined || material in ids) continue;
+    ids[material] = material in given ? given[material] : next++;
+  }
+  return ids;
+}
@@ -0,0 +1,520 @@
+/**
+ * JSON scene files
+ *
+ * A scene holds everything a 3D simulation needs: named polygons with
+ * materials, sources, listeners and solver settings, so it can be checked
+ * into a repository and shared between the demo and batch jobs.
+ *
+ * Version 1 layout (orientations in radians, directivity as in DirectivityPattern):
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "name": "Meeting room",
+ *   "materials": {
+ *     "floor": { "preset": "carpet" },
+ *     "panel": { "absorption": [0.3, 0.4, 0.5, 0.5, 0.4, 0.3], "scattering": [0.1, 0.1, 0.1, 0.1, 0.1, 0.1] }
+ *   },
+ *   "polygons": [{ "name": "floor", "vertices": [[0, 0, 0], [6, 0, 0], [6, 4, 0], [0, 4, 0]], "material": "floor" }],
+ *   "sources": [{ "name": "talker", "position": [2, 2, 1.5], "directivity": { "type": "cardioid" } }],
+ *   "listeners": [{ "position": [4, 3, 1.2], "orientation": { "yaw": 3.14159, "pitch": 0, "roll": 0 } }],
+ *   "solver": { "maxReflectionOrder": 3, "airAbsorption": true }
+ * }
+ * ```
+ *
+ * Validation is strict: unknown fields, wrong types and invalid geometry are
+ * rejected with an error naming the offending field, e.g.
+ * "Scene: polygons[3].vertices[1]: expected [x, y, z]".
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Orientation3D } from '../core/orientation3d';
+import { Polygon3D } from '../geometry/polygon3d';
+import { isConvexLoop, isPlanarLoop, newellNormal } from '../geometry/polygon-merge';
+import { AcousticMaterial, MATERIAL_PRESETS, MaterialDatabase, createMaterial } from '../acoustics/materials';
+import { AtmosphericConditions } from '../acoustics/air-absorption';
+import {
+  DirectivityPattern,
+  FirstOrderPatternName,
+  createBalloonDirectivity,
+  firstOrderDirectivity
+} from '../acoustics/directivity';
+import { OptimizedSolver3D, OptimizedSolver3DConfig } from '../solver/solver3d';
+
+/** Scene format version written by saveScene */
+export const SCENE_VERSION = 1;
+
+/**
+ * Material entry: a named preset or explicit coefficients
+ */
+export type SceneMaterialJson =
+  | { preset: string }
+  | { absorption: number[]; scattering?: number[]; transmissionLoss?: number[] };
+
+/**
+ * Polygon entry
+ */
+export interface ScenePolygonJson {
+  name?: string;               // Surface name
+  vertices: Vector3[];         // Convex, planar, counter-clockwise seen from the room
+  material?: string;           // Key into materials (default: rigid)
+}
+
+/**
+ * Source entry
+ */
+export interface SceneSourceJson {
+  name?: string;
+  position: Vector3;
+  orientation?: Orientation3D;       // Default: facing +X
+  directivity?: DirectivityPattern;  // Default: omnidirectional
+}
+
+/**
+ * Listener entry
+ */
+export interface SceneListenerJson {
+  name?: string;
+  position: Vector3;
+  orientation?: Orientation3D;       // Default: facing +X
+}
+
+/**
+ * Solver settings stored in a scene (materials and source settings come from the scene itself)
+ */
+export type SceneSolverConfig = Pick<
+  OptimizedSolver3DConfig,
+  'maxReflectionOrder' | 'bucketSize' | 'airAbsorption' | 'diffractionOrder' | 'transmission'
+>;
+
+/**
+ * A scene file as stored on disk
+ */
+export interface SceneJson {
+  version: number;
+  name?: string;
+  materials?: Record<string, SceneMaterialJson>;
+  polygons: ScenePolygonJson[];
+  sources: SceneSourceJson[];
+  listeners: SceneListenerJson[];
+  solver?: SceneSolverConfig;
+}
+
+/**
+ * A source in a loaded scene
+ */
+export interface SceneSource {
+  name?: string;
+  position: Vector3;
+  orientation: Orientation3D;
+  directivity?: DirectivityPattern;
+}
+
+/**
+ * A listener in a loaded scene
+ */
+export interface SceneListener {
+  name?: string;
+  position: Vector3;
+  orientation: Orientation3D;
+}
+
+/**
+ * A loaded scene, ready for the solver
+ */
+export interface Scene {
+  name?: string;
+  polygons: Polygon3D[];
+  polygonNames: Array<string | undefined>; // Name of each polygon, if any
+  materials: MaterialDatabase;
+  materialIds: Record<string, number>;     // Material name -> Polygon3D.materialId
+  sources: SceneSource[];
+  listeners: SceneListener[];
+  solver: SceneSolverConfig;
+}
+
+const FIRST_ORDER_PATTERNS: FirstOrderPatternName[] = [
+  'omni', 'subcardioid', 'cardioid', 'supercardioid', 'hypercardioid', 'figure8'
+];
+
+/**
+ * Load a scene from JSON text (or an already parsed object)
+ *
+ * @throws Error naming the offending field if the scene is invalid
+ */
+export function loadScene(input: string | unknown): Scene {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new Error(`Scene: invalid JSON (${(err as Error).message})`);
+    }
+  }
+  return buildScene(validateScene(value));
+}
+
+/**
+ * Save a scene as JSON text
+ *
+ * Materials are written with explicit coefficients; every materialId used
+ * by a polygon needs a name in scene.materialIds.
+ */
+export function saveScene(scene: Scene): string {
+  return JSON.stringify(sceneToJson(scene), null, 2);
+}
+
+/**
+ * Convert a loaded scene back to its file representation
+ */
+export function sceneToJson(scene: Scene): SceneJson {
+  const names = new Map<number, string>();
+  const materials: Record<string, SceneMaterialJson> = {};
+  for (const [name, id] of Object.entries(scene.materialIds)) {
+    const material = scene.materials.get(id);
+    if (!material) {
+      throw new Error(`Scene: material "${name}" (id ${id}) is not in the material database`);
+    }
+    names.set(id, name);
+    materials[name] = materialToJson(material);
+  }
+
+  const polygons = scene.polygons.map((polygon, i): ScenePolygonJson => {
+    const entry: ScenePolygonJson = { vertices: polygon.vertices.map(v => Vector3.clone(v)) };
+    const name = scene.polygonNames[i];
+    if (name !== undefined) entry.name = name;
+    if (polygon.materialId !== undefined) {
+      const material = names.get(polygon.materialId);
+      if (material === undefined) {
+        throw new Error(`Scene: polygons[${i}] uses materialId ${polygon.materialId}, which has no name in materialIds`);
+      }
+      entry.material = material;
+    }
+    return entry;
+  });
+
+  return {
+    version: SCENE_VERSION,
+    ...(scene.name !== undefined ? { name: scene.name } : {}),
+    materials,
+    polygons,
+    sources: scene.sources.map(source => {
+      const entry: SceneSourceJson = { position: Vector3.clone(source.position), orientation: { ...source.orientation } };
+      if (source.name !== undefined) entry.name = source.name;
+      if (source.directivity) entry.directivity = source.directivity;
+      return entry;
+    }),
+    listeners: scene.listeners.map(listener => {
+      const entry: SceneListenerJson = { position: Vector3.clone(listener.position), orientation: { ...listener.orientation } };
+      if (listener.name !== undefined) entry.name = listener.name;
+      return entry;
+    }),
+    solver: { ...scene.solver }
+  };
+}
+
+/**
+ * Create a solver for one of the scene's sources
+ *
+ * @param scene - Loaded scene
+ * @param sourceIndex - Index into scene.sources (default: 0)
+ */
+export function createSceneSolver(scene: Scene, sourceIndex: number = 0): OptimizedSolver3D {
+  const source = scene.sources[sourceIndex];
+  if (!source) {
+    throw new Error(`Scene: no source at index ${sourceIndex} (${scene.sources.length} sources)`);
+  }
+  return new OptimizedSolver3D(scene.polygons, source.position, {
+    ...scene.solver,
+    materials: scene.materials,
+    sourceOrientation: source.orientation,
+    sourceDirectivity: source.directivity
+  });
+}
+
+/**
+ * Check that a value is a valid scene file
+ *
+ * @returns The value, typed as a scene file
+ * @throws Error naming the offending field
+ */
+export function validateScene(value: unknown): SceneJson {
+  const root = expectObject(value, '', ['version', 'name', 'materials', 'polygons', 'sources', 'listeners', 'solver']);
+
+  const version = expectInteger(root.version, 'version');
+  if (version < 1 || version > SCENE_VERSION) {
+    throw fieldError('version', `unsupported version ${version} (supported: 1 to ${SCENE_VERSION})`);
+  }
+  optional(root.name, 'name', expectString);
+
+  const materialNames = new Set<string>();
+  if (root.materials !== undefined) {
+    const materials = expectObject(root.materials, 'materials');
+    for (const [name, entry] of Object.entries(materials)) {
+      validateMaterial(name, entry, `materials.${name}`);
+      materialNames.add(name);
+    }
+  }
+
+  expectArray(root.polygons, 'polygons').forEach((entry, i) => {
+    const path = `polygons[${i}]`;
+    const polygon = expectObject(entry, path, ['name', 'vertices', 'material']);
+    optional(polygon.name, `${path}.name`, expectString);
+    validatePolygonVertices(polygon.vertices, `${path}.vertices`);
+    if (polygon.material !== undefined && !materialNames.has(expectString(polygon.material, `${path}.material`))) {
+      throw fieldError(`${path}.material`, `unknown material "${polygon.material}"`);
+    }
+  });
+
+  expectArray(root.sources, 'sources').forEach((entry, i) => {
+    const path = `sources[${i}]`;
+    const source = expectObject(entry, path, ['name', 'position', 'orientation', 'directivity']);
+    optional(source.name, `${path}.name`, expectString);
+    expectVector3(source.position, `${path}.position`);
+    optional(source.orientation, `${path}.orientation`, validateOrientation);
+    optional(source.directivity, `${path}.directivity`, validateDirectivity);
+  });
+
+  expectArray(root.listeners, 'listeners').forEach((entry, i) => {
+    const path = `listeners[${i}]`;
+    const listener = expectObject(entry, path, ['name', 'position', 'orientation']);
+    optional(listener.name, `${path}.name`, expectString);
+    expectVector3(listener.position, `${path}.position`);
+    optional(listener.orientation, `${path}.orientation`, validateOrientation);
+  });
+
+  optional(root.solver, 'solver', validateSolverConfig);
+
+  return value as SceneJson;
+}
+
+/**
+ * Build a scene from a validated file
+ */
+function buildScene(json: SceneJson): Scene {
+  const materials = new MaterialDatabase();
+  const materialIds: Record<string, number> = {};
+
+  Object.entries(json.materials ?? {}).forEach(([name, entry], i) => {
+    const id = i + 1;
+    materialIds[name] = id;
+    if ('preset' in entry) {
+      materials.register(id, { ...MATERIAL_PRESETS[entry.preset], name });
+    } else {
+      materials.register(id, createMaterial(name, entry.absorption, entry.scattering, entry.transmissionLoss));
+    }
+  });
+
+  return {
+    name: json.name,
+    polygons: json.polygons.map(p =>
+      Polygon3D.create(p.vertices, p.material === undefined ? undefined : materialIds[p.material])
+    ),
+    polygonNames: json.polygons.map(p => p.name),
+    materials,
+    materialIds,
+    sources: json.sources.map(s => ({
+      name: s.name,
+      position: Vector3.clone(s.position),
+      orientation: { ...(s.orientation ?? Orientation3D.create()) },
+      directivity: s.directivity
+    })),
+    listeners: json.listeners.map(l => ({
+      name: l.name,
+      position: Vector3.clone(l.position),
+      orientation: { ...(l.orientation ?? Orientation3D.create()) }
+    })),
+    solver: { ...json.solver }
+  };
+}
+
+function materialToJson(material: AcousticMaterial): SceneMaterialJson {
+  return material.transmissionLoss
+    ? { absorption: [...material.absorption], scattering: [...material.scattering], transmissionLoss: [...material.transmissionLoss] }
+    : { absorption: [...material.absorption], scattering: [...material.scattering] };
+}
+
+// ============================================================
+// Field validators
+// ============================================================
+
+type JsonObject = Record<string, unknown>;
+
+function fieldError(path: string, message: string): Error {
+  return new Error(path ? `Scene: ${path}: ${message}` : `Scene: ${message}`);
+}
+
+function optional(value: unknown, path: string, check: (value: unknown, path: string) => unknown): void {
+  if (value !== undefined) check(value, path);
+}
+
+function expectObject(value: unknown, path: string, allowed?: string[]): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw fieldError(path, 'expected an object');
+  }
+  if (allowed) {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        throw fieldError(path ? `${path}.${key}` : key, 'unknown field');
+      }
+    }
+  }
+  return value as JsonObject;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw fieldError(path, 'expected an array');
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw fieldError(path, 'expected a string');
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw fieldError(path, 'expected a finite number');
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string): number {
+  if (!Number.isInteger(value)) {
+    throw fieldError(path, 'expected an integer');
+  }
+  return value as number;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw fieldError(path, 'expected true or false');
+  }
+  return value;
+}
+
+function expectVector3(value: unknown, path: string): Vector3 {
+  if (!Array.isArray(value) || value.length !== 3 || value.some(c => typeof c !== 'number' || !Number.isFinite(c))) {
+    throw fieldError(path, 'expected [x, y, z]');
+  }
+  return value as Vector3;
+}
+
+function expectNumberArray(value: unknown, path: string): number[] {
+  return expectArray(value, path).map((v, i) => expectNumber(v, `${path}[${i}]`));
+}
+
+function validateMaterial(name: string, value: unknown, path: string): void {
+  const entry = expectObject(value, path);
+  if ('preset' in entry) {
+    expectObject(entry, path, ['preset']);
+    const preset = expectString(entry.preset, `${path}.preset`);
+    if (!MATERIAL_PRESETS[preset]) {
+      throw fieldError(`${path}.preset`, `unknown preset "${preset}" (available: ${Object.keys(MATERIAL_PRESETS).join(', ')})`);
+    }
+    return;
+  }
+
+  expectObject(entry, path, ['absorption', 'scattering', 'transmissionLoss']);
+  const absorption = expectNumberArray(entry.absorption, `${path}.absorption`);
+  const scattering = entry.scattering === undefined ? undefined : expectNumberArray(entry.scattering, `${path}.scattering`);
+  const transmissionLoss = entry.transmissionLoss === undefined
+    ? undefined
+    : expectNumberArray(entry.transmissionLoss, `${path}.transmissionLoss`);
+
+  try {
+    createMaterial(name, absorption, scattering, transmissionLoss);
+  } catch (err) {
+    throw fieldError(path, (err as Error).message);
+  }
+}
+
+function validatePolygonVertices(value: unknown, path: string): void {
+  const vertices = expectArray(value, path).map((v, i) => expectVector3(v, `${path}[${i}]`));
+  if (vertices.length < 3) {
+    throw fieldError(path, 'a polygon needs at least 3 vertices');
+  }
+  if (Vector3.length(newellNormal(vertices)) < 1e-12) {
+    throw fieldError(path, 'polygon has zero area');
+  }
+  if (!isPlanarLoop(vertices)) {
+    throw fieldError(path, 'polygon is not planar');
+  }
+  if (!isConvexLoop(vertices)) {
+    throw fieldError(path, 'polygon is not convex');
+  }
+}
+
+function validateOrientation(value: unknown, path: string): void {
+  const orientation = expectObject(value, path, ['yaw', 'pitch', 'roll']);
+  for (const key of ['yaw', 'pitch', 'roll']) {
+    expectNumber(orientation[key], `${path}.${key}`);
+  }
+}
+
+function validateDirectivity(value: unknown, path: string): void {
+  const pattern = expectObject(value, path);
+  const type = expectString(pattern.type, `${path}.type`);
+
+  try {
+    if (type === 'firstOrder') {
+      expectObject(pattern, path, ['type', 'alpha']);
+      firstOrderDirectivity(expectNumber(pattern.alpha, `${path}.alpha`));
+    } else if (type === 'balloon') {
+      expectObject(pattern, path, ['type', 'azimuths', 'elevations', 'gainsDb']);
+      const gainsDb = expectArray(pattern.gainsDb, `${path}.gainsDb`).map((band, b) =>
+        expectArray(band, `${path}.gainsDb[${b}]`).map((row, e) => expectNumberArray(row, `${path}.gainsDb[${b}][${e}]`))
+      );
+      createBalloonDirectivity(
+        expectNumberArray(pattern.azimuths, `${path}.azimuths`),
+        expectNumberArray(pattern.elevations, `${path}.elevations`),
+        gainsDb
+      );
+    } else if (FIRST_ORDER_PATTERNS.includes(type as FirstOrderPatternName)) {
+      expectObject(pattern, path, ['type']);
+    } else {
+      throw fieldError(`${path}.type`, `unknown directivity type "${type}"`);
+    }
+  } catch (err) {
+    const message = (err as Error).message;
+    throw message.startsWith('Scene: ') ? err : fieldError(path, message);
+  }
+}
+
+function validateSolverConfig(value: unknown, path: string): void {
+  const config = expectObject(value, path, [
+    'maxReflectionOrder', 'bucketSize', 'airAbsorption', 'diffractionOrder', 'transmission'
+  ]);
+
+  if (config.maxReflectionOrder !== undefined && expectInteger(config.maxReflectionOrder, `${path}.maxReflectionOrder`) < 0) {
+    throw fieldError(`${path}.maxReflectionOrder`, 'must not be negative');
+  }
+  if (config.bucketSize !== undefined && expectInteger(config.bucketSize, `${path}.bucketSize`) < 1) {
+    throw fieldError(`${path}.bucketSize`, 'must be at least 1');
+  }
+  if (config.diffractionOrder !== undefined && ![0, 1, 2].includes(expectInteger(config.diffractionOrder, `${path}.diffractionOrder`))) {
+    throw fieldError(`${path}.diffractionOrder`, 'must be 0, 1 or 2');
+  }
+  optional(config.transmission, `${path}.transmission`, expectBoolean);
+
+  if (config.airAbsorption !== undefined && typeof config.airAbsorption !== 'boolean') {
+    const conditions = expectObject(config.airAbsorption, `${path}.airAbsorption`, ['temperature', 'relativeHumidity', 'pressure']);
+    for (const key of ['temperature', 'relativeHumidity', 'pressure'] as Array<keyof AtmosphericConditions>) {
+      optional(conditions[key], `${path}.airAbsorption.${key}`, expectNumber);
+    }
+    const { temperature, relativeHumidity, pressure } = conditions as Partial<AtmosphericConditions>;
+    if (temperature !== undefined && temperature <= -273.15) {
+      throw fieldError(`${path}.airAbsorption.temperature`, 'must be above absolute zero (-273.15 °C)');
+    }
+    if (relativeHumidity !== undefined && (relativeHumidity < 0 || relativeHumidity > 100)) {
+      throw fieldError(`${path}.airAbsorption.relativeHumidity`, 'must be in [0, 100]');
+    }
+    if (pressure !== undefined && pressure <= 0) {
+      throw fieldError(`${path}.airAbsorption.pressure`, 'must be positive');
+    }
+  }
+}
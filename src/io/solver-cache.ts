@@ -0,0 +1,200 @@
+/**
+ * Binary solver caches for BeamTrace3D
+ *
+ * At high reflection orders, building the beam tree dominates solver
+ * construction. A cache holds the beam tree and the BSP tree in one
+ * ArrayBuffer, together with an FNV-1a hash of the polygons, source position
+ * and reflection order, so a cache built for other input is rejected instead
+ * of giving wrong paths. Fail planes and skip spheres are not stored.
+ *
+ * Layout (little-endian): magic "BTC3", u32 version, u32 hash, u32 reflection
+ * order, then each array of SerializedBeamTree3D and SerializedBSP3D as a u32
+ * element count followed by its elements (i32 or f64).
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Polygon3D } from '../geometry/polygon3d';
+import { BeamTree3D, SerializedBeamTree3D, readVector, serializeBeamTree3D } from '../structures/beamtree3d';
+import { FlatBeamTree3D, serializeFlatBeamTree3D } from '../structures/flatbeamtree3d';
+import { BSPNode3D, SerializedBSP3D, serializeBSP } from '../structures/bsp3d';
+
+/**
+ * Current cache format version; caches of other versions are rejected
+ */
+export const SOLVER_CACHE_VERSION = 1;
+
+/**
+ * Decoded solver cache
+ */
+export interface SolverCache3D {
+  hash: number;                 // hashSolverInput3D of the polygons, source and order
+  maxReflectionOrder: number;
+  tree: SerializedBeamTree3D;
+  bsp: SerializedBSP3D;
+}
+
+/** File magic: "BTC3" */
+const MAGIC = [0x42, 0x54, 0x43, 0x33];
+
+/** Bytes before the first array */
+const HEADER_SIZE = 16;
+
+/** FNV-1a 32-bit parameters */
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Hash everything a beam tree and BSP tree depend on (FNV-1a, 32 bits)
+ *
+ * Covers every polygon's vertices, plane, material and surface id, the source
+ * position and the reflection order, each as the bytes of a float64.
+ */
+export function hashSolverInput3D(polygons: Polygon3D[], sourcePosition: Vector3, maxReflectionOrder: number): number {
+  const values: number[] = [polygons.length];
+  for (const poly of polygons) {
+    values.push(poly.vertices.length);
+    for (const v of poly.vertices) {
+      values.push(v[0], v[1], v[2]);
+    }
+    const { a, b, c, d } = poly.plane;
+    values.push(a, b, c, d);
+    values.push(poly.materialId === undefined ? 0 : 1, poly.materialId ?? 0);
+    values.push(poly.surfaceId === undefined ? 0 : 1, poly.surfaceId ?? 0);
+  }
+  values.push(...sourcePosition, maxReflectionOrder);
+
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setFloat64(i * 8, value, true));
+
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < bytes.length; i++) {
+    hash = Math.imul(hash ^ bytes[i], FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Encode a beam tree and its room's BSP tree as a solver cache
+ *
+ * The hash is taken from tree.polygons, the tree's source and its order.
+ *
+ * @param tree - Beam tree, as nodes or flat (fail planes are dropped)
+ * @param bspRoot - BSP tree built from tree.polygons
+ */
+export function encodeSolverCache3D(tree: BeamTree3D | FlatBeamTree3D, bspRoot: BSPNode3D | null): ArrayBuffer {
+  const serialized = 'root' in tree ? serializeBeamTree3D(tree) : serializeFlatBeamTree3D(tree);
+  const bsp = serializeBSP(bspRoot, tree.polygons);
+  const arrays = [...treeArrays(serialized), ...bspArrays(bsp)];
+
+  const size = arrays.reduce((n, array) => n + 4 + array.length * array.BYTES_PER_ELEMENT, HEADER_SIZE);
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+
+  MAGIC.forEach((byte, i) => view.setUint8(i, byte));
+  view.setUint32(4, SOLVER_CACHE_VERSION, true);
+  view.setUint32(8, hashSolverInput3D(tree.polygons, readVector(serialized.virtualSources, 0), tree.maxReflectionOrder), true);
+  view.setUint32(12, tree.maxReflectionOrder, true);
+
+  let offset = HEADER_SIZE;
+  for (const array of arrays) {
+    view.setUint32(offset, array.length, true);
+    offset += 4;
+    if (array instanceof Int32Array) {
+      for (let i = 0; i < array.length; i++, offset += 4) view.setInt32(offset, array[i], true);
+    } else {
+      for (let i = 0; i < array.length; i++, offset += 8) view.setFloat64(offset, array[i], true);
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Decode a solver cache
+ *
+ * Checks the format only; compare hash with hashSolverInput3D before use.
+ */
+export function decodeSolverCache3D(buffer: ArrayBuffer): SolverCache3D {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_SIZE || MAGIC.some((byte, i) => view.getUint8(i) !== byte)) {
+    throw new Error('Solver cache: not a BeamTrace3D solver cache');
+  }
+  const version = view.getUint32(4, true);
+  if (version !== SOLVER_CACHE_VERSION) {
+    throw new Error(`Solver cache: unsupported version ${version} (expected ${SOLVER_CACHE_VERSION})`);
+  }
+
+  let offset = HEADER_SIZE;
+  const read = <T extends Int32Array | Float64Array>(type: { BYTES_PER_ELEMENT: number; new (length: number): T }): T => {
+    const length = offset + 4 <= buffer.byteLength ? view.getUint32(offset, true) : -1;
+    offset += 4;
+    if (length < 0 || offset + length * type.BYTES_PER_ELEMENT > buffer.byteLength) {
+      throw new Error('Solver cache: unexpected end of data');
+    }
+    const array = new type(length);
+    if (array instanceof Int32Array) {
+      for (let i = 0; i < length; i++, offset += 4) array[i] = view.getInt32(offset, true);
+    } else {
+      for (let i = 0; i < length; i++, offset += 8) array[i] = view.getFloat64(offset, true);
+    }
+    return array;
+  };
+
+  const maxReflectionOrder = view.getUint32(12, true);
+  const tree: SerializedBeamTree3D = {
+    maxReflectionOrder,
+    polygonIds: read(Int32Array),
+    parents: read(Int32Array),
+    virtualSources: read(Float64Array),
+    apertureOffsets: read(Int32Array),
+    apertureVertices: read(Float64Array),
+    planeOffsets: read(Int32Array),
+    boundaryPlanes: read(Float64Array)
+  };
+  const bsp: SerializedBSP3D = {
+    polygonIds: read(Int32Array),
+    fronts: read(Int32Array),
+    backs: read(Int32Array),
+    vertexOffsets: read(Int32Array),
+    vertices: read(Float64Array)
+  };
+  if (offset !== buffer.byteLength) {
+    throw new Error(`Solver cache: ${buffer.byteLength - offset} unexpected bytes after the data`);
+  }
+
+  const nodes = tree.polygonIds.length;
+  const bspNodes = bsp.polygonIds.length;
+  if (nodes === 0 || tree.parents.length !== nodes || tree.virtualSources.length !== nodes * 3 ||
+      tree.apertureOffsets.length !== nodes + 1 || tree.planeOffsets.length !== nodes + 1 ||
+      tree.apertureVertices.length !== tree.apertureOffsets[nodes] * 3 ||
+      tree.boundaryPlanes.length !== tree.planeOffsets[nodes] * 4 ||
+      bsp.fronts.length !== bspNodes || bsp.backs.length !== bspNodes ||
+      bsp.vertexOffsets.length !== bspNodes + 1 || bsp.vertices.length !== bsp.vertexOffsets[bspNodes] * 3) {
+    throw new Error('Solver cache: array sizes do not match');
+  }
+
+  return { hash: view.getUint32(8, true), maxReflectionOrder, tree, bsp };
+}
+
+/**
+ * Arrays of a serialized beam tree, in file order
+ */
+function treeArrays(tree: SerializedBeamTree3D): Array<Int32Array | Float64Array> {
+  return [
+    tree.polygonIds,
+    tree.parents,
+    tree.virtualSources,
+    tree.apertureOffsets,
+    tree.apertureVertices,
+    tree.planeOffsets,
+    tree.boundaryPlanes
+  ];
+}
+
+/**
+ * Arrays of a serialized BSP tree, in file order
+ */
+function bspArrays(bsp: SerializedBSP3D): Array<Int32Array | Float64Array> {
+  return [bsp.polygonIds, bsp.fronts, bsp.backs, bsp.vertexOffsets, bsp.vertices];
+}
@@ -0,0 +1,255 @@
+/**
+ * WAV (RIFF/WAVE) encoding and decoding
+ *
+ * Pure TypeScript, no Node or browser APIs: output is a Uint8Array that can be
+ * written with fs.writeFileSync(), wrapped in a Buffer or turned into a Blob.
+ *
+ * Supported sample formats: 16-bit and 24-bit integer PCM, 32-bit IEEE float.
+ * More than two channels (e.g. ambisonics) use WAVE_FORMAT_EXTENSIBLE.
+ */
+
+/**
+ * Bits per sample: 16 and 24 are integer PCM, 32 is IEEE float
+ */
+export type WavBitDepth = 16 | 24 | 32;
+
+/**
+ * Options for encoding a WAV file
+ */
+export interface WavEncodeOptions {
+  sampleRate: number;              // Samples per second
+  bitDepth?: WavBitDepth;          // Sample format (default: 32-bit float)
+  normalize?: boolean | number;    // Scale so the peak equals 1 (or the given value)
+}
+
+/**
+ * Decoded WAV data
+ */
+export interface WavData {
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  channels: Float32Array[];
+}
+
+/** WAVE format tags */
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/** KSDATAFORMAT_SUBTYPE GUID tail shared by PCM and float subformats */
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+/**
+ * Encode one or more channels as a WAV file
+ *
+ * Channels of different lengths are zero-padded to the longest one.
+ * Integer formats clip samples to [-1, 1].
+ *
+ * @param channels - A mono signal or an array of channel signals
+ * @param options - Sample rate, bit depth and normalization
+ * @returns The complete WAV file
+ *
+ * @example
+ * ```typescript
+ * const rir = buildImpulseResponse(paths, { sampleRate: 48000 });
+ * fs.writeFileSync('room.wav', encodeWav(rir, { sampleRate: 48000, bitDepth: 24, normalize: true }));
+ * ```
+ */
+export function encodeWav(
+  channels: Float32Array | Float32Array[],
+  options: WavEncodeOptions
+): Uint8Array {
+  const data = channels instanceof Float32Array ? [channels] : channels;
+  const bitDepth = options.bitDepth ?? 32;
+
+  if (data.length === 0) {
+    throw new Error('WAV: at least one channel is required');
+  }
+  if (!Number.isInteger(options.sampleRate) || options.sampleRate <= 0) {
+    throw new Error('WAV: sampleRate must be a positive integer');
+  }
+  if (bitDepth !== 16 && bitDepth !== 24 && bitDepth !== 32) {
+    throw new Error(`WAV: unsupported bit depth ${bitDepth}`);
+  }
+
+  const numChannels = data.length;
+  const numFrames = Math.max(...data.map(c => c.length));
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = numFrames * blockAlign;
+  const extensible = numChannels > 2;
+  const fmtSize = extensible ? 40 : 16;
+  const formatTag = bitDepth === 32 ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+
+  const buffer = new ArrayBuffer(12 + 8 + fmtSize + 8 + dataSize + (dataSize % 2));
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  // RIFF header
+  writeTag(view, offset, 'RIFF');
+  view.setUint32(offset + 4, buffer.byteLength - 8, true);
+  writeTag(view, offset + 8, 'WAVE');
+  offset += 12;
+
+  // fmt chunk
+  writeTag(view, offset, 'fmt ');
+  view.setUint32(offset + 4, fmtSize, true);
+  view.setUint16(offset + 8, extensible ? WAVE_FORMAT_EXTENSIBLE : formatTag, true);
+  view.setUint16(offset + 10, numChannels, true);
+  view.setUint32(offset + 12, options.sampleRate, true);
+  view.setUint32(offset + 16, options.sampleRate * blockAlign, true);
+  view.setUint16(offset + 20, blockAlign, true);
+  view.setUint16(offset + 22, bitDepth, true);
+  if (extensible) {
+    view.setUint16(offset + 24, 22, true);            // Extension size
+    view.setUint16(offset + 26, bitDepth, true);      // Valid bits per sample
+    view.setUint32(offset + 28, 0, true);             // Channel mask: unassigned
+    view.setUint16(offset + 32, formatTag, true);     // Subformat GUID
+    bytes.set(SUBFORMAT_GUID_TAIL, offset + 34);
+  }
+  offset += 8 + fmtSize;
+
+  // data chunk
+  writeTag(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  const gain = normalizationGain(data, options.normalize);
+
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = frame < data[ch].length ? data[ch][frame] * gain : 0;
+      writeSample(view, offset, sample, bitDepth);
+      offset += bytesPerSample;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a WAV file produced by encodeWav (or any PCM16/24 or float32 WAV)
+ *
+ * @param bytes - The complete WAV file
+ * @returns Sample rate, bit depth and de-interleaved channels in [-1, 1]
+ */
+export function decodeWav(bytes: Uint8Array): WavData {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('WAV: not a RIFF/WAVE file');
+  }
+
+  let offset = 12;
+  let format: { tag: number; channels: number; sampleRate: number; bitDepth: number } | null = null;
+
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let tag = view.getUint16(body, true);
+      if (tag === WAVE_FORMAT_EXTENSIBLE) {
+        tag = view.getUint16(body + 24, true);
+      }
+      format = {
+        tag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitDepth: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!format) {
+        throw new Error('WAV: data chunk before fmt chunk');
+      }
+      const bitDepth = format.bitDepth;
+      const valid = (format.tag === WAVE_FORMAT_PCM && (bitDepth === 16 || bitDepth === 24)) ||
+        (format.tag === WAVE_FORMAT_IEEE_FLOAT && bitDepth === 32);
+      if (!valid) {
+        throw new Error(`WAV: unsupported format (tag ${format.tag}, ${bitDepth} bits)`);
+      }
+
+      const bytesPerSample = bitDepth / 8;
+      const numFrames = Math.floor(Math.min(size, bytes.byteLength - body) / (bytesPerSample * format.channels));
+      const channels: Float32Array[] = [];
+      for (let ch = 0; ch < format.channels; ch++) {
+        channels.push(new Float32Array(numFrames));
+      }
+
+      let pos = body;
+      for (let frame = 0; frame < numFrames; frame++) {
+        for (let ch = 0; ch < format.channels; ch++) {
+          channels[ch][frame] = readSample(view, pos, bitDepth as WavBitDepth);
+          pos += bytesPerSample;
+        }
+      }
+
+      return { sampleRate: format.sampleRate, bitDepth: bitDepth as WavBitDepth, channels };
+    }
+
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV: missing data chunk');
+}
+
+/**
+ * Compute the gain applied before quantization
+ */
+function normalizationGain(channels: Float32Array[], normalize: boolean | number | undefined): number {
+  if (!normalize) return 1;
+  const target = normalize === true ? 1 : normalize;
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  return peak > 0 ? target / peak : 1;
+}
+
+function writeSample(view: DataView, offset: number, sample: number, bitDepth: WavBitDepth): void {
+  if (bitDepth === 32) {
+    view.setFloat32(offset, sample, true);
+    return;
+  }
+
+  const clipped = Math.max(-1, Math.min(1, sample));
+  if (bitDepth === 16) {
+    view.setInt16(offset, Math.round(clipped * 0x7fff), true);
+  } else {
+    const value = Math.round(clipped * 0x7fffff);
+    view.setUint8(offset, value & 0xff);
+    view.setUint8(offset + 1, (value >> 8) & 0xff);
+    view.setUint8(offset + 2, (value >> 16) & 0xff);
+  }
+}
+
+function readSample(view: DataView, offset: number, bitDepth: WavBitDepth): number {
+  if (bitDepth === 32) {
+    return view.getFloat32(offset, true);
+  }
+  if (bitDepth === 16) {
+    return view.getInt16(offset, true) / 0x7fff;
+  }
+  // Sign-extend the 24-bit little-endian value
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+  return value / 0x7fffff;
+}
+
+function writeTag(view: DataView, offset: number, tag: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, tag.charCodeAt(i));
+  }
+}
+
+function readTag(view: DataView, offset: number): string {
+  let tag = '';
+  for (let i = 0; i < 4; i++) {
+    tag += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return tag;
+}
@@ -14,9 +14,17 @@ import {
   Listener3D,
   Solver3D,
   getPathReflectionOrder,
-  Polygon3D
+  Polygon3D,
+  computeCoverage3D,
+  coverageImage
+} from './beamtrace3d';
+import type {
+  Vector3 as BT_Vector3,
+  ReflectionPath3D,
+  BeamVisualizationData,
+  CoverageMaps,
+  ListenerGrid3D
 } from './beamtrace3d';
-import type { Vector3 as BT_Vector3, ReflectionPath3D, BeamVisualizationData } from './beamtrace3d';
 
 // ============================================================================
 // Concord Room Geometry (L-shaped room from CRAM)
@@ -406,6 +414,19 @@ let currentReflectionOrder = 3;
 // Visualization mode: 'paths' (rays) or 'beams' (cones)
 let visualizationMode: 'paths' | 'beams' = 'paths';
 
+// Coverage overlay: which map is drawn at listener height ('off' hides it)
+type CoverageMode = 'off' | keyof CoverageMaps;
+const COVERAGE_MODES: CoverageMode[] = ['off', 'direct', 'reflections', 'spl', 'c80'];
+const COVERAGE_LABELS: Record<CoverageMode, string> = {
+  off: 'Off',
+  direct: 'Direct',
+  reflections: 'Reflections',
+  spl: 'SPL',
+  c80: 'C80'
+};
+const COVERAGE_COLUMNS = 40; // Grid points along the longer side of the room
+let coverageMode: CoverageMode = 'off';
+
 // Colors for different reflection orders
 const PATH_COLORS = [
   0x00ff00, // Direct (green)
@@ -487,6 +508,14 @@ function recreateSolver(): void {
   solver = createSolver();
 }
 
+// Move the source without rebuilding the BSP tree
+function moveSolverSource(): void {
+  const start = performance.now();
+  solver.setSourcePosition(sourcePos);
+  source = solver.source;
+  lastPrecomputeTime = performance.now() - start;
+}
+
 // Listener position - from Concord save file: [10.8, 3.8, 1.2]
 let listenerPos: BT_Vector3 = [10.8, 3.8, 1.2];
 const listener = new Listener3D(listenerPos);
@@ -927,6 +956,7 @@ function updatePaths(): void {
 
   // Update UI
   updateUI(paths.length, metrics);
+  updateCoverageOverlay();
 }
 
 function drawPath(path: ReflectionPath3D): void {
@@ -1029,6 +1059,102 @@ function drawBeamCone(beam: BeamVisualizationData): void {
   beamsGroup.add(vsMesh);
 }
 
+// ============================================================================
+// Coverage Overlay
+// ============================================================================
+
+let coverageMesh: THREE.Mesh | null = null;
+let coverageMaps: CoverageMaps | null = null;
+let coverageKey = '';
+let coverageMeshKey = '';   // coverageKey and coverageMode the overlay was drawn for
+
+/**
+ * Listener grid over the room's plan at the listener height
+ */
+function coverageGrid(): ListenerGrid3D {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const polygon of roomPolygons) {
+    for (const [x, y] of polygon.vertices) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  const spacing = Math.max(maxX - minX, maxY - minY) / COVERAGE_COLUMNS;
+  return {
+    origin: [minX + spacing / 2, minY + spacing / 2, listenerPos[2]],
+    columns: Math.max(1, Math.floor((maxX - minX) / spacing)),
+    rows: Math.max(1, Math.floor((maxY - minY) / spacing)),
+    spacing
+  };
+}
+
+function clearCoverageOverlay(): void {
+  if (!coverageMesh) return;
+  scene.remove(coverageMesh);
+  coverageMesh.geometry.dispose();
+  const material = coverageMesh.material as THREE.MeshBasicMaterial;
+  material.map?.dispose();
+  material.dispose();
+  coverageMesh = null;
+}
+
+/**
+ * Draw the selected coverage map, recomputing the maps when the source,
+ * room, reflection order or listener height changed. The overlay is only
+ * rebuilt when the maps or the selected map changed.
+ */
+function updateCoverageOverlay(): void {
+  if (coverageMode === 'off') {
+    clearCoverageOverlay();
+    return;
+  }
+
+  const key = `${currentRoomType}|${currentReflectionOrder}|${sourcePos.join(',')}|${listenerPos[2]}`;
+  if (coverageMesh && coverageMeshKey === `${key}|${coverageMode}`) return;
+
+  clearCoverageOverlay();
+  const grid = coverageGrid();
+  if (!coverageMaps || key !== coverageKey) {
+    const start = performance.now();
+    coverageMaps = computeCoverage3D(solver, grid);
+    coverageKey = key;
+    console.log(`Coverage: ${grid.columns} x ${grid.rows} points in ${formatTime(performance.now() - start)}`);
+  }
+
+  const image = coverageImage(coverageMaps[coverageMode], { opacity: 180 });
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const imageData = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.magFilter = THREE.NearestFilter;
+  texture.colorSpace = THREE.SRGBColorSpace;
+
+  const { origin, columns, rows, spacing } = grid;
+  const geometry = new THREE.PlaneGeometry(columns * spacing, rows * spacing);
+  const material = new THREE.MeshBasicMaterial({
+    map: texture,
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: false
+  });
+  coverageMesh = new THREE.Mesh(geometry, material);
+  coverageMeshKey = `${key}|${coverageMode}`;
+  // Rotating about +X maps the plane's +Y (the image top) to BeamTrace +Y
+  coverageMesh.rotation.x = Math.PI / 2;
+  coverageMesh.position.copy(btToThree([
+    origin[0] + (columns - 1) * spacing / 2,
+    origin[1] + (rows - 1) * spacing / 2,
+    origin[2]
+  ]));
+  scene.add(coverageMesh);
+}
+
 // ============================================================================
 // UI Updates
 // ============================================================================
@@ -1111,14 +1237,12 @@ function updateSourcePosition(axis: 'x' | 'y' | 'z', delta: number): void {
   const maxVal = idx === 0 ? ROOM_WIDTH : idx === 1 ? ROOM_DEPTH : ROOM_HEIGHT;
 
   sourcePos[idx] = Math.max(margin, Math.min(maxVal - margin, sourcePos[idx] + delta));
-  source = new Source3D(sourcePos);
 
   // Update visualization
   sourceMesh.position.copy(btToThree(sourcePos));
   sourceGlow.position.copy(btToThree(sourcePos));
 
-  // Recreate solver with new source position
-  recreateSolver();
+  moveSolverSource();
   updatePaths();
 }
 
@@ -1171,6 +1295,8 @@ const DRAG_THRESHOLD = 3; // pixels - smaller for more responsive drag detection
 let lastPathUpdate = 0;
 let lastUIUpdate = 0;
 const PATH_UPDATE_THROTTLE = 16; // ~60fps for listener
+const SOURCE_UPDATE_THROTTLE = 33; // ~30fps for source (rebuilds the beam tree)
+let lastSourceUpdate = 0;
 const UI_UPDATE_THROTTLE = 50; // 20fps for UI text updates
 let pendingSourceUpdate = false;
 
@@ -1280,7 +1406,7 @@ function updatePathsRealtime(skipUI: boolean = false): void {
   }
 }
 
-// Deferred source update (precompute is expensive)
+// Throttled source update (rebuilds the beam tree)
 function scheduleSourceUpdate(): void {
   pendingSourceUpdate = true;
 }
@@ -1288,9 +1414,9 @@ function scheduleSourceUpdate(): void {
 function processSourceUpdate(): void {
   if (!pendingSourceUpdate) return;
   pendingSourceUpdate = false;
+  lastSourceUpdate = performance.now();
 
-  source = new Source3D(sourcePos);
-  recreateSolver();
+  moveSolverSource();
   updatePathsRealtime(false);
 }
 
@@ -1359,14 +1485,18 @@ renderer.domElement.addEventListener('mousemove', (event: MouseEvent) => {
         }
       }
     } else {
-      // Source: update visual immediately, defer expensive precompute
+      // Source: update visual immediately, rebuild the beam tree at a throttled rate
       sourcePos = [newX, newY, newZ];
       sourceMesh.position.set(newX, newZ, newY); // Convert back to Three.js coords
       sourceGlow.position.set(newX, newZ, newY);
       scheduleSourceUpdate();
 
-      // Update position display at throttled rate
       const now = performance.now();
+      if (now - lastSourceUpdate > SOURCE_UPDATE_THROTTLE) {
+        processSourceUpdate();
+      }
+
+      // Update position display at throttled rate
       if (now - lastUIUpdate > UI_UPDATE_THROTTLE) {
         lastUIUpdate = now;
         updatePositionUI();
@@ -1381,6 +1511,7 @@ renderer.domElement.addEventListener('mouseup', (event: MouseEvent) => {
   if (dragTarget === 'source') {
     // Process deferred source update on release
     processSourceUpdate();
+    updateCoverageOverlay();
   }
 
   dragTarget = null;
@@ -1421,6 +1552,7 @@ renderer.domElement.addEventListener('mouseup', (event: MouseEvent) => {
 renderer.domElement.addEventListener('mouseleave', () => {
   if (dragTarget === 'source') {
     processSourceUpdate();
+    updateCoverageOverlay();
   }
   dragTarget = null;
   isMouseDown = false;
@@ -1504,6 +1636,21 @@ document.getElementById('toggleView')?.addEventListener('click', (e) => {
   toggleVisualizationMode();
 });
 
+// Cycle through the coverage maps
+function cycleCoverageMode(): void {
+  coverageMode = COVERAGE_MODES[(COVERAGE_MODES.indexOf(coverageMode) + 1) % COVERAGE_MODES.length];
+  const coverageBtn = document.getElementById('toggleCoverage');
+  if (coverageBtn) {
+    coverageBtn.textContent = COVERAGE_LABELS[coverageMode];
+  }
+  updateCoverageOverlay();
+}
+
+document.getElementById('toggleCoverage')?.addEventListener('click', (e) => {
+  e.stopPropagation();
+  cycleCoverageMode();
+});
+
 // Room selector handler
 document.getElementById('roomSelect')?.addEventListener('change', (e) => {
   const select = e.target as HTMLSelectElement;
@@ -1518,6 +1665,8 @@ window.addEventListener('keydown', (e) => {
     changeReflectionOrder(-1);
   } else if (e.key === 'b' || e.key === 'B') {
     toggleVisualizationMode();
+  } else if (e.key === 'c' || e.key === 'C') {
+    cycleCoverageMode();
   }
 });
 
@@ -16,6 +16,7 @@ import { Vector3 } from '../core/vector3';
 import { Plane3D } from '../core/plane3d';
 import { Polygon3D } from '../geometry/polygon3d';
 import { BeamNode3D } from '../structures/beamtree3d';
+import { FlatBeamTree3D, getFlatVirtualSource } from '../structures/flatbeamtree3d';
 import { FailPlaneType } from '../core/types';
 
 /**
@@ -48,12 +49,13 @@ export function detectFailPlane(
   }
 
   // Type 1: Check if listener is behind the reflecting polygon's plane
-  // The listener must be on the same side of the polygon as the virtual source
+  // The virtual source is mirrored behind the polygon; the listener must be
+  // on the other side, where the reflection goes
   const reflectingPoly = polygons[node.id];
   let polyPlane = reflectingPoly.plane;
 
-  // Orient plane so virtual source is in front
-  if (Plane3D.signedDistance(node.virtualSource, polyPlane) < 0) {
+  // Orient plane so virtual source is behind it
+  if (Plane3D.signedDistance(node.virtualSource, polyPlane) > 0) {
     polyPlane = Plane3D.flip(polyPlane);
   }
 
@@ -85,6 +87,60 @@ export function detectFailPlane(
   return null;
 }
 
+/**
+ * Detect fail plane for a listener position at a node of a flat beam tree
+ *
+ * Same tests as detectFailPlane.
+ *
+ * @param listenerPos - Current listener position
+ * @param tree - Flat beam tree
+ * @param node - Index of the node to check
+ * @param polygons - Room polygons (for accessing the reflecting polygon)
+ * @returns FailPlaneInfo if listener is outside, null if listener is valid
+ */
+export function detectFlatFailPlane(
+  listenerPos: Vector3,
+  tree: FlatBeamTree3D,
+  node: number,
+  polygons: Polygon3D[]
+): FailPlaneInfo | null {
+  const firstPlane = tree.planeOffsets[node];
+  const planeCount = tree.planeOffsets[node + 1] - firstPlane;
+  if (tree.apertureOffsets[node + 1] === tree.apertureOffsets[node] || planeCount === 0) {
+    return null;
+  }
+
+  let nodeDepth = 0;
+  for (let i = node; i > 0; i = tree.parents[i]) {
+    nodeDepth++;
+  }
+
+  // Type 1: listener behind the reflecting polygon's plane (oriented with the virtual source behind it)
+  let polyPlane = polygons[tree.polygonIds[node]].plane;
+  if (Plane3D.signedDistance(getFlatVirtualSource(tree, node), polyPlane) > 0) {
+    polyPlane = Plane3D.flip(polyPlane);
+  }
+  if (Plane3D.signedDistance(listenerPos, polyPlane) < 0) {
+    return { plane: polyPlane, type: 'polygon', nodeDepth };
+  }
+
+  // Type 2: listener outside the beam volume; the last boundary plane is the aperture
+  for (let i = 0; i < planeCount; i++) {
+    const k = (firstPlane + i) * 4;
+    const plane: Plane3D = {
+      a: tree.boundaryPlanes[k],
+      b: tree.boundaryPlanes[k + 1],
+      c: tree.boundaryPlanes[k + 2],
+      d: tree.boundaryPlanes[k + 3]
+    };
+    if (Plane3D.signedDistance(listenerPos, plane) < 0) {
+      return { plane, type: i < planeCount - 1 ? 'edge' : 'aperture', nodeDepth };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get the depth of a node in the beam tree
  */
@@ -16,6 +16,7 @@
 import { Vector3 } from '../core/vector3';
 import { Plane3D } from '../core/plane3d';
 import { BeamNode3D } from '../structures/beamtree3d';
+import { FlatBeamTree3D, clearFlatFailPlane, flatFailPlaneDistance } from '../structures/flatbeamtree3d';
 
 /**
  * Skip sphere for bucket-level spatial rejection
@@ -27,10 +28,12 @@ export interface SkipSphere {
 
 /**
  * Bucket grouping beam leaf nodes for skip sphere optimization
+ *
+ * Nodes are BeamNode3D objects, or node indices of a FlatBeamTree3D.
  */
-export interface Bucket3D {
+export interface Bucket3D<T = BeamNode3D> {
   id: number;                      // Bucket identifier
-  nodes: BeamNode3D[];             // Beam nodes in this bucket
+  nodes: T[];                      // Beam nodes in this bucket
   skipSphere: SkipSphere | null;   // Current skip sphere (null if not set)
 }
 
@@ -48,11 +51,11 @@ export const DEFAULT_BUCKET_SIZE_3D = 16;
  * @param bucketSize - Number of nodes per bucket
  * @returns Array of buckets
  */
-export function createBuckets3D(
-  leafNodes: BeamNode3D[],
+export function createBuckets3D<T = BeamNode3D>(
+  leafNodes: T[],
   bucketSize: number = DEFAULT_BUCKET_SIZE_3D
-): Bucket3D[] {
-  const buckets: Bucket3D[] = [];
+): Bucket3D<T>[] {
+  const buckets: Bucket3D<T>[] = [];
 
   for (let i = 0; i < leafNodes.length; i += bucketSize) {
     buckets.push({
@@ -92,7 +95,7 @@ export type SkipSphereStatus = 'inside' | 'outside' | 'none';
  */
 export function checkSkipSphere(
   listenerPos: Vector3,
-  bucket: Bucket3D
+  bucket: Bucket3D<unknown>
 ): SkipSphereStatus {
   if (!bucket.skipSphere) {
     return 'none';
@@ -139,12 +142,46 @@ export function createSkipSphere(
   };
 }
 
+/**
+ * Create a skip sphere for a bucket of flat beam tree nodes where all paths failed
+ *
+ * Same as createSkipSphere, with the fail planes cached in the tree.
+ *
+ * @param listenerPos - Current listener position (center of sphere)
+ * @param tree - Flat beam tree holding the fail planes
+ * @param nodes - Node indices in the bucket (all should have fail planes)
+ * @returns Skip sphere, or null if any node lacks a fail plane
+ */
+export function createFlatSkipSphere(
+  listenerPos: Vector3,
+  tree: FlatBeamTree3D,
+  nodes: number[]
+): SkipSphere | null {
+  let minDist = Infinity;
+
+  for (const node of nodes) {
+    if (tree.failPlaneTypes[node] === 0) {
+      return null;
+    }
+    minDist = Math.min(minDist, Math.abs(flatFailPlaneDistance(tree, node, listenerPos)));
+  }
+
+  if (minDist === Infinity || minDist <= 1e-10) {
+    return null;
+  }
+
+  return {
+    center: Vector3.clone(listenerPos),
+    radius: minDist
+  };
+}
+
 /**
  * Invalidate a bucket's skip sphere
  *
  * Called when listener escapes the skip sphere.
  */
-export function invalidateSkipSphere(bucket: Bucket3D): void {
+export function invalidateSkipSphere(bucket: Bucket3D<unknown>): void {
   bucket.skipSphere = null;
 }
 
@@ -160,6 +197,15 @@ export function clearBucketFailPlanes(bucket: Bucket3D): void {
   }
 }
 
+/**
+ * Clear the fail planes of a bucket of flat beam tree nodes
+ */
+export function clearFlatBucketFailPlanes(tree: FlatBeamTree3D, bucket: Bucket3D<number>): void {
+  for (const node of bucket.nodes) {
+    clearFlatFailPlane(tree, node);
+  }
+}
+
 /**
  * Update skip sphere for a bucket after processing
  *
@@ -243,7 +289,7 @@ export interface SkipSphereStats {
   maxRadius: number;
 }
 
-export function getSkipSphereStats(buckets: Bucket3D[]): SkipSphereStats {
+export function getSkipSphereStats(buckets: Bucket3D<unknown>[]): SkipSphereStats {
   let bucketsWithSphere = 0;
   let totalRadius = 0;
   let minRadius = Infinity;
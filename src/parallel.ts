@@ -0,0 +1,28 @@
+/**
+ * beam-trace/parallel - Worker-thread path finding for Node.js
+ *
+ * Kept apart from the other entry points so browser bundles never pull in
+ * worker_threads.
+ *
+ * @example
+ * ```typescript
+ * import { createShoeboxRoom, listenerGridPoints } from 'beam-trace/3d';
+ * import { ParallelSolver3D } from 'beam-trace/parallel';
+ *
+ * const room = createShoeboxRoom(10, 8, 3);
+ * const solver = new ParallelSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 4 }, { workers: 4 });
+ *
+ * const listeners = listenerGridPoints({ origin: [1, 1, 1.2], columns: 32, rows: 24, spacing: 0.25 });
+ * const paths = await solver.getPaths(listeners); // paths[i] belongs to listeners[i]
+ * await solver.terminate();
+ * ```
+ */
+
+export { ParallelSolver3D, createParallelHandler3D } from './solver/parallel3d';
+export type {
+  ParallelSolver3DConfig,
+  ParallelOptions3D,
+  ParallelWorkerData3D,
+  ParallelRequest3D,
+  ParallelResponse3D
+} from './solver/parallel3d';
@@ -0,0 +1,193 @@
+/**
+ * Coverage maps for BeamTrace3D and BeamTrace2D
+ *
+ * Evaluates a solver over a horizontal grid of listener positions (a slice
+ * at ear height in 3D, the plan in 2D) and reduces the paths at each point
+ * to direct sound visibility, reflection count, level and clarity. Every
+ * quantity is a Float32Array raster in grid order; coverageImage() turns one
+ * into an RGBA image for encodePng/encodePpm or a canvas overlay.
+ */
+
+import type { DetailedReflectionPath3D } from '../core/types';
+import { Listener, Point, Solver, DetailedReflectionPath } from '../beamtrace2d';
+import { ArrivalOptions, arrivalAmplitude, computePathArrivals } from '../acoustics/impulse-response';
+import { computeRoomParameters } from '../acoustics/room-parameters';
+import type { RgbaImage } from '../io/image';
+import type { OptimizedSolver3D } from './solver3d';
+import { GridOrder3D, ListenerGrid3D, gridVisitOrder, listenerGridPoints } from './grid3d';
+
+/**
+ * A 3D solver to map: OptimizedSolver3D or Solver3D
+ */
+export type CoverageSolver3D = Pick<OptimizedSolver3D, 'getDetailedPaths'>;
+
+/**
+ * Regular grid of 2D listener positions
+ */
+export interface ListenerGrid2D {
+  origin: Point;                // First point; the grid extends along +x and +y
+  columns: number;              // Points along x
+  rows: number;                 // Points along y
+  spacing: number;              // Distance between neighbouring points
+}
+
+/**
+ * One quantity sampled on a grid
+ */
+export interface CoverageRaster {
+  width: number;                // Grid columns
+  height: number;               // Grid rows
+  values: Float32Array;         // values[row * width + column]; NaN where undefined
+}
+
+/**
+ * All coverage quantities of one grid
+ */
+export interface CoverageMaps {
+  direct: CoverageRaster;       // 1 where the source is in line of sight, else 0
+  reflections: CoverageRaster;  // Number of reflected paths arriving
+  spl: CoverageRaster;          // Level in dB re the source at referenceDistance (-Infinity without paths)
+  c80: CoverageRaster;          // Clarity in dB from the first arrival (Infinity without late energy, NaN without paths)
+}
+
+/**
+ * Options for computing coverage maps
+ */
+export interface CoverageOptions extends ArrivalOptions {
+  band?: number;                // Octave band index for spl and c80 (default: broadband)
+  order?: GridOrder3D;          // Visiting order of the grid points (default: 'hilbert')
+}
+
+/**
+ * Options for rendering a raster as an image
+ */
+export interface CoverageImageOptions {
+  min?: number;                 // Value at the low end of the colour scale (default: smallest finite value)
+  max?: number;                 // Value at the high end (default: largest finite value)
+  opacity?: number;             // Alpha of covered pixels, 0-255 (default: 255)
+}
+
+/**
+ * Colour scale from low to high values (viridis, sampled)
+ */
+const COLOR_SCALE: Array<[number, number, number]> = [
+  [68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142],
+  [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]
+];
+
+/**
+ * Map a 3D solver over a grid of listener positions
+ *
+ * Points are visited in a cache-friendly order (see gridVisitOrder).
+ *
+ * @example
+ * ```typescript
+ * const maps = computeCoverage3D(solver, { origin: [1, 1, 1.2], columns: 40, rows: 30, spacing: 0.25 });
+ * fs.writeFileSync('spl.png', encodePng(coverageImage(maps.spl)));
+ * ```
+ */
+export function computeCoverage3D(
+  solver: CoverageSolver3D,
+  grid: ListenerGrid3D,
+  options: CoverageOptions = {}
+): CoverageMaps {
+  const points = listenerGridPoints(grid);
+  return mapGrid(grid, options, index => solver.getDetailedPaths(points[index]));
+}
+
+/**
+ * Map the 2D solver over a grid of listener positions
+ */
+export function computeCoverage2D(
+  solver: Solver,
+  grid: ListenerGrid2D,
+  options: CoverageOptions = {}
+): CoverageMaps {
+  const points = listenerGridPoints({ ...grid, origin: [grid.origin[0], grid.origin[1], 0] });
+  return mapGrid(grid, options, index => solver.getDetailedPaths(new Listener([points[index][0], points[index][1]])));
+}
+
+/**
+ * Render a raster with a colour scale, with +y up (the last grid row is the top image row)
+ *
+ * Points without a finite value are transparent.
+ */
+export function coverageImage(raster: CoverageRaster, options: CoverageImageOptions = {}): RgbaImage {
+  const { width, height, values } = raster;
+  let min = options.min ?? Infinity;
+  let max = options.max ?? -Infinity;
+  if (options.min === undefined || options.max === undefined) {
+    for (const value of values) {
+      if (!Number.isFinite(value)) continue;
+      if (options.min === undefined) min = Math.min(min, value);
+      if (options.max === undefined) max = Math.max(max, value);
+    }
+  }
+
+  const opacity = options.opacity ?? 255;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const value = values[row * width + column];
+      if (!Number.isFinite(value)) continue;
+
+      const t = max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 0.5;
+      const offset = ((height - 1 - row) * width + column) * 4;
+      data.set(scaleColor(t), offset);
+      data[offset + 3] = opacity;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Evaluate every grid point and fill the rasters
+ */
+function mapGrid(
+  grid: ListenerGrid3D | ListenerGrid2D,
+  options: CoverageOptions,
+  tracePoint: (index: number) => Array<DetailedReflectionPath3D | DetailedReflectionPath>
+): CoverageMaps {
+  const { columns: width, rows: height } = grid;
+  const raster = (): CoverageRaster => ({ width, height, values: new Float32Array(width * height) });
+  const maps: CoverageMaps = { direct: raster(), reflections: raster(), spl: raster(), c80: raster() };
+
+  const cells: ListenerGrid3D = { ...grid, origin: [grid.origin[0], grid.origin[1], 0] };
+  for (const index of gridVisitOrder(cells, options.order)) {
+    const paths = tracePoint(index);
+    const arrivals = computePathArrivals(paths, options);
+
+    let energy = 0;
+    for (const arrival of arrivals) {
+      energy += arrivalAmplitude(arrival, options.band) ** 2;
+    }
+    const parameters = computeRoomParameters(arrivals);
+
+    maps.direct.values[index] = paths.some(isLineOfSight) ? 1 : 0;
+    maps.reflections.values[index] = paths.filter(path => path.reflectionCount > 0).length;
+    maps.spl.values[index] = 10 * Math.log10(energy);
+    maps.c80.values[index] = options.band === undefined ? parameters.broadband.c80 : parameters.bands[options.band].c80;
+  }
+
+  return maps;
+}
+
+/**
+ * True for the unobstructed direct path
+ */
+function isLineOfSight(path: DetailedReflectionPath3D | DetailedReflectionPath): boolean {
+  if (path.reflectionCount > 0 || path.isDiffracted) return false;
+  return !('transmissions' in path && path.transmissions && path.transmissions.length > 0);
+}
+
+/**
+ * Colour at a position in [0, 1] along the colour scale
+ */
+function scaleColor(t: number): [number, number, number] {
+  const x = t * (COLOR_SCALE.length - 1);
+  const i = Math.min(COLOR_SCALE.length - 2, Math.floor(x));
+  const f = x - i;
+  const [a, b] = [COLOR_SCALE[i], COLOR_SCALE[i + 1]];
+  return [0, 1, 2].map(c => Math.round(a[c] + (b[c] - a[c]) * f)) as [number, number, number];
+}
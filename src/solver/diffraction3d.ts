@@ -0,0 +1,422 @@
+/**
+ * Edge diffraction paths for the 3D solver
+ *
+ * Diffracted paths run from the source over one or two diffracting edges to
+ * the listener. The diffraction point on each edge is the one that makes the
+ * path shortest (Fermat's principle, which gives the Keller cone condition);
+ * each leg is checked for occlusion against the BSP tree.
+ *
+ * Reflected sound diffracts too: each beam of the beam tree lights parts of
+ * the edges past its aperture, and every lit piece acts as a diffraction
+ * beam whose origin is the beam's virtual source. These paths run from the
+ * source over the beam's reflections and one edge to the listener.
+ * Reflections after a diffraction, and two diffractions after reflections,
+ * are not generated.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { ReflectionPath3D } from '../core/types';
+import { DiffractionEdge3D, edgeAngle, isInEdgeWedge, pointOnEdge } from '../geometry/edges3d';
+import { Plane3D } from '../core/plane3d';
+import { Polygon3D } from '../geometry/polygon3d';
+import { BSPNode3D, rayTraceBSP } from '../structures/bsp3d';
+import { FlatBeamTree3D, getFlatVirtualSource } from '../structures/flatbeamtree3d';
+import { OCTAVE_BANDS, BandValues } from '../acoustics/bands';
+import { utdCoefficient } from '../acoustics/utd';
+
+/** Maximum number of alternating updates when locating second-order points */
+const MAX_POINT_ITERATIONS = 100;
+
+/** Tolerance on positions along an edge */
+const EDGE_EPSILON = 1e-9;
+
+/**
+ * Edge pieces lit by the beams of a flat beam tree
+ *
+ * Each piece is a diffraction beam: sound from the beam's virtual source
+ * reaches it through the beam's aperture. Pieces do not depend on the
+ * listener, so they are found once per beam tree.
+ */
+export interface DiffractionBeams3D {
+  offsets: Int32Array;   // Node i's pieces are offsets[i] to offsets[i + 1] - 1
+  edgeIds: Int32Array;   // Per piece: the lit edge
+  ranges: Float64Array;  // Per piece: from, to as distances from edge.start
+}
+
+/**
+ * Shortest-path diffraction point on an edge between two points
+ *
+ * Unfolds the two points into a plane around the edge line; the straight
+ * line between them crosses the edge at the point where incoming and
+ * outgoing rays make equal angles with the edge.
+ *
+ * @returns Distance from edge.start along the edge line (may lie outside
+ *          [0, edge.length]), or null if a point lies on the edge line
+ */
+export function diffractionPointOnEdge(edge: DiffractionEdge3D, from: Vector3, to: Vector3): number | null {
+  const fromOffset = Vector3.subtract(from, edge.start);
+  const toOffset = Vector3.subtract(to, edge.start);
+  const fromT = Vector3.dot(fromOffset, edge.direction);
+  const toT = Vector3.dot(toOffset, edge.direction);
+  const fromRadius = Vector3.length(Vector3.reject(fromOffset, edge.direction));
+  const toRadius = Vector3.length(Vector3.reject(toOffset, edge.direction));
+
+  if (fromRadius < EDGE_EPSILON || toRadius < EDGE_EPSILON) {
+    return null;
+  }
+  return (fromT * toRadius + toT * fromRadius) / (fromRadius + toRadius);
+}
+
+/**
+ * Find diffracted paths from a source to a listener
+ *
+ * @param sourcePos - Source position
+ * @param listenerPos - Listener position
+ * @param edges - Diffracting edges (see findDiffractionEdges)
+ * @param bspRoot - BSP tree of the room, for occlusion tests
+ * @param maxOrder - Maximum number of diffractions per path (1 or 2)
+ * @param metrics - Optional counter incremented for every ray cast
+ * @returns Paths from listener to source; diffraction points carry an edgeId
+ */
+export function findDiffractionPaths3D(
+  sourcePos: Vector3,
+  listenerPos: Vector3,
+  edges: DiffractionEdge3D[],
+  bspRoot: BSPNode3D | null,
+  maxOrder: number,
+  metrics?: { raycastCount: number }
+): ReflectionPath3D[] {
+  const paths: ReflectionPath3D[] = [];
+
+  const visible = (a: Vector3, b: Vector3): boolean => segmentVisible(a, b, bspRoot, metrics);
+
+  // Edges the source and listener can see into, from the air side
+  const sourceEdges = edges.filter(edge => isInEdgeWedge(edge, sourcePos));
+  const listenerEdges = new Set(edges.filter(edge => isInEdgeWedge(edge, listenerPos)));
+
+  if (maxOrder >= 1) {
+    for (const edge of sourceEdges) {
+      if (!listenerEdges.has(edge)) continue;
+
+      const t = diffractionPointOnEdge(edge, sourcePos, listenerPos);
+      if (t === null || t < -EDGE_EPSILON || t > edge.length + EDGE_EPSILON) continue;
+
+      const point = pointOnEdge(edge, t);
+      if (visible(sourcePos, point) && visible(point, listenerPos)) {
+        paths.push([
+          { position: Vector3.clone(listenerPos), polygonId: null },
+          { position: point, polygonId: null, edgeId: edge.id },
+          { position: Vector3.clone(sourcePos), polygonId: null }
+        ]);
+      }
+    }
+  }
+
+  if (maxOrder >= 2) {
+    for (const first of sourceEdges) {
+      for (const second of listenerEdges) {
+        if (first === second) continue;
+
+        const points = secondOrderPoints(first, second, sourcePos, listenerPos);
+        if (!points) continue;
+        const [p1, p2] = points;
+
+        // The points may lie on a face shared by both edges (over the top of a thick barrier)
+        if (!isInEdgeWedge(first, p2, -1e-9) || !isInEdgeWedge(second, p1, -1e-9)) continue;
+
+        if (visible(sourcePos, p1) && visible(p1, p2) && visible(p2, listenerPos)) {
+          paths.push([
+            { position: Vector3.clone(listenerPos), polygonId: null },
+            { position: p2, polygonId: null, edgeId: second.id },
+            { position: p1, polygonId: null, edgeId: first.id },
+            { position: Vector3.clone(sourcePos), polygonId: null }
+          ]);
+        }
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Find the edge pieces lit by each reflection beam
+ *
+ * A piece must lie inside the beam and face its virtual source from the air
+ * side. Edges of the beam's own reflecting polygon are skipped: sound
+ * grazing them is covered by the direct diffraction paths.
+ *
+ * @param tree - Beam tree of the source
+ * @param edges - Diffracting edges (see findDiffractionEdges)
+ * @returns Lit pieces per node (none for the root)
+ */
+export function buildDiffractionBeams3D(tree: FlatBeamTree3D, edges: DiffractionEdge3D[]): DiffractionBeams3D {
+  const nodeCount = tree.polygonIds.length;
+  const offsets = new Int32Array(nodeCount + 1);
+  const edgeIds: number[] = [];
+  const ranges: number[] = [];
+
+  for (let i = 1; i < nodeCount; i++) {
+    offsets[i] = edgeIds.length;
+    const polygonId = tree.polygonIds[i];
+    const virtualSource = getFlatVirtualSource(tree, i);
+
+    for (const edge of edges) {
+      if (edge.polygonIds.includes(polygonId) || !isInEdgeWedge(edge, virtualSource)) continue;
+
+      const range = clipEdgeToBeam(edge, tree, i);
+      if (range) {
+        edgeIds.push(edge.id);
+        ranges.push(range[0], range[1]);
+      }
+    }
+  }
+  offsets[nodeCount] = edgeIds.length;
+
+  return { offsets, edgeIds: Int32Array.from(edgeIds), ranges: Float64Array.from(ranges) };
+}
+
+/**
+ * Find paths that reflect and then diffract once on the way to a listener
+ *
+ * The diffraction point on each lit piece is the shortest-path point from
+ * the beam's virtual source; the reflections before it are found by walking
+ * back up the beam tree, as for specular paths.
+ *
+ * @param tree - Beam tree of the source
+ * @param beams - Lit edge pieces of the tree (see buildDiffractionBeams3D)
+ * @param listenerPos - Listener position
+ * @param edges - Diffracting edges the beams refer to
+ * @param bspRoot - BSP tree of the room, for occlusion tests
+ * @param metrics - Optional counter incremented for every ray cast
+ * @returns Paths from listener to source; the diffraction point carries an edgeId
+ */
+export function findReflectedDiffractionPaths3D(
+  tree: FlatBeamTree3D,
+  beams: DiffractionBeams3D,
+  listenerPos: Vector3,
+  edges: DiffractionEdge3D[],
+  bspRoot: BSPNode3D | null,
+  metrics?: { raycastCount: number }
+): ReflectionPath3D[] {
+  const paths: ReflectionPath3D[] = [];
+  const listenerEdges = edges.map(edge => isInEdgeWedge(edge, listenerPos));
+
+  for (let i = 1; i < tree.polygonIds.length; i++) {
+    for (let k = beams.offsets[i]; k < beams.offsets[i + 1]; k++) {
+      const edge = edges[beams.edgeIds[k]];
+      if (!listenerEdges[edge.id]) continue;
+
+      const t = diffractionPointOnEdge(edge, getFlatVirtualSource(tree, i), listenerPos);
+      if (t === null || t < beams.ranges[2 * k] - EDGE_EPSILON || t > beams.ranges[2 * k + 1] + EDGE_EPSILON) continue;
+
+      const point = pointOnEdge(edge, t);
+      if (!segmentVisible(point, listenerPos, bspRoot, metrics)) continue;
+
+      const reflected = traceToSource(tree, i, point, bspRoot, metrics);
+      if (reflected) {
+        paths.push([
+          { position: Vector3.clone(listenerPos), polygonId: null },
+          { position: point, polygonId: null, edgeId: edge.id },
+          ...reflected
+        ]);
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Part of an edge inside the boundary planes of beam node i, as [from, to], or null
+ */
+function clipEdgeToBeam(edge: DiffractionEdge3D, tree: FlatBeamTree3D, i: number): [number, number] | null {
+  let from = 0;
+  let to = edge.length;
+
+  for (let p = tree.planeOffsets[i]; p < tree.planeOffsets[i + 1]; p++) {
+    const [a, b, c, d] = tree.boundaryPlanes.subarray(p * 4, p * 4 + 4);
+    const plane: Plane3D = { a, b, c, d };
+    const atStart = Plane3D.signedDistance(edge.start, plane);
+    const slope = (Plane3D.signedDistance(edge.end, plane) - atStart) / edge.length;
+
+    if (Math.abs(slope) < EDGE_EPSILON) {
+      if (atStart < -EDGE_EPSILON) return null;
+    } else if (slope > 0) {
+      from = Math.max(from, -atStart / slope);
+    } else {
+      to = Math.min(to, -atStart / slope);
+    }
+    if (to - from <= EDGE_EPSILON) return null;
+  }
+
+  return [from, to];
+}
+
+/**
+ * Reflection points and source behind a point lit by beam node i
+ *
+ * @returns Path points after the lit point, ending at the source, or null if a leg is blocked
+ */
+function traceToSource(
+  tree: FlatBeamTree3D,
+  i: number,
+  point: Vector3,
+  bspRoot: BSPNode3D | null,
+  metrics?: { raycastCount: number }
+): ReflectionPath3D | null {
+  const points: ReflectionPath3D = [];
+  let current = point;
+
+  for (let node = i; node > 0; node = tree.parents[node]) {
+    const polygonId = tree.polygonIds[node];
+    const dir = Vector3.normalize(Vector3.subtract(getFlatVirtualSource(tree, node), current));
+    const hit = Polygon3D.rayIntersection(current, dir, tree.polygons[polygonId]);
+    if (!hit || !segmentVisible(current, hit.point, bspRoot, metrics)) return null;
+
+    points.push({ position: Vector3.clone(hit.point), polygonId });
+    current = hit.point;
+  }
+
+  const source = getFlatVirtualSource(tree, 0);
+  if (!segmentVisible(current, source, bspRoot, metrics)) return null;
+  points.push({ position: source, polygonId: null });
+
+  return points;
+}
+
+/**
+ * Locate the diffraction points of a source -> first -> second -> listener path
+ *
+ * The path length is convex in the two edge parameters, so alternating
+ * one-edge minimizations converge to the shortest path.
+ */
+function secondOrderPoints(
+  first: DiffractionEdge3D,
+  second: DiffractionEdge3D,
+  sourcePos: Vector3,
+  listenerPos: Vector3
+): [Vector3, Vector3] | null {
+  let t1 = first.length / 2;
+  let t2 = second.length / 2;
+
+  for (let iteration = 0; iteration < MAX_POINT_ITERATIONS; iteration++) {
+    const next1 = diffractionPointOnEdge(first, sourcePos, pointOnEdge(second, t2));
+    if (next1 === null) return null;
+    const next2 = diffractionPointOnEdge(second, pointOnEdge(first, next1), listenerPos);
+    if (next2 === null) return null;
+
+    const converged = Math.abs(next1 - t1) < EDGE_EPSILON && Math.abs(next2 - t2) < EDGE_EPSILON;
+    t1 = next1;
+    t2 = next2;
+    if (converged) break;
+  }
+
+  if (t1 < -EDGE_EPSILON || t1 > first.length + EDGE_EPSILON ||
+      t2 < -EDGE_EPSILON || t2 > second.length + EDGE_EPSILON) {
+    return null;
+  }
+  return [pointOnEdge(first, t1), pointOnEdge(second, t2)];
+}
+
+/**
+ * Check that nothing blocks the open segment between two points
+ *
+ * Rays are cast from the midpoint toward both ends, so they never start on
+ * the faces adjacent to an edge, where the BSP side test is ambiguous.
+ */
+function segmentVisible(
+  a: Vector3,
+  b: Vector3,
+  bspRoot: BSPNode3D | null,
+  metrics?: { raycastCount: number }
+): boolean {
+  const mid = Vector3.lerp(a, b, 0.5);
+  const half = Vector3.distance(a, b) / 2;
+
+  for (const end of [a, b]) {
+    if (metrics) metrics.raycastCount++;
+    const dir = Vector3.normalize(Vector3.subtract(end, mid));
+    if (rayTraceBSP(mid, dir, bspRoot, 0, half - 1e-6)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Angle around an edge, with points just behind the reference face mapped
+ * to small negative angles instead of nearly 2π
+ */
+function wedgeRelativeAngle(edge: DiffractionEdge3D, point: Vector3): number {
+  const angle = edgeAngle(edge, point);
+  return angle > edge.wedgeAngle ? angle - 2 * Math.PI : angle;
+}
+
+/**
+ * Per-band gain of a diffracted path relative to free-field spreading over its length
+ *
+ * Chains the UTD coefficient of each edge with the spreading of each leg:
+ * gain = Π|D_i| · √(L / Π ℓ_k), where ℓ_k are the leg lengths between
+ * diffractions (reflections unfold into one straight leg) and L their sum,
+ * so that multiplying by the usual 1/L spreading gives the diffracted
+ * pressure. Paths without diffraction points get a gain of 1.
+ *
+ * @param path - Path from listener to source, with edgeId on diffraction points
+ * @param edges - Edge list the edgeIds refer to
+ * @param speedOfSound - Speed of sound in m/s (default: 343)
+ * @returns Linear pressure gain per octave band
+ */
+export function computeDiffractionGain(
+  path: ReflectionPath3D,
+  edges: DiffractionEdge3D[],
+  speedOfSound: number = 343
+): BandValues {
+  // Walk from the source toward the listener
+  const points = [...path].reverse();
+  const gains = OCTAVE_BANDS.map(() => 1);
+
+  let travelled = 0;
+  let unfolded = 0;
+  let legProduct = 1;
+  let diffracted = false;
+  for (let i = 1; i < points.length; i++) {
+    const leg = Vector3.distance(points[i - 1].position, points[i].position);
+    unfolded += leg;
+
+    const { edgeId } = points[i];
+    if (edgeId !== undefined && i < points.length - 1) {
+      const edge = edges[edgeId];
+      if (!edge) {
+        throw new Error(`Diffraction: unknown edge id ${edgeId}`);
+      }
+
+      diffracted = true;
+      legProduct *= unfolded;
+      unfolded = 0;
+      const previous = points[i - 1].position;
+      const position = points[i].position;
+      const next = points[i + 1].position;
+      const incoming = Vector3.normalize(Vector3.subtract(position, previous));
+      const skewAngle = Math.acos(Math.min(1, Math.abs(Vector3.dot(incoming, edge.direction))));
+
+      const geometry = {
+        wedgeAngle: edge.wedgeAngle,
+        sourceAngle: wedgeRelativeAngle(edge, previous),
+        receiverAngle: wedgeRelativeAngle(edge, next),
+        skewAngle,
+        sourceDistance: travelled + leg,
+        receiverDistance: Vector3.distance(position, next)
+      };
+      OCTAVE_BANDS.forEach((frequency, b) => {
+        gains[b] *= utdCoefficient(geometry, frequency, speedOfSound);
+      });
+    }
+    travelled += leg;
+  }
+  legProduct *= unfolded;
+
+  if (!diffracted || legProduct === 0) return gains;
+  const spreading = Math.sqrt(travelled / legProduct);
+  return gains.map(g => g * spreading);
+}
@@ -0,0 +1,168 @@
+/**
+ * Listener grids for BeamTrace3D
+ *
+ * Fail planes and skip spheres are cached per beam at the last listener
+ * position, so they pay off when consecutive listeners are close together.
+ * The orderings here visit grid points so that each step is short.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { ReflectionPath3D } from '../core/types';
+import type { PerformanceMetrics3D } from './solver3d';
+
+/**
+ * Regular horizontal grid of listener positions
+ */
+export interface ListenerGrid3D {
+  origin: Vector3;              // First point; the grid extends along +X and +Y
+  columns: number;              // Points along X
+  rows: number;                 // Points along Y
+  spacing: number;              // Distance between neighbouring points (m)
+}
+
+/**
+ * Order in which listener points are visited
+ * - 'hilbert': along a Hilbert curve (default; short steps in both directions)
+ * - 'serpentine': row by row, alternating direction
+ * - 'input': as given
+ */
+export type GridOrder3D = 'hilbert' | 'serpentine' | 'input';
+
+/**
+ * Options for OptimizedSolver3D.getPathsForGrid
+ */
+export interface GridOptions3D {
+  order?: GridOrder3D;          // Visiting order (default: 'hilbert')
+}
+
+/**
+ * Paths at one listener point
+ */
+export interface GridPointPaths3D {
+  index: number;                // Index of the point (grid: row * columns + column)
+  position: Vector3;
+  paths: ReflectionPath3D[];
+  metrics: PerformanceMetrics3D; // Metrics of this point's getPaths() call
+}
+
+/**
+ * Paths at every point of a grid
+ */
+export interface GridPaths3D {
+  points: GridPointPaths3D[];   // In input order
+  visitOrder: number[];         // Point indices in the order they were evaluated
+  metrics: PerformanceMetrics3D; // Counters summed over all points
+}
+
+/**
+ * Cells per side of the lattice that listed positions are snapped to for ordering
+ */
+const ORDER_RESOLUTION = 1024;
+
+/**
+ * Listener positions of a grid, row by row
+ */
+export function listenerGridPoints(grid: ListenerGrid3D): Vector3[] {
+  if (!Number.isInteger(grid.columns) || !Number.isInteger(grid.rows) || grid.columns < 1 || grid.rows < 1) {
+    throw new Error(`ListenerGrid3D: columns and rows must be positive integers, got ${grid.columns} x ${grid.rows}`);
+  }
+
+  const [x0, y0, z] = grid.origin;
+  const points: Vector3[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      points.push([x0 + column * grid.spacing, y0 + row * grid.spacing, z]);
+    }
+  }
+  return points;
+}
+
+/**
+ * Order in which to visit the points of a grid or a list of positions
+ *
+ * Listed positions are snapped to a lattice over their XY bounding box;
+ * serpentine rows are positions on the same lattice row.
+ *
+ * @returns Point indices in visiting order
+ */
+export function gridVisitOrder(grid: ListenerGrid3D | Vector3[], order: GridOrder3D = 'hilbert'): number[] {
+  const cells = Array.isArray(grid) ? latticeCells(grid) : gridCells(grid);
+  const indices = cells.map((_, i) => i);
+  if (order === 'input' || cells.length < 2) {
+    return indices;
+  }
+
+  if (order === 'serpentine') {
+    // Number the occupied rows so that row parity gives the direction
+    const rows = [...new Set(cells.map(([, y]) => y))].sort((a, b) => a - b);
+    const rowNumber = new Map(rows.map((y, i) => [y, i]));
+    return indices.sort((a, b) => {
+      const [ax, ay] = cells[a];
+      const [bx, by] = cells[b];
+      if (ay !== by) return ay - by;
+      return rowNumber.get(ay)! % 2 === 0 ? ax - bx : bx - ax;
+    });
+  }
+
+  // Smallest power-of-two lattice holding every cell
+  let n = 1;
+  while (cells.some(([x, y]) => x >= n || y >= n)) n *= 2;
+
+  const keys = cells.map(([x, y]) => hilbertIndex(x, y, n));
+  return indices.sort((a, b) => keys[a] - keys[b]);
+}
+
+/**
+ * Column and row of every grid point, row by row
+ */
+function gridCells(grid: ListenerGrid3D): Array<[number, number]> {
+  const cells: Array<[number, number]> = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      cells.push([column, row]);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Snap points to integer lattice cells (same scale on both axes)
+ */
+function latticeCells(points: Vector3[]): Array<[number, number]> {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  const extent = Math.max(maxX - minX, maxY - minY);
+  const scale = extent > 0 ? (ORDER_RESOLUTION - 1) / extent : 0;
+  return points.map(([x, y]): [number, number] => [
+    Math.round((x - minX) * scale),
+    Math.round((y - minY) * scale)
+  ]);
+}
+
+/**
+ * Position of a cell along the Hilbert curve filling an n x n lattice (n a power of two)
+ */
+function hilbertIndex(x: number, y: number, n: number): number {
+  let d = 0;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+
+    // Rotate the quadrant so the curve stays continuous
+    if (ry === 0) {
+      if (rx === 1) {
+        x = n - 1 - x;
+        y = n - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return d;
+}
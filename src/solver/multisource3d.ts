@@ -0,0 +1,177 @@
+/**
+ * Multi-source 3D solver
+ *
+ * Traces several sources in one room. The BSP tree, diffracting edges,
+ * transmissive flags and reflection candidates depend only on the room, so
+ * they are built once and shared; each source keeps its own beam tree,
+ * buckets and caches.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { ReflectionPath3D, DetailedReflectionPath3D } from '../core/types';
+import { Source3D, Listener3D } from '../core/source-listener3d';
+import { Polygon3D } from '../geometry/polygon3d';
+import { DiffractionEdge3D } from '../geometry/edges3d';
+import {
+  OptimizedSolver3D,
+  OptimizedSolver3DConfig,
+  PerformanceMetrics3D,
+  SolverGeometry3D,
+  createSolverGeometry3D
+} from './solver3d';
+
+/**
+ * Solver settings shared by all sources (directivity and orientation come from each Source3D;
+ * each source builds its own beam tree, so a prebuilt tree or cache does not apply)
+ */
+export type MultiSourceSolver3DConfig = Omit<OptimizedSolver3DConfig, 'sourceDirectivity' | 'sourceOrientation' | 'geometry' | 'beamTree' | 'cache'>;
+
+/**
+ * A path together with the source it starts at
+ */
+export interface SourcePath3D {
+  sourceId: number;             // Index of the source in the solver
+  path: ReflectionPath3D;
+}
+
+/**
+ * A detailed path together with the source it starts at
+ */
+export interface SourceDetailedPath3D extends DetailedReflectionPath3D {
+  sourceId: number;             // Index of the source in the solver
+}
+
+/**
+ * Beam tracing solver for several sources sharing one room
+ */
+export class MultiSourceSolver3D {
+  private readonly geometry: SolverGeometry3D;
+  private readonly config: OptimizedSolver3DConfig;
+  private readonly solvers: OptimizedSolver3D[] = [];
+  private readonly sourceList: Source3D[] = [];
+
+  /**
+   * Create a solver for a room and its sources
+   *
+   * @param polygons - Room geometry as an array of polygons
+   * @param sources - Sound sources; their indices are the source ids
+   * @param config - Settings applied to every source
+   */
+  constructor(polygons: Polygon3D[], sources: Source3D[], config: MultiSourceSolver3DConfig = {}) {
+    this.geometry = createSolverGeometry3D([...polygons], config);
+    this.config = { ...config, geometry: this.geometry };
+    for (const source of sources) {
+      this.addSource(source);
+    }
+  }
+
+  /**
+   * The sources, indexed by source id
+   */
+  get sources(): Source3D[] {
+    return [...this.sourceList];
+  }
+
+  /**
+   * Add a source
+   *
+   * @returns Id of the new source (the last index)
+   */
+  addSource(source: Source3D): number {
+    this.solvers.push(this.createSolver(source));
+    this.sourceList.push(source);
+    return this.sourceList.length - 1;
+  }
+
+  /**
+   * Remove a source; the ids of later sources shift down by one
+   */
+  removeSource(sourceId: number): void {
+    this.checkSourceId(sourceId);
+    this.solvers.splice(sourceId, 1);
+    this.sourceList.splice(sourceId, 1);
+  }
+
+  /**
+   * Move a source, keeping its orientation and directivity
+   */
+  setSourcePosition(sourceId: number, position: Vector3): void {
+    this.checkSourceId(sourceId);
+    const { orientation, directivity } = this.sourceList[sourceId];
+    this.sourceList[sourceId] = new Source3D(position, { orientation, directivity });
+    this.solvers[sourceId].setSourcePosition(position);
+  }
+
+  /**
+   * Get the paths from every source to a listener, in source order
+   */
+  getPaths(listener: Listener3D | Vector3): SourcePath3D[] {
+    const pos = Array.isArray(listener) ? listener : listener.position;
+    return this.solvers.flatMap((solver, sourceId) =>
+      solver.getPaths(pos).map(path => ({ sourceId, path }))
+    );
+  }
+
+  /**
+   * Get the detailed paths from every source to a listener, in source order
+   *
+   * Each source's directivity and orientation apply to its own paths.
+   */
+  getDetailedPaths(listener: Listener3D | Vector3): SourceDetailedPath3D[] {
+    const [pos, orientation] = Array.isArray(listener) ? [listener, undefined] : [listener.position, listener.orientation];
+    return this.solvers.flatMap((solver, sourceId) =>
+      solver.getDetailedPaths(pos, orientation).map(path => ({ ...path, sourceId }))
+    );
+  }
+
+  /**
+   * Get the performance metrics of one source from the last getPaths() call
+   */
+  getMetrics(sourceId: number): PerformanceMetrics3D {
+    this.checkSourceId(sourceId);
+    return this.solvers[sourceId].getMetrics();
+  }
+
+  /**
+   * Clear the fail plane and skip sphere caches of all sources
+   */
+  clearCache(): void {
+    for (const solver of this.solvers) {
+      solver.clearCache();
+    }
+  }
+
+  /**
+   * Get the diffracting edges (empty unless diffractionOrder > 0)
+   */
+  getDiffractionEdges(): DiffractionEdge3D[] {
+    return this.geometry.edges;
+  }
+
+  /**
+   * Get the room polygons
+   */
+  getPolygons(): Polygon3D[] {
+    return [...this.geometry.polygons];
+  }
+
+  /**
+   * Create the single-source solver for a source on the shared geometry
+   */
+  private createSolver(source: Source3D): OptimizedSolver3D {
+    return new OptimizedSolver3D(this.geometry.polygons, source.position, {
+      ...this.config,
+      sourceDirectivity: source.directivity,
+      sourceOrientation: source.orientation
+    });
+  }
+
+  /**
+   * Throw unless sourceId is a source index
+   */
+  private checkSourceId(sourceId: number): void {
+    if (!Number.isInteger(sourceId) || sourceId < 0 || sourceId >= this.solvers.length) {
+      throw new Error(`MultiSourceSolver3D: no source with id ${sourceId}`);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Worker thread script of ParallelSolver3D
+ *
+ * Rebuilds the solver from the workerData and answers batches of listeners.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { ParallelRequest3D, ParallelWorkerData3D, createParallelHandler3D } from './parallel3d';
+
+const handle = createParallelHandler3D(workerData as ParallelWorkerData3D);
+
+parentPort!.on('message', (request: ParallelRequest3D) => {
+  parentPort!.postMessage(handle(request));
+});
@@ -0,0 +1,368 @@
+/**
+ * Worker-thread path finding for BeamTrace3D (Node only)
+ *
+ * ParallelSolver3D builds the flat beam tree once, sends its typed arrays to
+ * a pool of worker_threads (serializeFlatBeamTree3D) and splits batches of
+ * listener positions between the workers. Each worker keeps its own fail
+ * plane and skip sphere caches, so listeners are handed out in short runs
+ * along a Hilbert curve (see gridVisitOrder). Results come back in input order.
+ */
+
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import { Vector3 } from '../core/vector3';
+import { Orientation3D } from '../core/orientation3d';
+import { ReflectionPath3D, DetailedReflectionPath3D } from '../core/types';
+import { Listener3D } from '../core/source-listener3d';
+import { Polygon3D } from '../geometry/polygon3d';
+import { AcousticMaterial, MaterialDatabase } from '../acoustics/materials';
+import { SerializedBeamTree3D, computeReflectionCandidates } from '../structures/beamtree3d';
+import { buildFlatBeamTree3D, createFlatBeamTree3D, serializeFlatBeamTree3D } from '../structures/flatbeamtree3d';
+import { OptimizedSolver3D, OptimizedSolver3DConfig, validateGeometryConfig } from './solver3d';
+import { GridOrder3D, gridVisitOrder } from './grid3d';
+
+/**
+ * Solver settings for ParallelSolver3D (the beam tree and geometry are built by the pool)
+ */
+export type ParallelSolver3DConfig = Omit<OptimizedSolver3DConfig, 'geometry' | 'beamTree' | 'cache'>;
+
+/**
+ * Options for the worker pool
+ */
+export interface ParallelOptions3D {
+  workers?: number;             // Worker threads; 0 traces on the calling thread (default: one per CPU core)
+  batchSize?: number;           // Most listeners per task (default: 32)
+  order?: GridOrder3D;          // Order listeners are handed out in (default: 'hilbert')
+  workerUrl?: URL | string;     // Worker script (default: parallel3d-worker.js next to this module)
+}
+
+/**
+ * Solver settings in a form that survives postMessage (MaterialDatabase is a class)
+ */
+interface ParallelConfig3D extends Omit<ParallelSolver3DConfig, 'materials'> {
+  materials?: {
+    defaultMaterial: AcousticMaterial;
+    entries: Array<[number, AcousticMaterial]>;
+  };
+}
+
+/**
+ * Data a worker rebuilds its solver from
+ */
+export interface ParallelWorkerData3D {
+  polygons: Polygon3D[];
+  sourcePosition: Vector3;
+  config: ParallelConfig3D;
+  tree: SerializedBeamTree3D;
+}
+
+/**
+ * A batch of listeners sent to a worker
+ */
+export interface ParallelRequest3D {
+  id: number;
+  detailed: boolean;            // getDetailedPaths instead of getPaths
+  listeners: Array<{ position: Vector3; orientation?: Orientation3D }>;
+}
+
+/**
+ * A worker's answer to a ParallelRequest3D
+ */
+export interface ParallelResponse3D {
+  id: number;
+  paths?: ReflectionPath3D[][] | DetailedReflectionPath3D[][]; // Per listener, in request order
+  error?: string;
+}
+
+/** Default number of listeners per task */
+const DEFAULT_BATCH_SIZE = 32;
+
+/**
+ * Rebuild the solver from worker data and return the request handler
+ *
+ * The worker script calls this once; with workers: 0 the pool calls it on
+ * its own thread.
+ */
+export function createParallelHandler3D(data: ParallelWorkerData3D): (request: ParallelRequest3D) => ParallelResponse3D {
+  const { materials, ...config } = data.config;
+  let database: MaterialDatabase | undefined;
+  if (materials) {
+    database = new MaterialDatabase(materials.defaultMaterial);
+    for (const [id, material] of materials.entries) {
+      database.register(id, material);
+    }
+  }
+
+  const solver = new OptimizedSolver3D(data.polygons, data.sourcePosition, {
+    ...config,
+    materials: database,
+    beamTree: createFlatBeamTree3D(data.tree, data.polygons)
+  });
+
+  return request => {
+    try {
+      const paths = request.detailed
+        ? request.listeners.map(l => solver.getDetailedPaths(l.position, l.orientation))
+        : request.listeners.map(l => solver.getPaths(l.position));
+      return { id: request.id, paths };
+    } catch (error) {
+      return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+}
+
+/**
+ * Beam tracing solver that finds paths for many listeners on worker threads
+ *
+ * @example
+ * ```typescript
+ * import { ParallelSolver3D } from 'beam-trace/parallel';
+ *
+ * const solver = new ParallelSolver3D(room, [5, 4, 1.5], { maxReflectionOrder: 4 });
+ * const paths = await solver.getPaths(listenerGridPoints(grid));
+ * await solver.terminate();
+ * ```
+ */
+export class ParallelSolver3D {
+  private readonly workerData: ParallelWorkerData3D;
+  private readonly workers: Worker[] = [];
+  private readonly inlineHandler?: (request: ParallelRequest3D) => ParallelResponse3D;
+  private readonly batchSize: number;
+  private readonly order: GridOrder3D;
+  private readonly leafNodeCount: number;
+  private readonly pending = new Map<number, {
+    resolve: (paths: ParallelResponse3D['paths']) => void;
+    reject: (error: Error) => void;
+  }>();
+  private nextRequestId = 0;
+  private failure: Error | null = null;
+  private terminated = false;
+
+  /**
+   * Build the beam tree and start the workers
+   *
+   * @param polygons - Room geometry as an array of polygons
+   * @param sourcePosition - Position of the sound source
+   * @param config - Solver settings, applied in every worker
+   * @param options - Pool settings
+   */
+  constructor(
+    polygons: Polygon3D[],
+    sourcePosition: Vector3,
+    config: ParallelSolver3DConfig = {},
+    options: ParallelOptions3D = {}
+  ) {
+    const workerCount = options.workers ?? Math.max(1, cpus().length);
+    if (!Number.isInteger(workerCount) || workerCount < 0) {
+      throw new Error(`ParallelSolver3D: workers must be a non-negative integer, got ${workerCount}`);
+    }
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new Error(`ParallelSolver3D: batchSize must be a positive integer, got ${this.batchSize}`);
+    }
+    this.order = options.order ?? 'hilbert';
+    // Fail here rather than in every worker
+    validateGeometryConfig(config);
+
+    // Same default order as OptimizedSolver3D
+    const tree = buildFlatBeamTree3D(
+      sourcePosition,
+      polygons,
+      config.maxReflectionOrder ?? 5,
+      computeReflectionCandidates(polygons)
+    );
+    this.leafNodeCount = tree.leafNodes.length;
+
+    const { materials, ...rest } = config;
+    this.workerData = {
+      polygons: [...polygons],
+      sourcePosition: Vector3.clone(sourcePosition),
+      config: {
+        ...rest,
+        materials: materials && {
+          defaultMaterial: materials.getDefault(),
+          entries: materials.ids().map(id => [id, materials.get(id)!])
+        }
+      },
+      tree: serializeFlatBeamTree3D(tree)
+    };
+
+    if (workerCount === 0) {
+      this.inlineHandler = createParallelHandler3D(this.workerData);
+      return;
+    }
+
+    const url = options.workerUrl ?? new URL('./parallel3d-worker.js', import.meta.url);
+    for (let i = 0; i < workerCount; i++) {
+      this.workers.push(this.startWorker(url));
+    }
+  }
+
+  /**
+   * Number of worker threads (0 when tracing on the calling thread)
+   */
+  get workerCount(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Get the number of leaf nodes in the beam tree
+   */
+  getLeafNodeCount(): number {
+    return this.leafNodeCount;
+  }
+
+  /**
+   * Get the reflection paths to every listener
+   *
+   * @returns Paths per listener, in input order
+   */
+  async getPaths(listeners: Array<Listener3D | Vector3>): Promise<ReflectionPath3D[][]> {
+    return await this.run(listeners, false) as ReflectionPath3D[][];
+  }
+
+  /**
+   * Get the detailed paths to every listener
+   *
+   * Listener3D orientations set the frame of the arrival directions.
+   *
+   * @returns Detailed paths per listener, in input order
+   */
+  async getDetailedPaths(listeners: Array<Listener3D | Vector3>): Promise<DetailedReflectionPath3D[][]> {
+    return await this.run(listeners, true) as DetailedReflectionPath3D[][];
+  }
+
+  /**
+   * Stop the workers; later calls reject
+   */
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    this.rejectPending(new Error('ParallelSolver3D: terminated'));
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+
+  /**
+   * Split the listeners into batches along the visiting order and trace them
+   */
+  private async run(
+    listeners: Array<Listener3D | Vector3>,
+    detailed: boolean
+  ): Promise<Array<ReflectionPath3D[] | DetailedReflectionPath3D[]>> {
+    if (this.terminated) {
+      throw new Error('ParallelSolver3D: terminated');
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+
+    const items = listeners.map(l => Array.isArray(l) ? { position: l } : { position: l.position, orientation: l.orientation });
+    const order = gridVisitOrder(items.map(item => item.position), this.order);
+    const size = Math.min(this.batchSize, Math.ceil(items.length / Math.max(1, this.workers.length)));
+    const batches: number[][] = [];
+    for (let i = 0; i < order.length; i += size) {
+      batches.push(order.slice(i, i + size));
+    }
+
+    const results: Array<ReflectionPath3D[] | DetailedReflectionPath3D[]> = new Array(items.length);
+    const store = (batch: number[], paths: ParallelResponse3D['paths']) => {
+      batch.forEach((index, k) => { results[index] = paths![k]; });
+    };
+
+    if (this.inlineHandler) {
+      for (const batch of batches) {
+        const response = this.inlineHandler({ id: 0, detailed, listeners: batch.map(i => items[i]) });
+        if (response.error) {
+          throw new Error(`ParallelSolver3D: ${response.error}`);
+        }
+        store(batch, response.paths);
+      }
+      return results;
+    }
+
+    // Each worker takes the next batch as soon as it is done with the last one
+    let next = 0;
+    await Promise.all(this.workers.map(async worker => {
+      while (next < batches.length) {
+        const batch = batches[next++];
+        store(batch, await this.request(worker, detailed, batch.map(i => items[i])));
+      }
+    }));
+    return results;
+  }
+
+  /**
+   * Send one batch to a worker
+   */
+  private request(
+    worker: Worker,
+    detailed: boolean,
+    listeners: ParallelRequest3D['listeners']
+  ): Promise<ParallelResponse3D['paths']> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      // Keep the process alive only while work is outstanding
+      if (this.pending.size === 0) {
+        this.workers.forEach(w => w.ref());
+      }
+      this.pending.set(id, { resolve, reject });
+      const request: ParallelRequest3D = { id, detailed, listeners };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Create a worker and route its answers to the pending requests
+   */
+  private startWorker(url: URL | string): Worker {
+    const worker = new Worker(url, { workerData: this.workerData });
+    worker.unref();
+
+    worker.on('message', (response: ParallelResponse3D) => {
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      this.finishRequest(response.id);
+      if (response.error) {
+        request.reject(new Error(`ParallelSolver3D: ${response.error}`));
+      } else {
+        request.resolve(response.paths);
+      }
+    });
+    worker.on('error', error => {
+      this.failure = new Error(`ParallelSolver3D: worker failed: ${error.message}`);
+      this.rejectPending(this.failure);
+    });
+    worker.on('exit', code => {
+      if (this.terminated || this.failure) return;
+      this.failure = new Error(`ParallelSolver3D: worker exited with code ${code}`);
+      this.rejectPending(this.failure);
+    });
+
+    return worker;
+  }
+
+  /**
+   * Forget a request, releasing the workers when none are left
+   */
+  private finishRequest(id: number): void {
+    this.pending.delete(id);
+    if (this.pending.size === 0) {
+      this.workers.forEach(w => w.unref());
+    }
+  }
+
+  /**
+   * Reject every outstanding request
+   */
+  private rejectPending(error: Error): void {
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    this.workers.forEach(w => w.unref());
+    for (const request of requests) {
+      request.reject(error);
+    }
+  }
+}
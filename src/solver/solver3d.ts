@@ -9,25 +9,59 @@
  */
 
 import { Vector3 } from '../core/vector3';
+import { Orientation3D } from '../core/orientation3d';
 import {
   PathPoint3D,
   ReflectionPath3D,
   ReflectionDetail3D,
   SegmentDetail3D,
-  DetailedReflectionPath3D
+  DetailedReflectionPath3D,
+  ArrivalDirection3D,
+  TransmissionDetail3D
 } from '../core/types';
-import { Polygon3D } from '../geometry/polygon3d';
+import { Polygon3D, PolygonTransform3D } from '../geometry/polygon3d';
 import { Plane3D } from '../core/plane3d';
-import { BSPNode3D, buildBSP, rayTraceBSP } from '../structures/bsp3d';
-import { BeamTree3D, BeamNode3D, buildBeamTree3D, clearFailPlanes } from '../structures/beamtree3d';
-import { detectFailPlane, isListenerBehindFailPlane } from '../optimization/failplane3d';
+import { MaterialDatabase, isTransmissive, reflectionLossDb } from '../acoustics/materials';
+import { BandValues, addBandValues, createBandValues } from '../acoustics/bands';
+import { AtmosphericConditions, airAbsorptionBands, annotateAirAbsorption } from '../acoustics/air-absorption';
+import { DirectivityPattern, directivityGain } from '../acoustics/directivity';
+import { DiffractionEdge3D, findDiffractionEdges } from '../geometry/edges3d';
+import {
+  DiffractionBeams3D,
+  buildDiffractionBeams3D,
+  computeDiffractionGain,
+  findDiffractionPaths3D,
+  findReflectedDiffractionPaths3D
+} from './diffraction3d';
+import { getSurfaceId, removeDuplicateSurfacePaths } from './surfaces3d';
+import { GridOptions3D, GridPaths3D, GridPointPaths3D, ListenerGrid3D, gridVisitOrder, listenerGridPoints } from './grid3d';
+import { BSPNode3D, buildBSP, deserializeBSP, rayTraceAll, rayTraceBSP } from '../structures/bsp3d';
+import { BeamTree3D, computeReflectionCandidates, editReflectionCandidates } from '../structures/beamtree3d';
+import {
+  FlatBeamTree3D,
+  FlatBeamTreeEdit3D,
+  buildFlatBeamTree3D,
+  clearFlatFailPlane,
+  clearFlatFailPlanes,
+  createFlatBeamTree3D,
+  expandFlatBeamTree3D,
+  flatFailPlaneDistance,
+  flattenBeamTree3D,
+  getFlatAperture,
+  getFlatVirtualSource,
+  insertFlatBeamTreePolygon,
+  removeFlatBeamTreePolygon,
+  setFlatFailPlane
+} from '../structures/flatbeamtree3d';
+import { decodeSolverCache3D, encodeSolverCache3D, hashSolverInput3D } from '../io/solver-cache';
+import { detectFlatFailPlane } from '../optimization/failplane3d';
 import {
   Bucket3D,
   createBuckets3D,
   checkSkipSphere,
-  createSkipSphere,
+  createFlatSkipSphere,
   invalidateSkipSphere,
-  clearBucketFailPlanes,
+  clearFlatBucketFailPlanes,
   DEFAULT_BUCKET_SIZE_3D
 } from '../optimization/skipsphere3d';
 
@@ -52,6 +86,43 @@ export interface PerformanceMetrics3D {
 export interface OptimizedSolver3DConfig {
   maxReflectionOrder?: number;  // Maximum reflection order (default: 5)
   bucketSize?: number;          // Nodes per bucket (default: 16)
+  materials?: MaterialDatabase; // Material lookup for per-band reflection losses
+  airAbsorption?: boolean | AtmosphericConditions; // Per-segment air attenuation (true: 20 °C, 50 % RH)
+  sourceDirectivity?: DirectivityPattern; // Source directivity (default: omnidirectional)
+  sourceOrientation?: Orientation3D;      // Source orientation (default: facing +X)
+  diffractionOrder?: number;    // Maximum edge diffractions per path: 0 (default), 1 or 2
+  transmission?: boolean;       // Let paths pass through transmissive materials (requires materials)
+  geometry?: SolverGeometry3D;  // Shared createSolverGeometry3D result for the same polygons and settings
+  beamTree?: BeamTree3D | FlatBeamTree3D; // Prebuilt beam tree for these polygons and source (e.g. deserializeBeamTree3D); a flat tree is taken over
+  cache?: ArrayBuffer;          // serialize() output for the same polygons, source and order: restores the beam and BSP trees
+}
+
+/**
+ * Acceleration structures that depend only on the room, not on the source
+ *
+ * Solvers for several sources in one room can share a single instance
+ * (see MultiSourceSolver3D) instead of each building its own.
+ */
+export interface SolverGeometry3D {
+  polygons: Polygon3D[];            // Room polygons
+  bspRoot: BSPNode3D | null;        // BSP tree for ray tracing
+  edges: DiffractionEdge3D[];       // Diffracting edges (empty unless diffractionOrder > 0)
+  transmissive: boolean[] | null;   // Polygons paths may pass through (null: everything is opaque)
+  reflectionCandidates: number[][]; // Polygons reachable after each reflector (computeReflectionCandidates)
+  diffractionOrder: number;         // Setting the edges were found for
+  transmission: boolean;            // Setting the transmissive flags were computed for
+}
+
+/**
+ * Options for converting simple paths to detailed paths
+ */
+export interface DetailedPathOptions3D {
+  materials?: MaterialDatabase; // Resolve Polygon3D.materialId to per-band losses
+  airAbsorption?: AtmosphericConditions | BandValues; // Conditions, or precomputed dB/m per band
+  sourceDirectivity?: DirectivityPattern; // Per-band gain toward the departure direction
+  sourceOrientation?: Orientation3D;      // Orientation of the source's directivity (default: facing +X)
+  listenerOrientation?: Orientation3D;    // Frame for arrivalDirection azimuth/elevation (default: facing +X)
+  edges?: DiffractionEdge3D[];  // Edges referenced by edgeId, for per-band diffraction gains
 }
 
 /**
@@ -72,13 +143,26 @@ export interface BeamVisualizationData {
  * - Beam tree for reflection path enumeration
  * - Fail plane caching for O(1) early rejection
  * - Skip sphere bucketing for spatial acceleration
+ *
+ * The beam tree is kept flat (FlatBeamTree3D); getBeamTree() expands it
+ * into nodes for inspection.
  */
 export class OptimizedSolver3D {
   private readonly polygons: Polygon3D[];
-  private readonly sourcePosition: Vector3;
-  private readonly bspRoot: BSPNode3D | null;
-  private readonly beamTree: BeamTree3D;
-  private readonly buckets: Bucket3D[];
+  private sourcePosition: Vector3;
+  private geometry: SolverGeometry3D;
+  private readonly sharedGeometry: boolean;
+  private readonly maxReflectionOrder: number;
+  private readonly bucketSize: number;
+  private beamTree: FlatBeamTree3D;
+  private buckets: Bucket3D<number>[];
+  private diffractionBeams: DiffractionBeams3D | null = null;  // Built on first use, dropped with the beam tree
+  private readonly materials?: MaterialDatabase;
+  private readonly airAbsorption?: BandValues;
+  private readonly sourceDirectivity?: DirectivityPattern;
+  private readonly sourceOrientation?: Orientation3D;
+  private readonly diffractionOrder: number;
+  private readonly transmission: boolean;
   private metrics: PerformanceMetrics3D;
 
   /**
@@ -93,20 +177,64 @@ export class OptimizedSolver3D {
     sourcePosition: Vector3,
     config: OptimizedSolver3DConfig = {}
   ) {
-    const maxOrder = config.maxReflectionOrder ?? 5;
+    const cache = config.cache ? decodeSolverCache3D(config.cache) : undefined;
+    const maxOrder = config.maxReflectionOrder ?? config.beamTree?.maxReflectionOrder ?? cache?.maxReflectionOrder ?? 5;
     const bucketSize = config.bucketSize ?? DEFAULT_BUCKET_SIZE_3D;
+    validateGeometryConfig(config);
 
-    this.polygons = polygons;
+    if (cache && cache.hash !== hashSolverInput3D(polygons, sourcePosition, maxOrder)) {
+      throw new Error('OptimizedSolver3D: cache was built for a different room, source or reflection order');
+    }
+
+    const shared = config.geometry;
+    if (shared && (shared.polygons.length !== polygons.length || polygons.some((p, i) => p !== shared.polygons[i]))) {
+      throw new Error('OptimizedSolver3D: shared geometry was built for different polygons');
+    }
+    if (shared && (shared.diffractionOrder !== (config.diffractionOrder ?? 0) ||
+        shared.transmission !== (config.transmission ?? false))) {
+      throw new Error('OptimizedSolver3D: shared geometry was built with different diffractionOrder or transmission settings');
+    }
+
+    const tree = config.beamTree;
+    const treeSource = tree && ('root' in tree ? tree.root.virtualSource : getFlatVirtualSource(tree, 0));
+    if (tree && (tree.polygons.length !== polygons.length || tree.maxReflectionOrder !== maxOrder ||
+        !Vector3.equals(treeSource!, sourcePosition))) {
+      throw new Error('OptimizedSolver3D: beam tree was built for a different room, source or reflection order');
+    }
+
+    // Own copy: addPolygon/removePolygon must not change the caller's array
+    this.polygons = shared ? shared.polygons : [...polygons];
     this.sourcePosition = Vector3.clone(sourcePosition);
+    this.materials = config.materials;
+    this.sourceDirectivity = config.sourceDirectivity;
+    this.sourceOrientation = config.sourceOrientation;
+    if (config.airAbsorption) {
+      this.airAbsorption = airAbsorptionBands(config.airAbsorption === true ? {} : config.airAbsorption);
+    }
 
-    // Build BSP tree for ray tracing
-    this.bspRoot = buildBSP(polygons);
+    // BSP tree, diffracting edges, transmissive flags and reflection candidates
+    this.diffractionOrder = config.diffractionOrder ?? 0;
+    this.transmission = config.transmission ?? false;
+    this.sharedGeometry = shared !== undefined;
+    this.geometry = shared ?? createSolverGeometry3D(
+      this.polygons,
+      config,
+      cache && deserializeBSP(cache.bsp, this.polygons)
+    );
 
     // Build beam tree for reflection enumeration
-    this.beamTree = buildBeamTree3D(sourcePosition, polygons, maxOrder);
+    this.maxReflectionOrder = maxOrder;
+    this.bucketSize = bucketSize;
+    if (tree) {
+      this.beamTree = { ...('root' in tree ? flattenBeamTree3D(tree) : tree), polygons: this.polygons };
+    } else if (cache) {
+      this.beamTree = createFlatBeamTree3D(cache.tree, this.polygons);
+    } else {
+      this.beamTree = buildFlatBeamTree3D(sourcePosition, this.polygons, maxOrder, this.geometry.reflectionCandidates);
+    }
 
     // Create buckets for skip sphere optimization
-    this.buckets = createBuckets3D(this.beamTree.leafNodes, bucketSize);
+    this.buckets = createBuckets3D(Array.from(this.beamTree.leafNodes), bucketSize);
 
     // Initialize metrics
     this.metrics = this.createEmptyMetrics();
@@ -114,9 +242,132 @@ export class OptimizedSolver3D {
     this.metrics.bucketsTotal = this.buckets.length;
   }
 
+  /**
+   * Move the source
+   *
+   * Only the beam tree and its buckets depend on the source: the BSP tree,
+   * diffracting edges, transmissive flags and the per-polygon reflection
+   * candidates are reused, so this is much cheaper than a new solver.
+   * Fail plane and skip sphere caches start empty again.
+   *
+   * @param position - New source position
+   */
+  setSourcePosition(position: Vector3): void {
+    if (Vector3.equals(position, this.sourcePosition)) {
+      return;
+    }
+
+    this.sourcePosition = Vector3.clone(position);
+    this.beamTree = buildFlatBeamTree3D(this.sourcePosition, this.polygons, this.maxReflectionOrder, this.geometry.reflectionCandidates);
+    this.buckets = createBuckets3D(Array.from(this.beamTree.leafNodes), this.bucketSize);
+    this.diffractionBeams = null;
+
+    this.metrics = this.createEmptyMetrics();
+    this.metrics.totalLeafNodes = this.beamTree.leafNodes.length;
+    this.metrics.bucketsTotal = this.buckets.length;
+  }
+
+  /**
+   * Add a polygon to the room
+   *
+   * The beam tree is extended in place: only beams that reach the new
+   * polygon gain children. Cached fail planes and skip spheres stay valid;
+   * new leaf beams go into new buckets.
+   *
+   * Every edit rebuilds the BSP tree and, with diffraction, the diffracting
+   * edges; reflection candidates and transmissive flags are only updated
+   * for the edited polygon.
+   *
+   * @returns ID of the new polygon (the last index)
+   */
+  addPolygon(polygon: Polygon3D): number {
+    this.checkEditable();
+    const id = this.polygons.length;
+    this.polygons.push(polygon);
+    this.updateGeometry(id, 'insert');
+
+    this.updateBeamTree(insertFlatBeamTreePolygon(this.beamTree, id, this.geometry.reflectionCandidates));
+    return id;
+  }
+
+  /**
+   * Remove a polygon from the room
+   *
+   * Beams reflecting off it are pruned; the IDs of later polygons shift
+   * down by one, as with Array.splice.
+   */
+  removePolygon(id: number): void {
+    this.checkPolygonId(id);
+    this.polygons.splice(id, 1);
+    this.updateGeometry(id, 'remove');
+
+    this.updateBeamTree(removeFlatBeamTreePolygon(this.beamTree, id, true));
+  }
+
+  /**
+   * Replace a polygon, keeping its ID
+   *
+   * Only the beams reflecting off the polygon are rebuilt.
+   */
+  updatePolygon(id: number, polygon: Polygon3D): void {
+    this.checkPolygonId(id);
+    this.polygons[id] = polygon;
+    this.updateGeometry(id, 'update');
+
+    const removed = removeFlatBeamTreePolygon(this.beamTree, id, false);
+    const inserted = insertFlatBeamTreePolygon(removed.tree, id, this.geometry.reflectionCandidates);
+    this.updateBeamTree({
+      tree: inserted.tree,
+      nodeMap: removed.nodeMap.map(node => node === -1 ? -1 : inserted.nodeMap[node])
+    });
+  }
+
+  /**
+   * Rotate and/or move a polygon (see Polygon3D.transform)
+   */
+  transformPolygon(id: number, transform: PolygonTransform3D): void {
+    this.checkPolygonId(id);
+    this.updatePolygon(id, Polygon3D.transform(this.polygons[id], transform));
+  }
+
+  /**
+   * Get the current room polygons
+   */
+  getPolygons(): Polygon3D[] {
+    return [...this.polygons];
+  }
+
+  /**
+   * Get the beam tree as BeamNode3D objects, with the cached fail planes
+   *
+   * Expanded from the flat tree on each call; changing it does not affect
+   * the solver.
+   */
+  getBeamTree(): BeamTree3D {
+    return expandFlatBeamTree3D(this.beamTree);
+  }
+
+  /**
+   * Save the beam tree and BSP tree for a later solver (config.cache)
+   *
+   * The cache is tied to the current polygons, source position and
+   * reflection order; fail plane and skip sphere caches are not included.
+   */
+  serialize(): ArrayBuffer {
+    return encodeSolverCache3D(this.beamTree, this.geometry.bspRoot);
+  }
+
   /**
    * Get all valid reflection paths from source to listener
    *
+   * With diffractionOrder > 0, paths diffracted around edges follow the
+   * specular ones, including reflected paths that diffract before reaching
+   * the listener; diffraction points have polygonId null and an edgeId.
+   * With transmission enabled, paths may cross transmissive polygons; each
+   * crossing is a point with polygonId null and a transmittedPolygonId.
+   * Paths that differ only in which piece of a surface they hit (see
+   * Polygon3D.surfaceId) are reported once.
+   *
    * @param listenerPos - Position of the listener
    * @returns Array of valid reflection paths
    */
@@ -131,7 +382,7 @@ export class OptimizedSolver3D {
     }
 
     // 2. Check intermediate reflection orders (non-leaf nodes)
-    const intermediatePaths = this.findIntermediatePaths(listenerPos, this.beamTree.root);
+    const intermediatePaths = this.findIntermediatePaths(listenerPos);
     validPaths.push(...intermediatePaths);
 
     // 3. Process leaf nodes with bucket optimization
@@ -147,7 +398,7 @@ export class OptimizedSolver3D {
       if (skipStatus === 'outside') {
         // Listener escaped - invalidate sphere and clear fail planes
         invalidateSkipSphere(bucket);
-        clearBucketFailPlanes(bucket);
+        clearFlatBucketFailPlanes(this.beamTree, bucket);
       }
 
       this.metrics.bucketsChecked++;
@@ -155,17 +406,17 @@ export class OptimizedSolver3D {
       let allFailed = true;
       let allHaveFailPlanes = true;
 
+      const { failPlaneTypes } = this.beamTree;
       for (const node of bucket.nodes) {
         // Check fail plane cache first (O(1))
-        if (node.failPlane && isListenerBehindFailPlane(listenerPos, node.failPlane)) {
+        if (failPlaneTypes[node] !== 0 && flatFailPlaneDistance(this.beamTree, node, listenerPos) < 0) {
           this.metrics.failPlaneCacheHits++;
           continue;
         }
 
         // Fail plane was invalidated or listener escaped
-        if (node.failPlane) {
-          node.failPlane = undefined;
-          node.failPlaneType = undefined;
+        if (failPlaneTypes[node] !== 0) {
+          clearFlatFailPlane(this.beamTree, node);
           this.metrics.failPlaneCacheMisses++;
         }
 
@@ -176,22 +427,86 @@ export class OptimizedSolver3D {
           validPaths.push(result.path);
           allFailed = false;
           allHaveFailPlanes = false;
-        } else if (!node.failPlane) {
+        } else if (failPlaneTypes[node] === 0) {
           allHaveFailPlanes = false;
         }
       }
 
       // Create skip sphere if all paths failed with fail planes
       if (allFailed && allHaveFailPlanes && bucket.nodes.length > 0) {
-        bucket.skipSphere = createSkipSphere(listenerPos, bucket.nodes);
+        bucket.skipSphere = createFlatSkipSphere(listenerPos, this.beamTree, bucket.nodes);
         if (bucket.skipSphere) {
           this.metrics.skipSphereCount++;
         }
       }
     }
 
-    this.metrics.validPathCount = validPaths.length;
-    return validPaths;
+    // 4. Edge diffraction paths
+    if (this.diffractionOrder > 0) {
+      validPaths.push(...findDiffractionPaths3D(
+        this.sourcePosition,
+        listenerPos,
+        this.geometry.edges,
+        this.geometry.bspRoot,
+        this.diffractionOrder,
+        this.metrics
+      ));
+
+      // Reflected sound diffracting at the edges its beams light
+      if (!this.diffractionBeams) {
+        this.diffractionBeams = buildDiffractionBeams3D(this.beamTree, this.geometry.edges);
+      }
+      validPaths.push(...findReflectedDiffractionPaths3D(
+        this.beamTree,
+        this.diffractionBeams,
+        listenerPos,
+        this.geometry.edges,
+        this.geometry.bspRoot,
+        this.metrics
+      ));
+    }
+
+    // Seams between pieces of one surface yield the same path twice
+    const paths = removeDuplicateSurfacePaths(validPaths, this.polygons);
+
+    this.metrics.validPathCount = paths.length;
+    return paths;
+  }
+
+  /**
+   * Get the paths at many listener positions
+   *
+   * Points are evaluated in an order that keeps consecutive listeners close
+   * (see GridOrder3D), so cached fail planes and skip spheres keep rejecting
+   * beams from one point to the next.
+   *
+   * @param grid - A regular grid, or listener positions
+   * @param options - Visiting order
+   * @returns Paths per point in input order, and metrics summed over all points
+   */
+  getPathsForGrid(grid: ListenerGrid3D | Vector3[], options: GridOptions3D = {}): GridPaths3D {
+    const positions = Array.isArray(grid) ? grid : listenerGridPoints(grid);
+    const visitOrder = gridVisitOrder(grid, options.order);
+    const points: GridPointPaths3D[] = new Array(positions.length);
+    const total = this.createEmptyMetrics();
+
+    for (const index of visitOrder) {
+      const paths = this.getPaths(positions[index]);
+      const metrics = this.getMetrics();
+      points[index] = { index, position: Vector3.clone(positions[index]), paths, metrics };
+
+      total.bucketsSkipped += metrics.bucketsSkipped;
+      total.bucketsChecked += metrics.bucketsChecked;
+      total.failPlaneCacheHits += metrics.failPlaneCacheHits;
+      total.failPlaneCacheMisses += metrics.failPlaneCacheMisses;
+      total.raycastCount += metrics.raycastCount;
+      total.skipSphereCount += metrics.skipSphereCount;
+      total.validPathCount += metrics.validPathCount;
+    }
+    total.totalLeafNodes = this.beamTree.leafNodes.length;
+    total.bucketsTotal = this.buckets.length;
+
+    return { points, visitOrder, metrics: total };
   }
 
   /**
@@ -202,13 +517,28 @@ export class OptimizedSolver3D {
    * - Surface normal vectors
    * - Segment lengths and cumulative distances
    * - Grazing incidence detection
+   * - Per-band reflection losses (when a material database is configured)
+   * - Per-band air attenuation per segment (when airAbsorption is enabled)
+   * - Per-band source directivity gain (when sourceDirectivity is set)
+   * - Direction of arrival in the listener's local frame
+   * - Diffraction flag, edge ids and per-band UTD gain (when diffraction is enabled)
+   * - Crossed polygons and per-band transmission loss (when transmission is enabled)
    *
    * @param listenerPos - Position of the listener
+   * @param listenerOrientation - Orientation of the listener (default: facing +X)
    * @returns Array of detailed reflection paths
    */
-  getDetailedPaths(listenerPos: Vector3): DetailedReflectionPath3D[] {
+  getDetailedPaths(listenerPos: Vector3, listenerOrientation?: Orientation3D): DetailedReflectionPath3D[] {
     const simplePaths = this.getPaths(listenerPos);
-    return simplePaths.map(path => convertToDetailedPath3D(path, this.polygons));
+    const options: DetailedPathOptions3D = {
+      materials: this.materials,
+      airAbsorption: this.airAbsorption,
+      sourceDirectivity: this.sourceDirectivity,
+      sourceOrientation: this.sourceOrientation,
+      listenerOrientation,
+      edges: this.geometry.edges
+    };
+    return simplePaths.map(path => convertToDetailedPath3D(path, this.polygons, options));
   }
 
   /**
@@ -219,16 +549,15 @@ export class OptimizedSolver3D {
     const dist = Vector3.length(direction);
     const dir = Vector3.normalize(direction);
 
-    this.metrics.raycastCount++;
-    const hit = rayTraceBSP(listenerPos, dir, this.bspRoot, 0, dist, -1);
-
     // If something blocks the path before reaching source, no direct path
-    if (hit && hit.t < dist - 1e-6) {
+    const crossings = this.traceSegment(listenerPos, dir, 0, dist - 1e-6, -1);
+    if (!crossings) {
       return null;
     }
 
     return [
       { position: Vector3.clone(listenerPos), polygonId: null },
+      ...crossings,
       { position: Vector3.clone(this.sourcePosition), polygonId: null }
     ];
   }
@@ -236,21 +565,13 @@ export class OptimizedSolver3D {
   /**
    * Find paths through intermediate (non-leaf) nodes
    *
-   * These are lower-order reflections that didn't spawn further children.
+   * These are the lower-order reflections on the way to the leaves, tried
+   * deepest first.
    */
-  private findIntermediatePaths(listenerPos: Vector3, node: BeamNode3D): ReflectionPath3D[] {
+  private findIntermediatePaths(listenerPos: Vector3): ReflectionPath3D[] {
     const paths: ReflectionPath3D[] = [];
 
-    // Process children recursively
-    for (const child of node.children) {
-      if (child.children.length > 0) {
-        // Has children - recurse
-        paths.push(...this.findIntermediatePaths(listenerPos, child));
-      }
-    }
-
-    // Try this node if it has an aperture (is a reflection, not root)
-    if (node.id !== -1 && node.aperture) {
+    for (const node of this.beamTree.internalNodes) {
       const path = this.traverseBeam(listenerPos, node);
       if (path) {
         paths.push(path);
@@ -263,19 +584,21 @@ export class OptimizedSolver3D {
   /**
    * Traverse a beam from listener to source, building the reflection path
    */
-  private traverseBeam(listenerPos: Vector3, node: BeamNode3D): ReflectionPath3D | null {
+  private traverseBeam(listenerPos: Vector3, node: number): ReflectionPath3D | null {
+    const { polygonIds, parents } = this.beamTree;
     const pathPoints: PathPoint3D[] = [
       { position: Vector3.clone(listenerPos), polygonId: null }
     ];
 
     let currentPoint = listenerPos;
-    let currentNode: BeamNode3D | null = node;
+    let currentNode = node;
     let prevPolyId = -1;
 
     // Walk from leaf to root, finding reflection points
-    while (currentNode && currentNode.id !== -1) {
-      const poly = this.polygons[currentNode.id];
-      const imageSource = currentNode.virtualSource;
+    while (currentNode > 0) {
+      const polygonId = polygonIds[currentNode];
+      const poly = this.polygons[polygonId];
+      const imageSource = getFlatVirtualSource(this.beamTree, currentNode);
 
       // Direction from current point toward virtual source
       const dir = Vector3.normalize(Vector3.subtract(imageSource, currentPoint));
@@ -289,70 +612,91 @@ export class OptimizedSolver3D {
       }
 
       // Check for occlusion between current point and reflection point
-      this.metrics.raycastCount++;
-      const occluder = rayTraceBSP(
-        currentPoint,
-        dir,
-        this.bspRoot,
-        1e-6,
-        hit.t - 1e-6,
-        prevPolyId
-      );
-
-      if (occluder) {
+      const crossings = this.traceSegment(currentPoint, dir, 1e-6, hit.t - 1e-6, prevPolyId);
+
+      if (!crossings) {
         // Path is blocked
         return null;
       }
 
       // Add reflection point to path
-      pathPoints.push({
+      pathPoints.push(...crossings, {
         position: Vector3.clone(hit.point),
-        polygonId: currentNode.id
+        polygonId
       });
 
       currentPoint = hit.point;
-      prevPolyId = currentNode.id;
-      currentNode = currentNode.parent;
+      prevPolyId = polygonId;
+      currentNode = parents[currentNode];
     }
 
     // Final segment to actual source
-    if (currentNode) {
-      const dir = Vector3.normalize(
-        Vector3.subtract(currentNode.virtualSource, currentPoint)
-      );
-      const dist = Vector3.distance(currentNode.virtualSource, currentPoint);
-
-      this.metrics.raycastCount++;
-      const finalHit = rayTraceBSP(
-        currentPoint,
-        dir,
-        this.bspRoot,
-        1e-6,
-        dist - 1e-6,
-        prevPolyId
-      );
-
-      if (finalHit) {
-        // Final segment is blocked
-        return null;
-      }
+    const source = getFlatVirtualSource(this.beamTree, 0);
+    const dir = Vector3.normalize(Vector3.subtract(source, currentPoint));
+    const dist = Vector3.distance(source, currentPoint);
 
-      // Add source point
-      pathPoints.push({
-        position: Vector3.clone(currentNode.virtualSource),
-        polygonId: null
-      });
+    const crossings = this.traceSegment(currentPoint, dir, 1e-6, dist - 1e-6, prevPolyId);
+
+    if (!crossings) {
+      // Final segment is blocked
+      return null;
     }
 
+    // Add source point
+    pathPoints.push(...crossings, {
+      position: source,
+      polygonId: null
+    });
+
     return pathPoints;
   }
 
+  /**
+   * Check a path segment for occlusion
+   *
+   * Without transmission any hit blocks the segment. With transmission only
+   * opaque polygons block it, and the transmissive ones crossed are returned.
+   *
+   * @returns Transmission points in order along the ray (empty if nothing
+   *          was crossed), or null if the segment is blocked
+   */
+  private traceSegment(
+    origin: Vector3,
+    dir: Vector3,
+    tMin: number,
+    tMax: number,
+    ignoreId: number
+  ): PathPoint3D[] | null {
+    this.metrics.raycastCount++;
+
+    const { bspRoot, transmissive } = this.geometry;
+    if (!transmissive) {
+      return rayTraceBSP(origin, dir, bspRoot, tMin, tMax, ignoreId) ? null : [];
+    }
+
+    const crossings: PathPoint3D[] = [];
+    for (const hit of rayTraceAll(origin, dir, bspRoot, tMin, tMax, ignoreId)) {
+      if (!transmissive[hit.polygonId]) {
+        return null;
+      }
+
+      // BSP fragments and pieces of one surface can report the same crossing twice
+      if (crossings.some(c =>
+        getSurfaceId(this.polygons, c.transmittedPolygonId!) === getSurfaceId(this.polygons, hit.polygonId) &&
+        Vector3.distance(c.position, hit.point) < 1e-6)) {
+        continue;
+      }
+      crossings.push({ position: Vector3.clone(hit.point), polygonId: null, transmittedPolygonId: hit.polygonId });
+    }
+    return crossings;
+  }
+
   /**
    * Validate a path through a beam node
    */
   private validatePath(
     listenerPos: Vector3,
-    leafNode: BeamNode3D
+    leafNode: number
   ): { valid: boolean; path: ReflectionPath3D | null } {
     const path = this.traverseBeam(listenerPos, leafNode);
 
@@ -361,10 +705,9 @@ export class OptimizedSolver3D {
     }
 
     // Path failed - try to detect and cache fail plane
-    const failInfo = detectFailPlane(listenerPos, leafNode, this.polygons);
+    const failInfo = detectFlatFailPlane(listenerPos, this.beamTree, leafNode, this.polygons);
     if (failInfo) {
-      leafNode.failPlane = failInfo.plane;
-      leafNode.failPlaneType = failInfo.type;
+      setFlatFailPlane(this.beamTree, leafNode, failInfo.plane, failInfo.type);
     }
 
     return { valid: false, path: null };
@@ -379,11 +722,9 @@ export class OptimizedSolver3D {
 
   /**
    * Clear all cached fail planes and skip spheres
-   *
-   * Call this if the room geometry changes.
    */
   clearCache(): void {
-    clearFailPlanes(this.beamTree);
+    clearFlatFailPlanes(this.beamTree);
     for (const bucket of this.buckets) {
       invalidateSkipSphere(bucket);
     }
@@ -403,6 +744,13 @@ export class OptimizedSolver3D {
     return this.beamTree.maxReflectionOrder;
   }
 
+  /**
+   * Get the diffracting edges (empty unless diffractionOrder > 0)
+   */
+  getDiffractionEdges(): DiffractionEdge3D[] {
+    return this.geometry.edges;
+  }
+
   /**
    * Get the source position
    */
@@ -418,25 +766,105 @@ export class OptimizedSolver3D {
     const beams: BeamVisualizationData[] = [];
     const effectiveMaxOrder = maxOrder ?? this.beamTree.maxReflectionOrder;
 
-    const traverse = (node: BeamNode3D, order: number) => {
-      if (order > effectiveMaxOrder) return;
+    const { polygonIds, parents } = this.beamTree;
 
-      if (node.id !== -1 && node.aperture) {
-        beams.push({
-          virtualSource: Vector3.clone(node.virtualSource),
-          apertureVertices: node.aperture.vertices.map(v => Vector3.clone(v)),
-          reflectionOrder: order,
-          polygonId: node.id
-        });
-      }
+    // Parents come first, so each node's order follows from its parent's
+    const orders = new Int32Array(polygonIds.length);
+    for (let node = 1; node < polygonIds.length; node++) {
+      orders[node] = orders[parents[node]] + 1;
+      if (orders[node] > effectiveMaxOrder) continue;
+
+      beams.push({
+        virtualSource: getFlatVirtualSource(this.beamTree, node),
+        apertureVertices: getFlatAperture(this.beamTree, node),
+        reflectionOrder: orders[node],
+        polygonId: polygonIds[node]
+      });
+    }
 
-      for (const child of node.children) {
-        traverse(child, order + 1);
+    return beams;
+  }
+
+  /**
+   * Update everything derived from the polygon list after one polygon changed
+   *
+   * Reflection candidates and transmissive flags change for the edited
+   * polygon only; the BSP tree and diffracting edges are rebuilt in full.
+   */
+  private updateGeometry(polygonId: number, edit: 'insert' | 'remove' | 'update'): void {
+    const { transmissive, reflectionCandidates } = this.geometry;
+    const materials = this.materials;
+
+    let flags = transmissive;
+    if (flags && materials) {
+      flags = [...flags];
+      if (edit === 'remove') {
+        flags.splice(polygonId, 1);
+      } else {
+        const flag = isTransmissive(materials.resolve(this.polygons[polygonId].materialId));
+        flags.splice(polygonId, edit === 'insert' ? 0 : 1, flag);
       }
+    }
+
+    this.geometry = {
+      polygons: this.polygons,
+      bspRoot: buildBSP(this.polygons),
+      edges: this.diffractionOrder > 0 ? findDiffractionEdges(this.polygons) : [],
+      transmissive: flags,
+      reflectionCandidates: editReflectionCandidates(reflectionCandidates, this.polygons, polygonId, edit),
+      diffractionOrder: this.diffractionOrder,
+      transmission: this.transmission
     };
+  }
 
-    traverse(this.beamTree.root, 0);
-    return beams;
+  /**
+   * Switch to the edited beam tree and fit the buckets to it
+   *
+   * Buckets keep their surviving leaves and skip spheres (a sphere in which
+   * all of a bucket's beams fail still holds for fewer beams). Leaves that
+   * are new, or that were internal nodes before, go into new buckets.
+   */
+  private updateBeamTree({ tree, nodeMap }: FlatBeamTreeEdit3D): void {
+    this.beamTree = tree;
+    this.diffractionBeams = null;
+    const leaves = new Uint8Array(tree.polygonIds.length);
+    tree.leafNodes.forEach(node => { leaves[node] = 1; });
+    const bucketed = new Uint8Array(tree.polygonIds.length);
+    const buckets: Bucket3D<number>[] = [];
+
+    for (const bucket of this.buckets) {
+      const nodes = bucket.nodes.map(node => nodeMap[node]).filter(node => node !== -1 && leaves[node]);
+      if (nodes.length === 0) continue;
+      nodes.forEach(node => { bucketed[node] = 1; });
+      buckets.push({ ...bucket, nodes });
+    }
+
+    const added = Array.from(tree.leafNodes).filter(node => !bucketed[node]);
+    buckets.push(...createBuckets3D(added, this.bucketSize));
+    buckets.forEach((bucket, i) => { bucket.id = i; });
+    this.buckets = buckets;
+
+    this.metrics.totalLeafNodes = this.beamTree.leafNodes.length;
+    this.metrics.bucketsTotal = this.buckets.length;
+  }
+
+  /**
+   * Throw if the polygons belong to geometry shared with other solvers
+   */
+  private checkEditable(): void {
+    if (this.sharedGeometry) {
+      throw new Error('OptimizedSolver3D: polygons of shared geometry cannot be edited');
+    }
+  }
+
+  /**
+   * Throw unless id is a polygon index of an editable solver
+   */
+  private checkPolygonId(id: number): void {
+    this.checkEditable();
+    if (!Number.isInteger(id) || id < 0 || id >= this.polygons.length) {
+      throw new Error(`OptimizedSolver3D: no polygon with id ${id}`);
+    }
   }
 
   /**
@@ -468,6 +896,51 @@ export class OptimizedSolver3D {
   }
 }
 
+/**
+ * Build the source-independent acceleration structures for a room
+ *
+ * Uses the diffractionOrder, transmission and materials settings of config;
+ * pass the result as config.geometry to every solver sharing it.
+ *
+ * @param bspRoot - BSP tree already built for the polygons (e.g. restored from a cache)
+ */
+export function createSolverGeometry3D(
+  polygons: Polygon3D[],
+  config: OptimizedSolver3DConfig = {},
+  bspRoot?: BSPNode3D | null
+): SolverGeometry3D {
+  validateGeometryConfig(config);
+  const materials = config.materials;
+
+  return {
+    polygons,
+    // BSP tree for ray tracing
+    bspRoot: bspRoot === undefined ? buildBSP(polygons) : bspRoot,
+    // Diffracting edges (only needed when diffraction is enabled)
+    edges: (config.diffractionOrder ?? 0) > 0 ? findDiffractionEdges(polygons) : [],
+    // Polygons that paths may pass through (null: everything is opaque)
+    transmissive: config.transmission && materials
+      ? polygons.map(poly => isTransmissive(materials.resolve(poly.materialId)))
+      : null,
+    reflectionCandidates: computeReflectionCandidates(polygons),
+    diffractionOrder: config.diffractionOrder ?? 0,
+    transmission: config.transmission ?? false
+  };
+}
+
+/**
+ * Throw on geometry settings the solver does not support
+ */
+export function validateGeometryConfig(config: OptimizedSolver3DConfig): void {
+  const diffractionOrder = config.diffractionOrder ?? 0;
+  if (![0, 1, 2].includes(diffractionOrder)) {
+    throw new Error(`OptimizedSolver3D: diffractionOrder must be 0, 1 or 2, got ${diffractionOrder}`);
+  }
+  if (config.transmission && !config.materials) {
+    throw new Error('OptimizedSolver3D: transmission requires a material database');
+  }
+}
+
 /**
  * Compute the total path length of a reflection path
  */
@@ -531,16 +1004,30 @@ function getOrientedNormal3D(polygon: Polygon3D, incomingDir: Vector3): Vector3
   return Vector3.clone(normal);
 }
 
+/**
+ * Direction of arrival from the first segment (listener -> first point)
+ */
+function computeArrivalDirection(
+  path: ReflectionPath3D,
+  listenerOrientation: Orientation3D = Orientation3D.create()
+): ArrivalDirection3D {
+  const direction = Vector3.normalize(Vector3.subtract(path[1].position, path[0].position));
+  const { azimuth, elevation } = Orientation3D.localDirection(listenerOrientation, direction);
+  return { azimuth, elevation, direction };
+}
+
 /**
  * Convert a simple reflection path to a detailed path with full reflection information.
  *
  * @param path - The simple reflection path from getPaths()
  * @param polygons - The room polygons (to look up polygon info by ID)
+ * @param options - Optional materials, air absorption, source directivity and edges for per-band gains
  * @returns Detailed path information including angles, normals, and distances
  */
 export function convertToDetailedPath3D(
   path: ReflectionPath3D,
-  polygons: Polygon3D[]
+  polygons: Polygon3D[],
+  options: DetailedPathOptions3D = {}
 ): DetailedReflectionPath3D {
   if (path.length < 2) {
     throw new Error('Path must have at least 2 points (listener and source)');
@@ -551,8 +1038,13 @@ export function convertToDetailedPath3D(
 
   const reflections: ReflectionDetail3D[] = [];
   const segments: SegmentDetail3D[] = [];
+  const { materials } = options;
+
+  const transmissions: TransmissionDetail3D[] = [];
 
   let cumulativeDistance = 0;
+  let totalReflectionLoss = materials ? createBandValues(0) : undefined;
+  let totalTransmissionLoss = materials ? createBandValues(0) : undefined;
 
   // Process each segment and reflection
   for (let i = 0; i < path.length - 1; i++) {
@@ -601,9 +1093,10 @@ export function convertToDetailedPath3D(
       // Check if grazing (angle close to 90°)
       const isGrazing = Math.abs(incidenceAngle - Math.PI / 2) < GRAZING_THRESHOLD_3D;
 
-      reflections.push({
+      const reflection: ReflectionDetail3D = {
         polygon,
         polygonId: endPolygonId,
+        surfaceId: getSurfaceId(polygons, endPolygonId),
         hitPoint: Vector3.clone(hitPoint),
         incidenceAngle,
         reflectionAngle,
@@ -614,20 +1107,91 @@ export function convertToDetailedPath3D(
         cumulativeDistance,
         incomingSegmentLength: segmentLength,
         isGrazing
-      });
+      };
+
+      // Look up the surface material and accumulate its per-band loss
+      if (materials && totalReflectionLoss) {
+        const material = materials.resolve(polygon.materialId);
+        const loss = reflectionLossDb(material);
+        reflection.material = material;
+        reflection.reflectionLossDb = loss;
+        totalReflectionLoss = addBandValues(totalReflectionLoss, loss);
+      }
+
+      reflections.push(reflection);
     } else {
-      // Final segment to source - just add to cumulative distance
+      // Final segment to source, or a crossing or diffraction point - just add to cumulative distance
       cumulativeDistance += segmentLength;
+
+      const transmittedId = path[i + 1].transmittedPolygonId;
+      if (transmittedId !== undefined) {
+        const polygon = polygons[transmittedId];
+        const transmission: TransmissionDetail3D = {
+          polygon,
+          polygonId: transmittedId,
+          surfaceId: getSurfaceId(polygons, transmittedId),
+          hitPoint: Vector3.clone(path[i + 1].position)
+        };
+
+        // Look up the crossed material and accumulate its per-band loss
+        if (materials && totalTransmissionLoss) {
+          const material = materials.resolve(polygon.materialId);
+          const loss = material.transmissionLoss ? [...material.transmissionLoss] : createBandValues(0);
+          transmission.material = material;
+          transmission.transmissionLossDb = loss;
+          totalTransmissionLoss = addBandValues(totalTransmissionLoss, loss);
+        }
+
+        transmissions.push(transmission);
+      }
     }
   }
 
-  return {
+  const detailed: DetailedReflectionPath3D = {
     listenerPosition,
     sourcePosition,
     totalPathLength: cumulativeDistance,
     reflectionCount: reflections.length,
     reflections,
     segments,
-    simplePath: path
+    simplePath: path,
+    arrivalDirection: computeArrivalDirection(path, options.listenerOrientation),
+    isDiffracted: false
   };
+
+  const edgeIds = path.filter(p => p.edgeId !== undefined).map(p => p.edgeId as number);
+  if (edgeIds.length > 0) {
+    detailed.isDiffracted = true;
+    detailed.diffractionEdgeIds = edgeIds;
+    if (options.edges) {
+      detailed.diffractionGain = computeDiffractionGain(path, options.edges);
+    }
+  }
+
+  if (totalReflectionLoss) {
+    detailed.reflectionLossDb = totalReflectionLoss;
+  }
+
+  if (transmissions.length > 0) {
+    detailed.transmissions = transmissions;
+    if (totalTransmissionLoss) {
+      detailed.transmissionLossDb = totalTransmissionLoss;
+    }
+  }
+
+  if (options.airAbsorption) {
+    annotateAirAbsorption(detailed, options.airAbsorption);
+  }
+
+  // Directivity toward the departure direction of the last segment (source -> previous point)
+  if (options.sourceDirectivity) {
+    const departure = Vector3.subtract(path[path.length - 2].position, sourcePosition);
+    const orientation = options.sourceOrientation ?? Orientation3D.create();
+    detailed.sourceDirectivityGain = directivityGain(
+      options.sourceDirectivity,
+      Orientation3D.localDirection(orientation, departure)
+    );
+  }
+
+  return detailed;
 }
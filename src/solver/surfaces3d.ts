@@ -0,0 +1,121 @@
+/**
+ * Architectural surfaces for BeamTrace3D
+ *
+ * One wall may be built from several Polygon3D pieces: concave outlines
+ * split by Polygon3D.createSurface, or surfaces of an imported model.
+ * Pieces with the same surfaceId form one surface; a polygon without a
+ * surfaceId is a surface of its own. Explicit surfaceIds are non-negative,
+ * and ungrouped polygons get negative ids (-1 - polygon index), so the two
+ * never collide.
+ */
+
+import { ReflectionPath3D, DetailedReflectionPath3D } from '../core/types';
+import { Polygon3D } from '../geometry/polygon3d';
+
+/**
+ * A surface and the polygons it is made of
+ */
+export interface Surface3D {
+  surfaceId: number;
+  polygonIds: number[];       // Pieces, in polygon order
+  area: number;               // Total area of the pieces
+  materialId?: number;        // Material of the first piece
+}
+
+/**
+ * Path statistics of one surface
+ */
+export interface SurfaceStatistics3D extends Surface3D {
+  reflectionCount: number;    // Reflections off the surface, over all paths
+  pathCount: number;          // Paths reflecting off the surface at least once
+  transmissionCount: number;  // Crossings of the surface, over all paths
+}
+
+/**
+ * Surface a polygon belongs to: its surfaceId, or -1 - polygonId if it has none
+ */
+export function getSurfaceId(polygons: Polygon3D[], polygonId: number): number {
+  return polygons[polygonId].surfaceId ?? -1 - polygonId;
+}
+
+/**
+ * Group polygons into surfaces, in order of first appearance
+ */
+export function groupSurfaces(polygons: Polygon3D[]): Surface3D[] {
+  const surfaces = new Map<number, Surface3D>();
+
+  polygons.forEach((polygon, polygonId) => {
+    if (polygon.surfaceId !== undefined && !(Number.isInteger(polygon.surfaceId) && polygon.surfaceId >= 0)) {
+      throw new Error(`Surfaces: surfaceId of polygon ${polygonId} must be a non-negative integer, got ${polygon.surfaceId}`);
+    }
+    const surfaceId = getSurfaceId(polygons, polygonId);
+    let surface = surfaces.get(surfaceId);
+    if (!surface) {
+      surface = { surfaceId, polygonIds: [], area: 0, materialId: polygon.materialId };
+      surfaces.set(surfaceId, surface);
+    }
+    surface.polygonIds.push(polygonId);
+    surface.area += Polygon3D.area(polygon);
+  });
+
+  return [...surfaces.values()];
+}
+
+/**
+ * Count reflections and crossings per surface
+ *
+ * @param paths - Detailed paths from getDetailedPaths
+ * @param polygons - The room polygons the paths were traced in
+ * @returns Statistics of every surface, including those no path reaches
+ */
+export function computeSurfaceStatistics(
+  paths: DetailedReflectionPath3D[],
+  polygons: Polygon3D[]
+): SurfaceStatistics3D[] {
+  const statistics = new Map<number, SurfaceStatistics3D>();
+  for (const surface of groupSurfaces(polygons)) {
+    statistics.set(surface.surfaceId, { ...surface, reflectionCount: 0, pathCount: 0, transmissionCount: 0 });
+  }
+
+  for (const path of paths) {
+    const reached = new Set<number>();
+    for (const reflection of path.reflections) {
+      statistics.get(reflection.surfaceId)!.reflectionCount++;
+      reached.add(reflection.surfaceId);
+    }
+    for (const surfaceId of reached) {
+      statistics.get(surfaceId)!.pathCount++;
+    }
+    for (const transmission of path.transmissions ?? []) {
+      statistics.get(transmission.surfaceId)!.transmissionCount++;
+    }
+  }
+
+  return [...statistics.values()];
+}
+
+/**
+ * Remove paths that repeat another path through different pieces of the same surfaces
+ *
+ * A reflection point on the seam between two pieces of a wall is found
+ * through both pieces; the copies have the same points and surface sequence.
+ * The first path of each group is kept.
+ */
+export function removeDuplicateSurfacePaths(paths: ReflectionPath3D[], polygons: Polygon3D[]): ReflectionPath3D[] {
+  const seen = new Set<string>();
+
+  return paths.filter(path => {
+    const key = path.map(point => {
+      const position = point.position.map(c => Math.round(c * 1e6)).join(',');
+      if (point.polygonId !== null) return `r${getSurfaceId(polygons, point.polygonId)}@${position}`;
+      if (point.transmittedPolygonId !== undefined) return `t${getSurfaceId(polygons, point.transmittedPolygonId)}@${position}`;
+      if (point.edgeId !== undefined) return `e${point.edgeId}@${position}`;
+      return position;
+    }).join(';');
+
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
@@ -44,18 +44,93 @@ export interface BeamTree3D {
  */
 const MIN_APERTURE_AREA = 1e-6;
 
+/**
+ * Find, for every polygon, the polygons a reflection off it can reach next
+ *
+ * A beam leaving polygon i stays in front of i's plane, so polygons lying
+ * entirely behind it are never hit. The lists depend only on the geometry,
+ * so a solver computes them once and reuses them when the source moves.
+ *
+ * @returns Candidate polygon indices per polygon, in ascending order
+ */
+export function computeReflectionCandidates(polygons: Polygon3D[]): number[][] {
+  return polygons.map((_, i) => candidateRow(polygons, i));
+}
+
+/**
+ * Update reflection candidates after one polygon was added, removed or replaced
+ *
+ * Only the edited polygon's own list and its entry in the other lists are
+ * recomputed: O(n) polygon tests instead of the O(n²) of a full rebuild.
+ *
+ * @param candidates - computeReflectionCandidates of the polygons before the edit (left unchanged)
+ * @param polygons - Polygons after the edit
+ * @param polygonId - Index of the new, removed or replaced polygon
+ * @param edit - What happened to the polygon; later indices shift as with Array.splice
+ * @returns computeReflectionCandidates(polygons)
+ */
+export function editReflectionCandidates(
+  candidates: number[][],
+  polygons: Polygon3D[],
+  polygonId: number,
+  edit: 'insert' | 'remove' | 'update'
+): number[][] {
+  if (edit === 'remove') {
+    return candidates
+      .filter((_, i) => i !== polygonId)
+      .map(row => row.filter(j => j !== polygonId).map(j => j > polygonId ? j - 1 : j));
+  }
+
+  const rows = edit === 'insert'
+    ? [...candidates.slice(0, polygonId), [], ...candidates.slice(polygonId)]
+      .map(row => row.map(j => j >= polygonId ? j + 1 : j))
+    : candidates;
+
+  return rows.map((row, i) => {
+    if (i === polygonId) return candidateRow(polygons, i);
+
+    const others = row.filter(j => j !== polygonId);
+    if (!reachesPolygon(polygons[i], polygons[polygonId])) return others;
+    const at = others.findIndex(j => j > polygonId);
+    return at === -1 ? [...others, polygonId] : [...others.slice(0, at), polygonId, ...others.slice(at)];
+  });
+}
+
+/**
+ * Polygons a reflection off polygon i can reach next, in ascending order
+ */
+function candidateRow(polygons: Polygon3D[], i: number): number[] {
+  const candidates: number[] = [];
+  for (let j = 0; j < polygons.length; j++) {
+    if (j !== i && reachesPolygon(polygons[i], polygons[j])) {
+      candidates.push(j);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Check whether part of a polygon lies in front of a reflector's plane
+ */
+function reachesPolygon(reflector: Polygon3D, poly: Polygon3D): boolean {
+  // Same test (and tolerance) as quickRejectPolygon against the aperture plane
+  return poly.vertices.some(v => Plane3D.signedDistance(v, reflector.plane) >= -1e-6);
+}
+
 /**
  * Build a complete beam tree from source and room geometry
  *
  * @param sourcePosition - Position of the sound source
  * @param polygons - Room polygons (walls, floor, ceiling)
  * @param maxReflectionOrder - Maximum number of reflections to track
+ * @param candidates - Precomputed computeReflectionCandidates(polygons), to skip polygons behind each reflector
  * @returns Complete beam tree structure
  */
 export function buildBeamTree3D(
   sourcePosition: Vector3,
   polygons: Polygon3D[],
-  maxReflectionOrder: number
+  maxReflectionOrder: number,
+  candidates?: number[][]
 ): BeamTree3D {
   // Create root node (source position, no reflection)
   const root: BeamNode3D = {
@@ -69,33 +144,14 @@ export function buildBeamTree3D(
   // Only create first-order nodes if maxReflectionOrder >= 1
   if (maxReflectionOrder >= 1) {
     for (let i = 0; i < polygons.length; i++) {
-      const poly = polygons[i];
-
-      // Check if source can see this polygon (not backfacing)
-      if (!isPolygonFacingSource(poly, sourcePosition)) {
-        continue;
-      }
-
-      // Create virtual source by mirroring across polygon
-      const childVS = mirrorPointAcrossPolygon(sourcePosition, poly);
-
-      // First-order beam uses the full polygon as aperture
-      const childBoundaries = constructBeamBoundaryPlanes(childVS, poly);
-
-      const childNode: BeamNode3D = {
-        id: i,
-        parent: root,
-        virtualSource: childVS,
-        aperture: Polygon3D.clone(poly),
-        boundaryPlanes: childBoundaries,
-        children: []
-      };
+      const childNode = createBeamChild(root, polygons, i);
+      if (!childNode) continue;
 
       root.children.push(childNode);
 
       // Build higher-order reflections recursively
       if (maxReflectionOrder > 1) {
-        buildBeamChildren(childNode, polygons, 2, maxReflectionOrder);
+        buildBeamChildren(childNode, polygons, 2, maxReflectionOrder, candidates);
       }
     }
   }
@@ -119,55 +175,163 @@ function buildBeamChildren(
   node: BeamNode3D,
   polygons: Polygon3D[],
   currentOrder: number,
-  maxOrder: number
+  maxOrder: number,
+  candidates?: number[][]
 ): void {
   if (currentOrder > maxOrder) return;
   if (!node.boundaryPlanes || !node.aperture) return;
 
-  for (let i = 0; i < polygons.length; i++) {
-    // Skip the polygon we just reflected off (can't reflect off same surface twice in a row)
-    if (i === node.id) continue;
-
-    const poly = polygons[i];
+  const nextIds = candidates ? candidates[node.id] : polygons.map((_, i) => i);
+  for (const i of nextIds) {
+    const childNode = createBeamChild(node, polygons, i);
+    if (!childNode) continue;
 
-    // Quick rejection: is polygon entirely outside beam?
-    if (quickRejectPolygon(poly, node.boundaryPlanes)) {
-      continue;
-    }
+    node.children.push(childNode);
 
-    // Check if polygon is facing the virtual source (backface culling)
-    if (!isPolygonFacingSource(poly, node.virtualSource)) {
-      continue;
+    // Continue recursion
+    if (currentOrder < maxOrder) {
+      buildBeamChildren(childNode, polygons, currentOrder + 1, maxOrder, candidates);
     }
+  }
+}
 
-    // Clip polygon to beam volume
-    const clipped = clipPolygonByPlanes(poly, node.boundaryPlanes);
-    if (!clipped) continue;
+/**
+ * Create the beam reflecting off polygon i within a parent beam
+ *
+ * @returns The child node (not yet attached), or null if the polygon is outside the parent beam
+ */
+export function createBeamChild(parent: BeamNode3D, polygons: Polygon3D[], i: number): BeamNode3D | null {
+  const poly = polygons[i];
 
-    // Skip tiny apertures
-    const area = Polygon3D.area(clipped);
-    if (area < MIN_APERTURE_AREA) continue;
+  // First order: the source sees the whole polygon unless it is backfacing
+  if (!parent.parent) {
+    if (!isPolygonFacingSource(poly, parent.virtualSource)) {
+      return null;
+    }
 
-    // Create child beam
-    const childVS = mirrorPointAcrossPolygon(node.virtualSource, poly);
-    const childBoundaries = constructBeamBoundaryPlanes(childVS, clipped);
+    // Create virtual source by mirroring across polygon
+    const childVS = mirrorPointAcrossPolygon(parent.virtualSource, poly);
 
-    const childNode: BeamNode3D = {
+    // First-order beam uses the full polygon as aperture
+    return {
       id: i,
-      parent: node,
+      parent,
       virtualSource: childVS,
-      aperture: clipped,
-      boundaryPlanes: childBoundaries,
+      aperture: Polygon3D.clone(poly),
+      boundaryPlanes: constructBeamBoundaryPlanes(childVS, poly),
       children: []
     };
+  }
 
-    node.children.push(childNode);
+  if (!parent.boundaryPlanes) return null;
 
-    // Continue recursion
-    if (currentOrder < maxOrder) {
-      buildBeamChildren(childNode, polygons, currentOrder + 1, maxOrder);
-    }
+  // Skip the polygon we just reflected off (can't reflect off same surface twice in a row)
+  if (i === parent.id) return null;
+
+  // Quick rejection: is polygon entirely outside beam?
+  if (quickRejectPolygon(poly, parent.boundaryPlanes)) {
+    return null;
+  }
+
+  // Check if polygon is facing the virtual source (backface culling)
+  if (!isPolygonFacingSource(poly, parent.virtualSource)) {
+    return null;
   }
+
+  // Clip polygon to beam volume
+  const clipped = clipPolygonByPlanes(poly, parent.boundaryPlanes);
+  if (!clipped) return null;
+
+  // Skip tiny apertures
+  const area = Polygon3D.area(clipped);
+  if (area < MIN_APERTURE_AREA) return null;
+
+  // Create child beam
+  const childVS = mirrorPointAcrossPolygon(parent.virtualSource, poly);
+  return {
+    id: i,
+    parent,
+    virtualSource: childVS,
+    aperture: clipped,
+    boundaryPlanes: constructBeamBoundaryPlanes(childVS, clipped),
+    children: []
+  };
+}
+
+/**
+ * Add the beams reflecting off a new polygon to an existing tree
+ *
+ * The polygon must already be at polygonId in tree.polygons. Child beams are
+ * clipped by their parent's boundaries only, so existing beams keep their
+ * apertures: every beam below the maximum order that the polygon falls into
+ * gains one child, with its full subtree.
+ *
+ * @param tree - Beam tree to update
+ * @param polygonId - Index of the new polygon
+ * @param candidates - Reflection candidates of the updated polygon list
+ * @returns Roots of the added subtrees
+ */
+export function insertBeamTreePolygon(
+  tree: BeamTree3D,
+  polygonId: number,
+  candidates?: number[][]
+): BeamNode3D[] {
+  const added: BeamNode3D[] = [];
+
+  const visit = (node: BeamNode3D, order: number): void => {
+    if (order >= tree.maxReflectionOrder) return;
+
+    // Only existing children: the new subtrees are complete already
+    for (const child of node.children) {
+      visit(child, order + 1);
+    }
+
+    if (node.parent && candidates && !candidates[node.id].includes(polygonId)) return;
+    const childNode = createBeamChild(node, tree.polygons, polygonId);
+    if (!childNode) return;
+
+    // Keep children sorted by polygon ID, as a fresh build would
+    const index = node.children.findIndex(child => child.id > polygonId);
+    node.children.splice(index === -1 ? node.children.length : index, 0, childNode);
+    if (order + 1 < tree.maxReflectionOrder) {
+      buildBeamChildren(childNode, tree.polygons, order + 2, tree.maxReflectionOrder, candidates);
+    }
+    added.push(childNode);
+  };
+
+  visit(tree.root, 0);
+  refreshLeafNodes(tree);
+  return added;
+}
+
+/**
+ * Remove every beam reflecting off a polygon, with its subtree
+ *
+ * @param tree - Beam tree to update
+ * @param polygonId - Index of the polygon
+ * @param renumber - The polygon was deleted from tree.polygons: shift the IDs of later polygons down by one
+ */
+export function removeBeamTreePolygon(tree: BeamTree3D, polygonId: number, renumber: boolean): void {
+  const visit = (node: BeamNode3D): void => {
+    node.children = node.children.filter(child => child.id !== polygonId);
+    for (const child of node.children) {
+      if (renumber && child.id > polygonId) {
+        child.id--;
+      }
+      visit(child);
+    }
+  };
+
+  visit(tree.root);
+  refreshLeafNodes(tree);
+}
+
+/**
+ * Recollect the leaf nodes after the tree changed
+ */
+function refreshLeafNodes(tree: BeamTree3D): void {
+  tree.leafNodes = [];
+  collectLeafNodes(tree.root, tree.leafNodes);
 }
 
 /**
@@ -320,3 +484,147 @@ function* iterateNodesRecursive(node: BeamNode3D): Generator<BeamNode3D> {
     yield* iterateNodesRecursive(child);
   }
 }
+
+/**
+ * Beam tree in flat typed arrays, for sending to worker threads
+ *
+ * Nodes are numbered in depth-first order (the root is node 0), so every
+ * parent comes before its children. Fail planes are not included.
+ */
+export interface SerializedBeamTree3D {
+  maxReflectionOrder: number;
+  polygonIds: Int32Array;        // Per node: reflecting polygon (-1 for the root)
+  parents: Int32Array;           // Per node: parent node index (-1 for the root)
+  virtualSources: Float64Array;  // Per node: x, y, z
+  apertureOffsets: Int32Array;   // Node i's aperture vertices are apertureOffsets[i] to apertureOffsets[i + 1] - 1
+  apertureVertices: Float64Array; // x, y, z per aperture vertex
+  planeOffsets: Int32Array;      // Node i's boundary planes are planeOffsets[i] to planeOffsets[i + 1] - 1
+  boundaryPlanes: Float64Array;  // a, b, c, d per boundary plane
+}
+
+/**
+ * Flatten a beam tree into typed arrays
+ */
+export function serializeBeamTree3D(tree: BeamTree3D): SerializedBeamTree3D {
+  const nodes = [...iterateNodes(tree)];
+  const index = new Map(nodes.map((node, i) => [node, i]));
+  const vertexCount = nodes.reduce((n, node) => n + (node.aperture?.vertices.length ?? 0), 0);
+  const planeCount = nodes.reduce((n, node) => n + (node.boundaryPlanes?.length ?? 0), 0);
+
+  const data: SerializedBeamTree3D = {
+    maxReflectionOrder: tree.maxReflectionOrder,
+    polygonIds: new Int32Array(nodes.length),
+    parents: new Int32Array(nodes.length),
+    virtualSources: new Float64Array(nodes.length * 3),
+    apertureOffsets: new Int32Array(nodes.length + 1),
+    apertureVertices: new Float64Array(vertexCount * 3),
+    planeOffsets: new Int32Array(nodes.length + 1),
+    boundaryPlanes: new Float64Array(planeCount * 4)
+  };
+
+  let vertex = 0;
+  let plane = 0;
+  nodes.forEach((node, i) => {
+    data.polygonIds[i] = node.id;
+    data.parents[i] = node.parent ? index.get(node.parent)! : -1;
+    data.virtualSources.set(node.virtualSource, i * 3);
+
+    data.apertureOffsets[i] = vertex;
+    for (const v of node.aperture?.vertices ?? []) {
+      data.apertureVertices.set(v, vertex++ * 3);
+    }
+    data.planeOffsets[i] = plane;
+    for (const p of node.boundaryPlanes ?? []) {
+      data.boundaryPlanes.set([p.a, p.b, p.c, p.d], plane++ * 4);
+    }
+  });
+  data.apertureOffsets[nodes.length] = vertex;
+  data.planeOffsets[nodes.length] = plane;
+
+  return data;
+}
+
+/**
+ * Rebuild a beam tree from serializeBeamTree3D output
+ *
+ * @param data - Serialized tree
+ * @param polygons - The room polygons the tree was built for
+ */
+export function deserializeBeamTree3D(data: SerializedBeamTree3D, polygons: Polygon3D[]): BeamTree3D {
+  const nodes: BeamNode3D[] = [];
+  for (let i = 0; i < data.polygonIds.length; i++) {
+    const id = data.polygonIds[i];
+    if (id >= polygons.length) {
+      throw new Error(`deserializeBeamTree3D: node ${i} reflects off polygon ${id}, but there are ${polygons.length} polygons`);
+    }
+    // Only the root has no parent, and parents come before their children
+    if (i === 0 ? data.parents[i] !== -1 : data.parents[i] < 0 || data.parents[i] >= i) {
+      throw new Error(`deserializeBeamTree3D: node ${i} has an invalid parent`);
+    }
+
+    const parent = data.parents[i] >= 0 ? nodes[data.parents[i]] : null;
+    const node = readBeamNode(data, i, parent, polygons);
+
+    parent?.children.push(node);
+    nodes.push(node);
+  }
+
+  const leafNodes: BeamNode3D[] = [];
+  collectLeafNodes(nodes[0], leafNodes);
+
+  return {
+    root: nodes[0],
+    leafNodes,
+    polygons,
+    maxReflectionOrder: data.maxReflectionOrder
+  };
+}
+
+/**
+ * Node i of a serialized tree as a BeamNode3D (without children)
+ *
+ * @param parent - The node's parent, already read (null for the root)
+ */
+export function readBeamNode(
+  data: SerializedBeamTree3D,
+  i: number,
+  parent: BeamNode3D | null,
+  polygons: Polygon3D[]
+): BeamNode3D {
+  const id = data.polygonIds[i];
+  const node: BeamNode3D = {
+    id,
+    parent,
+    virtualSource: readVector(data.virtualSources, i),
+    children: []
+  };
+
+  const vertices: Vector3[] = [];
+  for (let v = data.apertureOffsets[i]; v < data.apertureOffsets[i + 1]; v++) {
+    vertices.push(readVector(data.apertureVertices, v));
+  }
+  if (vertices.length > 0) {
+    // Same plane, material and surface as createBeamChild gives the aperture
+    const poly = polygons[id];
+    node.aperture = parent?.parent
+      ? Polygon3D.createWithPlane(vertices, poly.plane, poly.materialId)
+      : { vertices, plane: { ...poly.plane }, materialId: poly.materialId, surfaceId: poly.surfaceId };
+  }
+
+  if (data.planeOffsets[i + 1] > data.planeOffsets[i]) {
+    node.boundaryPlanes = [];
+    for (let p = data.planeOffsets[i]; p < data.planeOffsets[i + 1]; p++) {
+      const [a, b, c, d] = data.boundaryPlanes.subarray(p * 4, p * 4 + 4);
+      node.boundaryPlanes.push({ a, b, c, d });
+    }
+  }
+
+  return node;
+}
+
+/**
+ * The i-th x, y, z triple of a flat array
+ */
+export function readVector(values: Float64Array, i: number): Vector3 {
+  return [values[i * 3], values[i * 3 + 1], values[i * 3 + 2]];
+}
@@ -340,3 +340,109 @@ export function treeDepth(node: BSPNode3D | null): number {
   if (!node) return 0;
   return 1 + Math.max(treeDepth(node.front), treeDepth(node.back));
 }
+
+/**
+ * BSP tree in flat typed arrays
+ *
+ * Nodes are numbered in depth-first order (the root is node 0). Splitting
+ * planes are those of the original polygons, so they are not stored; nor
+ * are the vertices of polygons that were not split.
+ */
+export interface SerializedBSP3D {
+  polygonIds: Int32Array;        // Per node: original polygon index
+  fronts: Int32Array;            // Per node: front child node (-1 for none)
+  backs: Int32Array;             // Per node: back child node (-1 for none)
+  vertexOffsets: Int32Array;     // Node i's fragment vertices are vertexOffsets[i] to vertexOffsets[i + 1] - 1 (none: the whole polygon)
+  vertices: Float64Array;        // x, y, z per fragment vertex
+}
+
+/**
+ * Flatten a BSP tree into typed arrays
+ *
+ * @param root - Root node from buildBSP
+ * @param polygons - The polygons the tree was built from
+ */
+export function serializeBSP(root: BSPNode3D | null, polygons: Polygon3D[]): SerializedBSP3D {
+  const nodes: BSPNode3D[] = [];
+  const collect = (node: BSPNode3D | null): number => {
+    if (!node) return -1;
+    nodes.push(node);
+    collect(node.front);
+    collect(node.back);
+    return nodes.length - 1;
+  };
+  collect(root);
+  const index = new Map(nodes.map((node, i) => [node, i]));
+
+  // Fragments only: whole polygons are restored from the polygon list
+  const isFragment = (node: BSPNode3D) => node.polygon !== polygons[node.polygonId];
+  const vertexCount = nodes.reduce((n, node) => n + (isFragment(node) ? node.polygon.vertices.length : 0), 0);
+
+  const data: SerializedBSP3D = {
+    polygonIds: new Int32Array(nodes.length),
+    fronts: new Int32Array(nodes.length),
+    backs: new Int32Array(nodes.length),
+    vertexOffsets: new Int32Array(nodes.length + 1),
+    vertices: new Float64Array(vertexCount * 3)
+  };
+
+  let vertex = 0;
+  nodes.forEach((node, i) => {
+    data.polygonIds[i] = node.polygonId;
+    data.fronts[i] = node.front ? index.get(node.front)! : -1;
+    data.backs[i] = node.back ? index.get(node.back)! : -1;
+    data.vertexOffsets[i] = vertex;
+    if (isFragment(node)) {
+      for (const v of node.polygon.vertices) {
+        data.vertices.set(v, vertex++ * 3);
+      }
+    }
+  });
+  data.vertexOffsets[nodes.length] = vertex;
+
+  return data;
+}
+
+/**
+ * Rebuild a BSP tree from serializeBSP output
+ *
+ * @param data - Serialized tree
+ * @param polygons - The polygons the tree was built from
+ * @returns Root node, or null for an empty tree
+ */
+export function deserializeBSP(data: SerializedBSP3D, polygons: Polygon3D[]): BSPNode3D | null {
+  const count = data.polygonIds.length;
+  const nodes: BSPNode3D[] = [];
+  for (let i = 0; i < count; i++) {
+    const polygonId = data.polygonIds[i];
+    const original = polygons[polygonId];
+    if (!original) {
+      throw new Error(`deserializeBSP: node ${i} holds polygon ${polygonId}, but there are ${polygons.length} polygons`);
+    }
+
+    // Fragments keep the original plane and material, as splitPolygon makes them
+    let polygon = original;
+    if (data.vertexOffsets[i + 1] > data.vertexOffsets[i]) {
+      const vertices: Vector3[] = [];
+      for (let v = data.vertexOffsets[i]; v < data.vertexOffsets[i + 1]; v++) {
+        vertices.push([data.vertices[v * 3], data.vertices[v * 3 + 1], data.vertices[v * 3 + 2]]);
+      }
+      polygon = Polygon3D.createWithPlane(vertices, original.plane, original.materialId);
+    }
+
+    nodes.push({ plane: original.plane, polygon, polygonId, front: null, back: null });
+  }
+
+  // Children come after their parent in depth-first order
+  for (let i = 0; i < count; i++) {
+    const front = data.fronts[i];
+    const back = data.backs[i];
+    if ((front !== -1 && (front <= i || front >= count)) || (back !== -1 && (back <= i || back >= count))) {
+      throw new Error(`deserializeBSP: node ${i} has invalid children`);
+    }
+    nodes[i].front = front === -1 ? null : nodes[front];
+    nodes[i].back = back === -1 ? null : nodes[back];
+  }
+
+  return count > 0 ? nodes[0] : null;
+}
@@ -0,0 +1,497 @@
+/**
+ * Flat Beam Tree for BeamTrace3D
+ *
+ * BeamNode3D trees hold a Vector3 tuple, an aperture polygon and a list of
+ * Plane3D objects per node; at order 6 in a 40-polygon room that is over a
+ * gigabyte. FlatBeamTree3D keeps the same nodes as a struct of typed arrays,
+ * numbered depth-first like SerializedBeamTree3D, with the fail plane cache
+ * alongside. OptimizedSolver3D works on this form; expandFlatBeamTree3D and
+ * getFlatBeamNode give BeamNode3D objects for inspection.
+ */
+
+import { Vector3 } from '../core/vector3';
+import { Plane3D } from '../core/plane3d';
+import { FailPlaneType } from '../core/types';
+import { Polygon3D } from '../geometry/polygon3d';
+import {
+  BeamNode3D,
+  BeamTree3D,
+  SerializedBeamTree3D,
+  createBeamChild,
+  deserializeBeamTree3D,
+  iterateNodes,
+  readBeamNode,
+  readVector
+} from './beamtree3d';
+
+/**
+ * Beam tree in typed arrays
+ *
+ * Node 0 is the root (the source); every parent comes before its children,
+ * and a node's subtree is the run of nodes that follows it.
+ */
+export interface FlatBeamTree3D extends SerializedBeamTree3D {
+  polygons: Polygon3D[];         // Reference to room polygons
+  leafNodes: Int32Array;         // Indices of all leaf nodes, depth-first (for bucket optimization)
+  internalNodes: Int32Array;     // Indices of reflection nodes with children, each after its descendants
+  failPlanes: Float64Array;      // Per node: a, b, c, d of the cached fail plane
+  failPlaneTypes: Uint8Array;    // Per node: 0 for no fail plane, else 1 + index in FAIL_PLANE_TYPES
+}
+
+/**
+ * A flat beam tree after adding or removing a polygon
+ */
+export interface FlatBeamTreeEdit3D {
+  tree: FlatBeamTree3D;
+  nodeMap: Int32Array;           // Per node of the old tree: its index in the new tree, or -1 if removed
+}
+
+/** Fail plane types by their code in failPlaneTypes, minus one */
+const FAIL_PLANE_TYPES: FailPlaneType[] = ['polygon', 'edge', 'aperture'];
+
+/**
+ * Growing node arrays, turned into typed arrays when the tree is complete
+ */
+interface FlatBeamTreeWriter {
+  polygonIds: number[];
+  parents: number[];
+  virtualSources: number[];
+  apertureOffsets: number[];
+  apertureVertices: number[];
+  planeOffsets: number[];
+  boundaryPlanes: number[];
+  failPlanes: number[];
+  failPlaneTypes: number[];
+}
+
+/**
+ * Build a flat beam tree from source and room geometry
+ *
+ * Gives the nodes of buildBeamTree3D in the same order, but only the beams
+ * on the current reflection path exist as objects while building.
+ *
+ * @param sourcePosition - Position of the sound source
+ * @param polygons - Room polygons (walls, floor, ceiling)
+ * @param maxReflectionOrder - Maximum number of reflections to track
+ * @param candidates - Precomputed computeReflectionCandidates(polygons), to skip polygons behind each reflector
+ */
+export function buildFlatBeamTree3D(
+  sourcePosition: Vector3,
+  polygons: Polygon3D[],
+  maxReflectionOrder: number,
+  candidates?: number[][]
+): FlatBeamTree3D {
+  const writer = createWriter();
+  const root: BeamNode3D = {
+    id: -1,
+    parent: null,
+    virtualSource: Vector3.clone(sourcePosition),
+    children: []
+  };
+  writeBeamSubtree(writer, root, -1, polygons, 0, maxReflectionOrder, candidates);
+  return finishWriter(writer, polygons, maxReflectionOrder);
+}
+
+/**
+ * Flatten a beam tree, keeping its cached fail planes
+ */
+export function flattenBeamTree3D(tree: BeamTree3D): FlatBeamTree3D {
+  const writer = createWriter();
+  const visit = (node: BeamNode3D, parent: number): void => {
+    const index = writeNode(writer, node, parent);
+    for (const child of node.children) {
+      visit(child, index);
+    }
+  };
+  visit(tree.root, -1);
+  return finishWriter(writer, tree.polygons, tree.maxReflectionOrder);
+}
+
+/**
+ * Rebuild a flat beam tree from serializeBeamTree3D or serializeFlatBeamTree3D output
+ *
+ * The arrays are used as they are, not copied.
+ *
+ * @param data - Serialized tree
+ * @param polygons - The room polygons the tree was built for
+ */
+export function createFlatBeamTree3D(data: SerializedBeamTree3D, polygons: Polygon3D[]): FlatBeamTree3D {
+  const count = data.polygonIds.length;
+  for (let i = 0; i < count; i++) {
+    const id = data.polygonIds[i];
+    if (id >= polygons.length) {
+      throw new Error(`createFlatBeamTree3D: node ${i} reflects off polygon ${id}, but there are ${polygons.length} polygons`);
+    }
+    // Only the root has no parent, and parents come before their children
+    if (i === 0 ? data.parents[i] !== -1 : data.parents[i] < 0 || data.parents[i] >= i) {
+      throw new Error(`createFlatBeamTree3D: node ${i} has an invalid parent`);
+    }
+  }
+
+  return {
+    maxReflectionOrder: data.maxReflectionOrder,
+    polygonIds: data.polygonIds,
+    parents: data.parents,
+    virtualSources: data.virtualSources,
+    apertureOffsets: data.apertureOffsets,
+    apertureVertices: data.apertureVertices,
+    planeOffsets: data.planeOffsets,
+    boundaryPlanes: data.boundaryPlanes,
+    polygons,
+    ...indexNodes(data.parents),
+    failPlanes: new Float64Array(count * 4),
+    failPlaneTypes: new Uint8Array(count)
+  };
+}
+
+/**
+ * The arrays of a flat beam tree that serializeBeamTree3D gives (shared, not copied)
+ */
+export function serializeFlatBeamTree3D(tree: FlatBeamTree3D): SerializedBeamTree3D {
+  return {
+    maxReflectionOrder: tree.maxReflectionOrder,
+    polygonIds: tree.polygonIds,
+    parents: tree.parents,
+    virtualSources: tree.virtualSources,
+    apertureOffsets: tree.apertureOffsets,
+    apertureVertices: tree.apertureVertices,
+    planeOffsets: tree.planeOffsets,
+    boundaryPlanes: tree.boundaryPlanes
+  };
+}
+
+/**
+ * Expand a flat beam tree into BeamNode3D objects, with its cached fail planes
+ *
+ * Nodes come out in index order under iterateNodes. Changes to the result do
+ * not affect the flat tree.
+ */
+export function expandFlatBeamTree3D(tree: FlatBeamTree3D): BeamTree3D {
+  const expanded = deserializeBeamTree3D(tree, tree.polygons);
+  let i = 0;
+  for (const node of iterateNodes(expanded)) {
+    if (tree.failPlaneTypes[i] !== 0) {
+      node.failPlane = readPlane(tree.failPlanes, i);
+      node.failPlaneType = FAIL_PLANE_TYPES[tree.failPlaneTypes[i] - 1];
+    }
+    i++;
+  }
+  return expanded;
+}
+
+/**
+ * Node i of a flat beam tree as a BeamNode3D, with its ancestors (children are left empty)
+ */
+export function getFlatBeamNode(tree: FlatBeamTree3D, i: number): BeamNode3D {
+  const parent = tree.parents[i] >= 0 ? getFlatBeamNode(tree, tree.parents[i]) : null;
+  return readBeamNode(tree, i, parent, tree.polygons);
+}
+
+/**
+ * Virtual source of node i
+ */
+export function getFlatVirtualSource(tree: FlatBeamTree3D, i: number): Vector3 {
+  return readVector(tree.virtualSources, i);
+}
+
+/**
+ * Aperture vertices of node i (empty for the root)
+ */
+export function getFlatAperture(tree: FlatBeamTree3D, i: number): Vector3[] {
+  const vertices: Vector3[] = [];
+  for (let v = tree.apertureOffsets[i]; v < tree.apertureOffsets[i + 1]; v++) {
+    vertices.push(readVector(tree.apertureVertices, v));
+  }
+  return vertices;
+}
+
+/**
+ * Count total nodes in a flat beam tree
+ */
+export function countFlatBeamNodes(tree: FlatBeamTree3D): number {
+  return tree.polygonIds.length;
+}
+
+/**
+ * Add the beams reflecting off a new polygon (see insertBeamTreePolygon)
+ *
+ * The polygon must already be at polygonId in tree.polygons. Existing nodes
+ * keep their fail planes.
+ *
+ * @param tree - Beam tree to update (left unchanged)
+ * @param polygonId - Index of the new polygon
+ * @param candidates - Reflection candidates of the updated polygon list
+ */
+export function insertFlatBeamTreePolygon(
+  tree: FlatBeamTree3D,
+  polygonId: number,
+  candidates?: number[][]
+): FlatBeamTreeEdit3D {
+  const { polygons, maxReflectionOrder, polygonIds, parents } = tree;
+  const count = polygonIds.length;
+  const writer = createWriter();
+  const nodeMap = new Int32Array(count);
+
+  // One past the last node of each subtree
+  const ends = new Int32Array(count);
+  for (let i = count - 1; i >= 0; i--) {
+    ends[i] = Math.max(ends[i], i + 1);
+    if (i > 0) ends[parents[i]] = Math.max(ends[parents[i]], ends[i]);
+  }
+
+  const visit = (i: number, parent: number, node: BeamNode3D | null, order: number): void => {
+    const index = copyNode(writer, tree, i, parent, polygonIds[i]);
+    nodeMap[i] = index;
+
+    // The new beam goes among the existing children, sorted by polygon ID as a fresh build would
+    let added = node && (i === 0 || !candidates || candidates[polygonIds[i]].includes(polygonId))
+      ? createBeamChild(node, polygons, polygonId)
+      : null;
+    for (let child = i + 1; child < ends[i]; child = ends[child]) {
+      if (added && polygonIds[child] > polygonId) {
+        writeBeamSubtree(writer, added, index, polygons, order + 1, maxReflectionOrder, candidates);
+        added = null;
+      }
+      // Beams below the maximum order can gain children
+      const childNode = order + 1 < maxReflectionOrder ? readBeamNode(tree, child, node, polygons) : null;
+      visit(child, index, childNode, order + 1);
+    }
+    if (added) {
+      writeBeamSubtree(writer, added, index, polygons, order + 1, maxReflectionOrder, candidates);
+    }
+  };
+
+  const root = maxReflectionOrder > 0 ? readBeamNode(tree, 0, null, polygons) : null;
+  visit(0, -1, root, 0);
+  return { tree: finishWriter(writer, polygons, maxReflectionOrder), nodeMap };
+}
+
+/**
+ * Remove every beam reflecting off a polygon, with its subtree (see removeBeamTreePolygon)
+ *
+ * @param tree - Beam tree to update (left unchanged)
+ * @param polygonId - Index of the polygon
+ * @param renumber - The polygon was deleted from tree.polygons: shift the IDs of later polygons down by one
+ */
+export function removeFlatBeamTreePolygon(
+  tree: FlatBeamTree3D,
+  polygonId: number,
+  renumber: boolean
+): FlatBeamTreeEdit3D {
+  const { polygonIds, parents } = tree;
+  const writer = createWriter();
+  const nodeMap = new Int32Array(polygonIds.length).fill(-1);
+
+  for (let i = 0; i < polygonIds.length; i++) {
+    const id = polygonIds[i];
+    if (i > 0 && (id === polygonId || nodeMap[parents[i]] === -1)) continue;
+    nodeMap[i] = copyNode(writer, tree, i, i > 0 ? nodeMap[parents[i]] : -1, renumber && id > polygonId ? id - 1 : id);
+  }
+
+  return { tree: finishWriter(writer, tree.polygons, tree.maxReflectionOrder), nodeMap };
+}
+
+/**
+ * Cached fail plane of node i, if any
+ */
+export function getFlatFailPlane(tree: FlatBeamTree3D, i: number): { plane: Plane3D; type: FailPlaneType } | null {
+  const code = tree.failPlaneTypes[i];
+  return code === 0 ? null : { plane: readPlane(tree.failPlanes, i), type: FAIL_PLANE_TYPES[code - 1] };
+}
+
+/**
+ * Cache a fail plane for node i
+ */
+export function setFlatFailPlane(tree: FlatBeamTree3D, i: number, plane: Plane3D, type: FailPlaneType): void {
+  tree.failPlanes[i * 4] = plane.a;
+  tree.failPlanes[i * 4 + 1] = plane.b;
+  tree.failPlanes[i * 4 + 2] = plane.c;
+  tree.failPlanes[i * 4 + 3] = plane.d;
+  tree.failPlaneTypes[i] = FAIL_PLANE_TYPES.indexOf(type) + 1;
+}
+
+/**
+ * Clear the fail plane of node i
+ */
+export function clearFlatFailPlane(tree: FlatBeamTree3D, i: number): void {
+  tree.failPlaneTypes[i] = 0;
+}
+
+/**
+ * Clear all fail planes in a flat tree (reset optimization cache)
+ */
+export function clearFlatFailPlanes(tree: FlatBeamTree3D): void {
+  tree.failPlaneTypes.fill(0);
+}
+
+/**
+ * Signed distance from a point to the fail plane of node i
+ *
+ * Negative behind the plane (the path still fails); only meaningful if the
+ * node has a fail plane.
+ */
+export function flatFailPlaneDistance(tree: FlatBeamTree3D, i: number, point: Vector3): number {
+  const p = tree.failPlanes;
+  return p[i * 4] * point[0] + p[i * 4 + 1] * point[1] + p[i * 4 + 2] * point[2] + p[i * 4 + 3];
+}
+
+/**
+ * Write a node and every beam below it, building the beams as buildBeamTree3D does
+ *
+ * @param order - Reflection order of the node (0 for the root)
+ */
+function writeBeamSubtree(
+  writer: FlatBeamTreeWriter,
+  node: BeamNode3D,
+  parent: number,
+  polygons: Polygon3D[],
+  order: number,
+  maxOrder: number,
+  candidates?: number[][]
+): void {
+  const index = writeNode(writer, node, parent);
+  if (order >= maxOrder) return;
+
+  const nextIds = node.parent && candidates ? candidates[node.id] : polygons.map((_, i) => i);
+  for (const i of nextIds) {
+    const child = createBeamChild(node, polygons, i);
+    if (child) {
+      writeBeamSubtree(writer, child, index, polygons, order + 1, maxOrder, candidates);
+    }
+  }
+}
+
+function createWriter(): FlatBeamTreeWriter {
+  return {
+    polygonIds: [],
+    parents: [],
+    virtualSources: [],
+    apertureOffsets: [],
+    apertureVertices: [],
+    planeOffsets: [],
+    boundaryPlanes: [],
+    failPlanes: [],
+    failPlaneTypes: []
+  };
+}
+
+/**
+ * Append a BeamNode3D, with its fail plane
+ *
+ * @returns Index of the new node
+ */
+function writeNode(writer: FlatBeamTreeWriter, node: BeamNode3D, parent: number): number {
+  writer.polygonIds.push(node.id);
+  writer.parents.push(parent);
+  writer.virtualSources.push(...node.virtualSource);
+
+  writer.apertureOffsets.push(writer.apertureVertices.length / 3);
+  for (const v of node.aperture?.vertices ?? []) {
+    writer.apertureVertices.push(...v);
+  }
+  writer.planeOffsets.push(writer.boundaryPlanes.length / 4);
+  for (const p of node.boundaryPlanes ?? []) {
+    writer.boundaryPlanes.push(p.a, p.b, p.c, p.d);
+  }
+
+  const plane = node.failPlane;
+  writer.failPlanes.push(plane?.a ?? 0, plane?.b ?? 0, plane?.c ?? 0, plane?.d ?? 0);
+  writer.failPlaneTypes.push(plane && node.failPlaneType ? FAIL_PLANE_TYPES.indexOf(node.failPlaneType) + 1 : 0);
+
+  return writer.polygonIds.length - 1;
+}
+
+/**
+ * Append node i of a flat tree, with its fail plane
+ *
+ * @param id - Polygon ID for the copy
+ * @returns Index of the new node
+ */
+function copyNode(writer: FlatBeamTreeWriter, tree: FlatBeamTree3D, i: number, parent: number, id: number): number {
+  writer.polygonIds.push(id);
+  writer.parents.push(parent);
+  writer.virtualSources.push(tree.virtualSources[i * 3], tree.virtualSources[i * 3 + 1], tree.virtualSources[i * 3 + 2]);
+
+  writer.apertureOffsets.push(writer.apertureVertices.length / 3);
+  for (let k = tree.apertureOffsets[i] * 3; k < tree.apertureOffsets[i + 1] * 3; k++) {
+    writer.apertureVertices.push(tree.apertureVertices[k]);
+  }
+  writer.planeOffsets.push(writer.boundaryPlanes.length / 4);
+  for (let k = tree.planeOffsets[i] * 4; k < tree.planeOffsets[i + 1] * 4; k++) {
+    writer.boundaryPlanes.push(tree.boundaryPlanes[k]);
+  }
+
+  for (let k = i * 4; k < i * 4 + 4; k++) {
+    writer.failPlanes.push(tree.failPlanes[k]);
+  }
+  writer.failPlaneTypes.push(tree.failPlaneTypes[i]);
+
+  return writer.polygonIds.length - 1;
+}
+
+/**
+ * Move the written nodes into typed arrays
+ */
+function finishWriter(writer: FlatBeamTreeWriter, polygons: Polygon3D[], maxReflectionOrder: number): FlatBeamTree3D {
+  writer.apertureOffsets.push(writer.apertureVertices.length / 3);
+  writer.planeOffsets.push(writer.boundaryPlanes.length / 4);
+  const parents = Int32Array.from(writer.parents);
+
+  return {
+    maxReflectionOrder,
+    polygonIds: Int32Array.from(writer.polygonIds),
+    parents,
+    virtualSources: Float64Array.from(writer.virtualSources),
+    apertureOffsets: Int32Array.from(writer.apertureOffsets),
+    apertureVertices: Float64Array.from(writer.apertureVertices),
+    planeOffsets: Int32Array.from(writer.planeOffsets),
+    boundaryPlanes: Float64Array.from(writer.boundaryPlanes),
+    polygons,
+    ...indexNodes(parents),
+    failPlanes: Float64Array.from(writer.failPlanes),
+    failPlaneTypes: Uint8Array.from(writer.failPlaneTypes)
+  };
+}
+
+/**
+ * Find the leaf nodes, and the other reflection nodes in post-order
+ *
+ * Walking the depth-first order with a stack of open ancestors, a node is
+ * complete once a node that is not its descendant comes up.
+ */
+function indexNodes(parents: Int32Array): { leafNodes: Int32Array; internalNodes: Int32Array } {
+  const count = parents.length;
+  const leafNodes: number[] = [];
+  const internalNodes: number[] = [];
+  const open: number[] = [];
+
+  const close = (i: number): void => {
+    if (i === 0) return;
+    // Children directly follow their parent
+    if (i + 1 < count && parents[i + 1] === i) {
+      internalNodes.push(i);
+    }
+  };
+
+  for (let i = 0; i < count; i++) {
+    while (open.length > 0 && open[open.length - 1] !== parents[i]) {
+      close(open.pop()!);
+    }
+    open.push(i);
+    if (i > 0 && (i + 1 >= count || parents[i + 1] !== i)) {
+      leafNodes.push(i);
+    }
+  }
+  while (open.length > 0) {
+    close(open.pop()!);
+  }
+
+  return { leafNodes: Int32Array.from(leafNodes), internalNodes: Int32Array.from(internalNodes) };
+}
+
+/**
+ * The i-th a, b, c, d quadruple of a flat array
+ */
+function readPlane(values: Float64Array, i: number): Plane3D {
+  return { a: values[i * 4], b: values[i * 4 + 1], c: values[i * 4 + 2], d: values[i * 4 + 3] };
+}